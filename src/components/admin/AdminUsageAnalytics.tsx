@@ -18,6 +18,7 @@ import {
   Mic,
   Video,
   FileText,
+  PenLine,
   DollarSign
 } from "lucide-react";
 import { formatDistanceToNow } from "date-fns";
@@ -39,6 +40,7 @@ const FEATURE_ICONS: Record<string, React.ReactNode> = {
   "generate-image": <Image className="h-4 w-4" />,
   "generate-voiceover": <Mic className="h-4 w-4" />,
   "export-video": <Video className="h-4 w-4" />,
+  "write-story": <PenLine className="h-4 w-4" />,
 };
 
 export function AdminUsageAnalytics() {
@@ -0,0 +1,69 @@
+import { useAiModelSettings } from '@/hooks/useAiModelSettings';
+import { AI_FEATURES, AI_MODEL_OPTIONS } from '@/lib/aiModels';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { formatDistanceToNow } from 'date-fns';
+
+export function AiModelSettings() {
+  const { settings, isLoading, updateSetting } = useAiModelSettings();
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>AI Models</CardTitle>
+        <CardDescription>
+          The model each feature calls by default. Usage costs are logged at the chosen model's pricing.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <div className="space-y-2">
+            {AI_FEATURES.map((feature) => (
+              <Skeleton key={feature.feature} className="h-16 w-full" />
+            ))}
+          </div>
+        ) : (
+          AI_FEATURES.map((feature) => {
+            const setting = settings.find((s) => s.feature === feature.feature);
+            const models = AI_MODEL_OPTIONS.filter((m) => m.capability === feature.capability);
+            // Unknown ids fall back to the default on the server too
+            const value = models.some((m) => m.id === setting?.model_id) ? setting!.model_id : feature.defaultModel;
+
+            return (
+              <div key={feature.feature} className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+                <div>
+                  <Label>{feature.label}</Label>
+                  <p className="text-sm text-muted-foreground">{feature.description}</p>
+                  {setting && (
+                    <p className="text-xs text-muted-foreground">
+                      Changed {formatDistanceToNow(new Date(setting.updated_at), { addSuffix: true })}
+                    </p>
+                  )}
+                </div>
+                <Select
+                  value={value}
+                  onValueChange={(modelId) => updateSetting.mutate({ feature: feature.feature, modelId })}
+                  disabled={updateSetting.isPending}
+                >
+                  <SelectTrigger className="sm:w-[320px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {models.map((model) => (
+                      <SelectItem key={model.id} value={model.id}>
+                        {model.label}
+                        <span className="ml-2 text-xs text-muted-foreground">{model.price}</span>
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            );
+          })
+        )}
+      </CardContent>
+    </Card>
+  );
+}
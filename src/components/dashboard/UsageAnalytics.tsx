@@ -13,7 +13,8 @@ import {
   Image,
   Mic,
   Video,
-  FileText
+  FileText,
+  PenLine
 } from "lucide-react";
 import { formatDistanceToNow } from "date-fns";
 import { 
@@ -35,6 +36,7 @@ const FEATURE_ICONS: Record<string, React.ReactNode> = {
   "generate-image": <Image className="h-4 w-4" />,
   "generate-voiceover": <Mic className="h-4 w-4" />,
   "export-video": <Video className="h-4 w-4" />,
+  "write-story": <PenLine className="h-4 w-4" />,
 };
 
 const FEATURE_COLORS: Record<string, string> = {
@@ -42,6 +44,7 @@ const FEATURE_COLORS: Record<string, string> = {
   "generate-image": "hsl(var(--accent))",
   "generate-voiceover": "#10b981",
   "export-video": "#f59e0b",
+  "write-story": "#8b5cf6",
 };
 
 export function UsageAnalytics() {
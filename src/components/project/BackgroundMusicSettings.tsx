@@ -0,0 +1,207 @@
+import { useRef, useState } from 'react';
+import { Project, Scene } from '@/lib/types';
+import { MUSIC_LIBRARY, MUSIC_LIBRARY_BUCKET, pickLibraryTrack } from '@/lib/music';
+import { useAuth } from '@/hooks/useAuth';
+import { useProjects } from '@/hooks/useProjects';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from 'sonner';
+import { Loader2, Music, Upload, Wand2 } from 'lucide-react';
+
+const MAX_MUSIC_FILE_BYTES = 20 * 1024 * 1024;
+const MUSIC_FILE_TYPES = ['audio/mpeg', 'audio/mp3', 'audio/wav', 'audio/x-wav', 'audio/ogg', 'audio/aac', 'audio/mp4'];
+
+interface BackgroundMusicSettingsProps {
+  project: Project;
+  scenes: Scene[];
+}
+
+export function BackgroundMusicSettings({ project, scenes }: BackgroundMusicSettingsProps) {
+  const { user } = useAuth();
+  const { updateProject } = useProjects();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const [volume, setVolume] = useState(Math.round(project.music_volume * 100));
+  const [fadeIn, setFadeIn] = useState(project.music_fade_in_ms / 1000);
+  const [fadeOut, setFadeOut] = useState(project.music_fade_out_ms / 1000);
+
+  const suggestedTrack = pickLibraryTrack(project.tone, scenes.map((s) => s.mood));
+
+  const selectLibraryTrack = (trackId: string) => {
+    const track = MUSIC_LIBRARY.find((t) => t.id === trackId);
+    if (!track) return;
+    const { data } = supabase.storage.from(MUSIC_LIBRARY_BUCKET).getPublicUrl(track.path);
+    updateProject.mutate({
+      id: project.id,
+      music_source: 'library',
+      music_track_id: track.id,
+      music_url: data.publicUrl,
+    });
+  };
+
+  const removeMusic = () => {
+    updateProject.mutate({ id: project.id, music_source: null, music_track_id: null, music_url: null });
+  };
+
+  const handleUpload = async (file: File) => {
+    if (!user) return;
+    if (!MUSIC_FILE_TYPES.includes(file.type)) {
+      toast.error('Please choose an MP3, WAV, OGG or AAC file');
+      return;
+    }
+    if (file.size > MAX_MUSIC_FILE_BYTES) {
+      toast.error('Music files must be smaller than 20 MB');
+      return;
+    }
+
+    setIsUploading(true);
+    try {
+      const extension = file.name.split('.').pop()?.toLowerCase() || 'mp3';
+      const path = `${user.id}/music/${project.id}-${Date.now()}.${extension}`;
+      const { error } = await supabase.storage
+        .from('project-assets')
+        .upload(path, file, { contentType: file.type });
+      if (error) throw error;
+
+      const { data } = supabase.storage.from('project-assets').getPublicUrl(path);
+      await updateProject.mutateAsync({
+        id: project.id,
+        music_source: 'upload',
+        music_track_id: null,
+        music_url: data.publicUrl,
+      });
+      toast.success('Background music uploaded');
+    } catch (error) {
+      console.error('Music upload error:', error);
+      toast.error('Failed to upload music');
+    } finally {
+      setIsUploading(false);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Background Music</CardTitle>
+        <CardDescription>Plays under the narration and dips while it speaks</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-3">
+          <Label>Track</Label>
+          <div className="flex gap-2">
+            <Select
+              value={project.music_source === 'library' ? project.music_track_id ?? undefined : undefined}
+              onValueChange={selectLibraryTrack}
+            >
+              <SelectTrigger className="flex-1">
+                <SelectValue
+                  placeholder={project.music_source === 'upload' ? 'Uploaded track' : 'Choose from library'}
+                />
+              </SelectTrigger>
+              <SelectContent>
+                {MUSIC_LIBRARY.map((track) => (
+                  <SelectItem key={track.id} value={track.id}>
+                    {track.title} <span className="text-muted-foreground capitalize">• {track.tone}</span>
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="outline"
+              className="gap-2"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isUploading}
+            >
+              {isUploading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Upload className="h-4 w-4" />}
+              Upload
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={MUSIC_FILE_TYPES.join(',')}
+              className="hidden"
+              onChange={(e) => e.target.files?.[0] && handleUpload(e.target.files[0])}
+            />
+          </div>
+
+          {project.music_track_id !== suggestedTrack.id && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="gap-2 px-0 text-muted-foreground"
+              onClick={() => selectLibraryTrack(suggestedTrack.id)}
+            >
+              <Wand2 className="h-4 w-4" />
+              Suggested for a {project.tone} story: {suggestedTrack.title}
+            </Button>
+          )}
+
+          {project.music_url && (
+            <div className="flex items-center gap-3 p-3 rounded-lg bg-muted/50">
+              <Music className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+              <audio src={project.music_url} controls className="h-8 flex-1 min-w-0" />
+              <Button variant="ghost" size="sm" onClick={removeMusic}>
+                Remove
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {project.music_url && (
+          <>
+            <div className="space-y-3">
+              <div className="flex justify-between">
+                <Label>Volume</Label>
+                <span className="text-sm text-muted-foreground">{volume}%</span>
+              </div>
+              <Slider
+                value={[volume]}
+                min={0}
+                max={100}
+                step={5}
+                onValueChange={([v]) => setVolume(v)}
+                onValueCommit={([v]) => updateProject.mutate({ id: project.id, music_volume: v / 100 })}
+              />
+            </div>
+
+            <div className="grid sm:grid-cols-2 gap-6">
+              <div className="space-y-3">
+                <div className="flex justify-between">
+                  <Label>Fade in</Label>
+                  <span className="text-sm text-muted-foreground">{fadeIn}s</span>
+                </div>
+                <Slider
+                  value={[fadeIn]}
+                  min={0}
+                  max={10}
+                  step={0.5}
+                  onValueChange={([v]) => setFadeIn(v)}
+                  onValueCommit={([v]) => updateProject.mutate({ id: project.id, music_fade_in_ms: v * 1000 })}
+                />
+              </div>
+              <div className="space-y-3">
+                <div className="flex justify-between">
+                  <Label>Fade out</Label>
+                  <span className="text-sm text-muted-foreground">{fadeOut}s</span>
+                </div>
+                <Slider
+                  value={[fadeOut]}
+                  min={0}
+                  max={10}
+                  step={0.5}
+                  onValueChange={([v]) => setFadeOut(v)}
+                  onValueCommit={([v]) => updateProject.mutate({ id: project.id, music_fade_out_ms: v * 1000 })}
+                />
+              </div>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
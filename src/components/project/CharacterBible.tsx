@@ -0,0 +1,299 @@
+import { useRef, useState } from 'react';
+import { Character, Project, Scene } from '@/lib/types';
+import { useAuth } from '@/hooks/useAuth';
+import { useCharacters } from '@/hooks/useCharacters';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { toast } from 'sonner';
+import { Edit2, ImageOff, Loader2, Plus, Trash2, Upload, Users } from 'lucide-react';
+
+const MAX_REFERENCE_FILE_BYTES = 5 * 1024 * 1024;
+const REFERENCE_FILE_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+
+interface CharacterBibleProps {
+  project: Project;
+  scenes: Scene[];
+}
+
+interface CharacterForm {
+  name: string;
+  description: string;
+  styleToken: string;
+  referenceImageUrl: string | null;
+}
+
+const EMPTY_FORM: CharacterForm = { name: '', description: '', styleToken: '', referenceImageUrl: null };
+
+export function CharacterBible({ project, scenes }: CharacterBibleProps) {
+  const { user } = useAuth();
+  const { characters, isLoading, createCharacter, updateCharacter, deleteCharacter } = useCharacters(project.id);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [editing, setEditing] = useState<Character | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [form, setForm] = useState<CharacterForm>(EMPTY_FORM);
+  const [isUploading, setIsUploading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const openDialog = (character: Character | null) => {
+    setEditing(character);
+    setForm(
+      character
+        ? {
+            name: character.name,
+            description: character.description,
+            styleToken: character.style_token ?? '',
+            referenceImageUrl: character.reference_image_url,
+          }
+        : EMPTY_FORM
+    );
+    setIsDialogOpen(true);
+  };
+
+  const sceneCount = (characterId: string) =>
+    scenes.filter((scene) => scene.character_ids.includes(characterId)).length;
+
+  const handleUpload = async (file: File) => {
+    if (!user) return;
+    if (!REFERENCE_FILE_TYPES.includes(file.type)) {
+      toast.error('Please choose a PNG, JPEG or WebP image');
+      return;
+    }
+    if (file.size > MAX_REFERENCE_FILE_BYTES) {
+      toast.error('Reference images must be smaller than 5 MB');
+      return;
+    }
+
+    setIsUploading(true);
+    try {
+      const extension = file.name.split('.').pop()?.toLowerCase() || 'png';
+      const path = `${user.id}/characters/${project.id}-${Date.now()}.${extension}`;
+      const { error } = await supabase.storage
+        .from('project-assets')
+        .upload(path, file, { contentType: file.type });
+      if (error) throw error;
+
+      const { data } = supabase.storage.from('project-assets').getPublicUrl(path);
+      setForm((current) => ({ ...current, referenceImageUrl: data.publicUrl }));
+    } catch (error) {
+      console.error('Reference image upload error:', error);
+      toast.error('Failed to upload reference image');
+    } finally {
+      setIsUploading(false);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  const handleSave = async () => {
+    const name = form.name.trim();
+    if (!name) {
+      toast.error('Character name is required');
+      return;
+    }
+
+    const input = {
+      name,
+      description: form.description.trim(),
+      style_token: form.styleToken.trim() || null,
+      reference_image_url: form.referenceImageUrl,
+    };
+
+    setIsSaving(true);
+    try {
+      if (editing) {
+        await updateCharacter.mutateAsync({ id: editing.id, ...input });
+      } else {
+        await createCharacter.mutateAsync({ project_id: project.id, ...input });
+      }
+      setIsDialogOpen(false);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>Character Bible</CardTitle>
+            <CardDescription>
+              Every image of a scene tagged with a character is drawn from its description and reference image.
+              Characters are added automatically when scenes are generated.
+            </CardDescription>
+          </div>
+          <Button onClick={() => openDialog(null)} className="gap-2 flex-shrink-0">
+            <Plus className="h-4 w-4" />
+            Add Character
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : characters.length === 0 ? (
+            <div className="flex flex-col items-center justify-center py-8 text-center">
+              <Users className="h-12 w-12 text-muted-foreground/50 mb-3" />
+              <p className="text-sm text-muted-foreground">No characters yet</p>
+            </div>
+          ) : (
+            <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+              {characters.map((character) => (
+                <div key={character.id} className="flex gap-3 rounded-lg border p-3">
+                  <div className="h-20 w-20 flex-shrink-0 overflow-hidden rounded-md bg-muted">
+                    {character.reference_image_url ? (
+                      <img
+                        src={character.reference_image_url}
+                        alt={character.name}
+                        className="h-full w-full object-cover"
+                      />
+                    ) : (
+                      <div className="flex h-full w-full items-center justify-center">
+                        <ImageOff className="h-6 w-6 text-muted-foreground/50" />
+                      </div>
+                    )}
+                  </div>
+                  <div className="min-w-0 flex-1 space-y-1">
+                    <div className="flex items-center justify-between gap-2">
+                      <h3 className="truncate text-sm font-medium">{character.name}</h3>
+                      <div className="flex">
+                        <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => openDialog(character)}>
+                          <Edit2 className="h-3 w-3" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7 text-destructive"
+                          onClick={() => deleteCharacter.mutate(character.id)}
+                        >
+                          <Trash2 className="h-3 w-3" />
+                        </Button>
+                      </div>
+                    </div>
+                    <p className="line-clamp-2 text-xs text-muted-foreground">
+                      {character.description || 'No description'}
+                    </p>
+                    <div className="flex flex-wrap gap-1">
+                      <Badge variant="secondary" className="text-xs">
+                        {sceneCount(character.id)} scene{sceneCount(character.id) !== 1 ? 's' : ''}
+                      </Badge>
+                      {character.style_token && (
+                        <Badge variant="outline" className="max-w-full truncate text-xs">
+                          {character.style_token}
+                        </Badge>
+                      )}
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing ? 'Edit Character' : 'Add Character'}</DialogTitle>
+            <DialogDescription>
+              Describe what never changes: species, age, clothing, colours and distinguishing features.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="character-name">Name</Label>
+              <Input
+                id="character-name"
+                value={form.name}
+                maxLength={80}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="Chintu the fox"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="character-description">Description</Label>
+              <Textarea
+                id="character-description"
+                value={form.description}
+                maxLength={1000}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+                placeholder="A small orange fox with a white-tipped tail, wearing a red scarf"
+                className="min-h-[100px]"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="character-style-token">Style token</Label>
+              <Input
+                id="character-style-token"
+                value={form.styleToken}
+                maxLength={200}
+                onChange={(e) => setForm({ ...form, styleToken: e.target.value })}
+                placeholder="Optional phrase repeated in every prompt"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Reference image</Label>
+              <div className="flex items-center gap-3">
+                <div className="h-16 w-16 flex-shrink-0 overflow-hidden rounded-md bg-muted">
+                  {form.referenceImageUrl ? (
+                    <img src={form.referenceImageUrl} alt="" className="h-full w-full object-cover" />
+                  ) : (
+                    <div className="flex h-full w-full items-center justify-center">
+                      <ImageOff className="h-5 w-5 text-muted-foreground/50" />
+                    </div>
+                  )}
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="gap-2"
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={isUploading}
+                >
+                  {isUploading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Upload className="h-4 w-4" />}
+                  Upload
+                </Button>
+                {form.referenceImageUrl && (
+                  <Button variant="ghost" size="sm" onClick={() => setForm({ ...form, referenceImageUrl: null })}>
+                    Remove
+                  </Button>
+                )}
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept={REFERENCE_FILE_TYPES.join(',')}
+                  className="hidden"
+                  onChange={(e) => e.target.files?.[0] && handleUpload(e.target.files[0])}
+                />
+              </div>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving || isUploading} className="gap-2">
+              {isSaving && <Loader2 className="h-4 w-4 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -1,20 +1,27 @@
 import { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Project, Scene } from '@/lib/types';
+import { buildSubtitleCues, toSrt, toVtt, SubtitleFormat } from '@/lib/subtitles';
+import { AspectRatio, getSceneImageUrl } from '@/lib/aspectRatio';
+import { isAudioOutdated, isImageOutdated } from '@/lib/assetInputs';
 import { useAuth } from '@/hooks/useAuth';
-import { useProjects } from '@/hooks/useProjects';
+import { useGenerationJobs } from '@/hooks/useGenerationJobs';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Progress } from '@/components/ui/progress';
 import { toast } from 'sonner';
 import { supabase } from '@/integrations/supabase/client';
-import { Loader2, AlertCircle, CheckCircle, Film, Crown, Play } from 'lucide-react';
+import { Loader2, AlertCircle, AlertTriangle, CheckCircle, Film, Crown, Play, Download, Captions, Crop, RefreshCw } from 'lucide-react';
 import { VideoDownloader } from './VideoDownloader';
+import { BackgroundMusicSettings } from './BackgroundMusicSettings';
 export type VideoQuality = '720p' | '1080p' | '4k';
 
+const EXPORT_CREDIT_COST = 1;
+
 interface ExportPanelProps {
   project: Project;
   scenes: Scene[];
@@ -23,12 +30,23 @@ interface ExportPanelProps {
 export function ExportPanel({ project, scenes }: ExportPanelProps) {
   const navigate = useNavigate();
   const { profile } = useAuth();
-  const { updateProject } = useProjects();
-  const [aspectRatio, setAspectRatio] = useState<'16:9' | '9:16'>(project.aspect_ratio as '16:9' | '9:16');
+  const [aspectRatio, setAspectRatio] = useState<AspectRatio>(project.aspect_ratio as AspectRatio);
   const [quality, setQuality] = useState<VideoQuality>('1080p');
-  const [isExporting, setIsExporting] = useState(false);
-  const [progress, setProgress] = useState(0);
+  const [isSubmitting, setIsSubmitting] = useState(false);
   const [exportUrl, setExportUrl] = useState<string | null>(project.exported_video_url);
+  const [allowOutdated, setAllowOutdated] = useState(false);
+  const { getActiveJob, enqueueJobs, refetch: refetchJobs } = useGenerationJobs(project.id, {
+    onJobFinished: (job) => {
+      if (job.job_type === 'render-video' && job.status === 'completed') {
+        setExportUrl((job.result?.video_url as string) ?? null);
+        toast.success('Video exported successfully!');
+      }
+    },
+  });
+  const renderJob = getActiveJob('render-video');
+  const isExporting = isSubmitting || !!renderJob;
+  const progress = renderJob?.progress ?? 0;
+  const isMp4Export = !!exportUrl && exportUrl.endsWith('.mp4');
 
   const handleWatchInPlayer = () => {
     if (exportUrl) {
@@ -36,10 +54,60 @@ export function ExportPanel({ project, scenes }: ExportPanelProps) {
     }
   };
 
+  const hasNarration = scenes.some((s) => s.narration_text?.trim());
+
+  const handleDownloadSubtitles = (format: SubtitleFormat) => {
+    const cues = buildSubtitleCues(scenes, project.language);
+    const content = format === 'srt' ? toSrt(cues) : toVtt(cues);
+    const blob = new Blob([content], { type: format === 'srt' ? 'application/x-subrip' : 'text/vtt' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${project.title.replace(/[^a-z0-9]/gi, '_')}.${format}`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  // Scenes drawn for the project's orientation, with images recomposed for this export where available
+  const exportScenes = scenes.map((s) => ({ ...s, image_url: getSceneImageUrl(s, project.aspect_ratio, aspectRatio) }));
+  const needsReframe = aspectRatio !== project.aspect_ratio;
+  const scenesWithImages = scenes.filter((s) => s.image_url);
+  const reframedCount = scenesWithImages.filter((s) => s.reframed_image_url).length;
+  const isReframing = scenes.some(
+    (s) => s.reframed_image_status === 'generating' || !!getActiveJob('reframe-image', s.id)
+  );
+
+  const handleReframe = async () => {
+    const pendingScenes = scenesWithImages.filter((s) => !s.reframed_image_url);
+    const queued = await enqueueJobs.mutateAsync(
+      pendingScenes.map((scene) => ({ job_type: 'reframe-image' as const, scene_id: scene.id }))
+    );
+    toast.success(`Reframing ${queued.length} image${queued.length !== 1 ? 's' : ''} for ${aspectRatio}`);
+  };
+
   const completedImages = scenes.filter((s) => s.image_status === 'completed').length;
   const completedAudio = scenes.filter((s) => s.audio_status === 'completed').length;
   const isReady = scenes.length > 0 && completedImages === scenes.length && completedAudio === scenes.length;
+  // Assets made from text that has since been edited; exporting them needs a deliberate opt-in
+  const outdatedImageScenes = scenes.filter(isImageOutdated);
+  const outdatedAudioScenes = scenes.filter(isAudioOutdated);
+  const outdatedCount = outdatedImageScenes.length + outdatedAudioScenes.length;
+  const isRegeneratingOutdated =
+    outdatedImageScenes.some((s) => !!getActiveJob('generate-image', s.id)) ||
+    outdatedAudioScenes.some((s) => !!getActiveJob('generate-voiceover', s.id));
+  const isBlockedByOutdated = outdatedCount > 0 && !allowOutdated;
   const isFreeUser = profile?.subscription_tier === 'free';
+  const hasCredits = (profile?.credits_balance ?? 0) >= EXPORT_CREDIT_COST;
+
+  const handleRegenerateOutdated = async () => {
+    const queued = await enqueueJobs.mutateAsync([
+      ...outdatedImageScenes.map((scene) => ({ job_type: 'generate-image' as const, scene_id: scene.id })),
+      ...outdatedAudioScenes.map((scene) => ({ job_type: 'generate-voiceover' as const, scene_id: scene.id })),
+    ]);
+    toast.success(`Regenerating ${queued.length} outdated asset${queued.length !== 1 ? 's' : ''}`);
+  };
 
   const handleExport = async () => {
     if (!isReady) {
@@ -47,50 +115,43 @@ export function ExportPanel({ project, scenes }: ExportPanelProps) {
       return;
     }
 
-    setIsExporting(true);
-    setProgress(0);
+    if (isBlockedByOutdated) {
+      toast.error('Some images or voiceovers no longer match their scene. Regenerate them or export anyway.');
+      return;
+    }
 
-    try {
-      // Simulate progress
-      const progressInterval = setInterval(() => {
-        setProgress((p) => Math.min(p + 5, 90));
-      }, 500);
+    if (!hasCredits) {
+      toast.error('Not enough credits to export. Please buy more credits.');
+      return;
+    }
 
+    setIsSubmitting(true);
+
+    try {
       const response = await supabase.functions.invoke('export-video', {
         body: {
           projectId: project.id,
           aspectRatio,
           includeWatermark: isFreeUser,
-          scenes: scenes.map((s) => ({
-            id: s.id,
-            imageUrl: s.image_url,
-            audioUrl: s.audio_url,
-            duration: s.actual_duration || s.estimated_duration,
-          })),
         },
       });
 
-      clearInterval(progressInterval);
-
       if (response.error) {
+        const retryAfter = response.error.context?.headers?.get('Retry-After');
+        if (retryAfter) {
+          throw new Error(`Too many exports. Please try again in ${retryAfter} seconds.`);
+        }
         throw new Error(response.error.message);
       }
 
-      setProgress(100);
-      setExportUrl(response.data.videoUrl);
-
-      await updateProject.mutateAsync({
-        id: project.id,
-        status: 'exported',
-        exported_video_url: response.data.videoUrl,
-      });
-
-      toast.success('Video exported successfully!');
+      // The render worker picks the job up and reports progress through generation_jobs
+      await refetchJobs();
+      toast.success('Video render started');
     } catch (error) {
       console.error('Export error:', error);
       toast.error(error instanceof Error ? error.message : 'Failed to export video');
     } finally {
-      setIsExporting(false);
+      setIsSubmitting(false);
     }
   };
 
@@ -145,9 +206,57 @@ export function ExportPanel({ project, scenes }: ExportPanelProps) {
                 {completedAudio}/{scenes.length}
               </Badge>
             </div>
+
+            {outdatedCount > 0 && (
+              <div className="space-y-3 p-3 rounded-lg bg-warning/10 border border-warning/30">
+                <div className="flex items-center justify-between gap-3">
+                  <div className="flex items-center gap-3">
+                    <AlertTriangle className="h-5 w-5 text-warning" />
+                    <div>
+                      <p className="text-sm font-medium">
+                        {outdatedCount} asset{outdatedCount !== 1 ? 's' : ''} outdated
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {[
+                          outdatedImageScenes.length > 0 &&
+                            `${outdatedImageScenes.length} image${outdatedImageScenes.length !== 1 ? 's' : ''}`,
+                          outdatedAudioScenes.length > 0 &&
+                            `${outdatedAudioScenes.length} voiceover${outdatedAudioScenes.length !== 1 ? 's' : ''}`,
+                        ]
+                          .filter(Boolean)
+                          .join(' and ')}{' '}
+                        no longer match the scene text they were made from
+                      </p>
+                    </div>
+                  </div>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="gap-2"
+                    onClick={handleRegenerateOutdated}
+                    disabled={isRegeneratingOutdated || enqueueJobs.isPending}
+                  >
+                    {isRegeneratingOutdated ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+                    Regenerate outdated
+                  </Button>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="allow-outdated"
+                    checked={allowOutdated}
+                    onCheckedChange={(checked) => setAllowOutdated(checked === true)}
+                  />
+                  <Label htmlFor="allow-outdated" className="text-xs font-normal">
+                    Export anyway with the outdated assets
+                  </Label>
+                </div>
+              </div>
+            )}
           </CardContent>
         </Card>
 
+        <BackgroundMusicSettings project={project} scenes={scenes} />
+
         {/* Export Settings */}
         <Card>
           <CardHeader>
@@ -159,7 +268,7 @@ export function ExportPanel({ project, scenes }: ExportPanelProps) {
               <Label>Aspect Ratio</Label>
               <RadioGroup
                 value={aspectRatio}
-                onValueChange={(v) => setAspectRatio(v as '16:9' | '9:16')}
+                onValueChange={(v) => setAspectRatio(v as AspectRatio)}
               >
                 <div className="grid sm:grid-cols-2 gap-3">
                   <Label
@@ -194,6 +303,30 @@ export function ExportPanel({ project, scenes }: ExportPanelProps) {
               </RadioGroup>
             </div>
 
+            {needsReframe && scenesWithImages.length > 0 && (
+              <div className="flex items-center gap-3 p-4 rounded-lg bg-muted/50">
+                <Crop className="h-5 w-5 text-muted-foreground" />
+                <div className="flex-1">
+                  <p className="font-medium text-sm">
+                    {reframedCount}/{scenesWithImages.length} images reframed for {aspectRatio}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    Images that aren't reframed are cropped to fit. Each reframe uses one image credit.
+                  </p>
+                </div>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="gap-2"
+                  onClick={handleReframe}
+                  disabled={isReframing || reframedCount === scenesWithImages.length}
+                >
+                  {isReframing && <Loader2 className="h-4 w-4 animate-spin" />}
+                  Reframe
+                </Button>
+              </div>
+            )}
+
             <div className="space-y-3">
               <Label>Video Quality</Label>
               <RadioGroup
@@ -265,7 +398,7 @@ export function ExportPanel({ project, scenes }: ExportPanelProps) {
             {isExporting && (
               <div className="space-y-2">
                 <div className="flex items-center justify-between text-sm">
-                  <span>Exporting video...</span>
+                  <span>{renderJob?.status === 'processing' ? 'Rendering MP4...' : 'Waiting for renderer...'}</span>
                   <span>{progress}%</span>
                 </div>
                 <Progress value={progress} />
@@ -274,7 +407,7 @@ export function ExportPanel({ project, scenes }: ExportPanelProps) {
 
             <Button
               onClick={handleExport}
-              disabled={!isReady || isExporting}
+              disabled={!isReady || !hasCredits || isExporting || isBlockedByOutdated}
               className="w-full gradient-primary gap-2"
               size="lg"
             >
@@ -319,13 +452,28 @@ export function ExportPanel({ project, scenes }: ExportPanelProps) {
                     <Play className="h-4 w-4" />
                     Watch in Player
                 </Button>
+                {isMp4Export && (
+                  <Button variant="outline" className="w-full gap-2" asChild>
+                    <a href={exportUrl} download={`${project.title}.mp4`}>
+                      <Download className="h-4 w-4" />
+                      Download MP4
+                    </a>
+                  </Button>
+                )}
                 
                 <div className="border-t pt-4">
                 <VideoDownloader 
-                  scenes={scenes} 
+                  scenes={exportScenes} 
                   aspectRatio={aspectRatio} 
                   quality={quality}
                   projectTitle={project.title}
+                  language={project.language}
+                  music={project.music_url ? {
+                    url: project.music_url,
+                    volume: project.music_volume,
+                    fadeInMs: project.music_fade_in_ms,
+                    fadeOutMs: project.music_fade_out_ms,
+                  } : null}
                 />
                 </div>
               </div>
@@ -340,6 +488,35 @@ export function ExportPanel({ project, scenes }: ExportPanelProps) {
           </CardContent>
         </Card>
 
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Subtitles</CardTitle>
+            <CardDescription>Captions timed to each scene's voiceover</CardDescription>
+          </CardHeader>
+          <CardContent className="grid grid-cols-2 gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              className="gap-2"
+              disabled={!hasNarration}
+              onClick={() => handleDownloadSubtitles('srt')}
+            >
+              <Captions className="h-4 w-4" />
+              SRT
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              className="gap-2"
+              disabled={!hasNarration}
+              onClick={() => handleDownloadSubtitles('vtt')}
+            >
+              <Captions className="h-4 w-4" />
+              WebVTT
+            </Button>
+          </CardContent>
+        </Card>
+
         <Card>
           <CardHeader>
             <CardTitle className="text-base">Credits</CardTitle>
@@ -350,8 +527,13 @@ export function ExportPanel({ project, scenes }: ExportPanelProps) {
               <span className="font-bold">{profile?.credits_balance ?? 0}</span>
             </div>
             <p className="text-xs text-muted-foreground mt-2">
-              1 credit per video export
+              {EXPORT_CREDIT_COST} credit per video export
             </p>
+            {!hasCredits && (
+              <Button size="sm" variant="outline" className="w-full mt-3" onClick={() => navigate('/subscription')}>
+                Buy Credits
+              </Button>
+            )}
           </CardContent>
         </Card>
       </div>
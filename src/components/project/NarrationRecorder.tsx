@@ -0,0 +1,329 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Scene } from '@/lib/types';
+import {
+  detectSpeechBounds,
+  encodeWav,
+  getNormalizationGain,
+  getWaveformPeaks,
+  renderNarration,
+} from '@/lib/narrationAudio';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { toast } from 'sonner';
+import { Check, Loader2, Mic, Play, RotateCcw, Scissors, Square } from 'lucide-react';
+
+const WAVEFORM_BUCKETS = 240;
+const WAVEFORM_COLOR = 'hsl(262 83% 58%)';
+const TRIMMED_COLOR = 'rgba(0, 0, 0, 0.45)';
+
+type RecorderState = 'idle' | 'recording' | 'review';
+
+interface NarrationRecorderProps {
+  scene: Scene;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSave: (file: File) => Promise<void>;
+}
+
+const formatSeconds = (seconds: number) => `${Math.floor(seconds / 60)}:${(seconds % 60).toFixed(1).padStart(4, '0')}`;
+
+export function NarrationRecorder({ scene, open, onOpenChange, onSave }: NarrationRecorderProps) {
+  const [state, setState] = useState<RecorderState>('idle');
+  const [elapsed, setElapsed] = useState(0);
+  const [recording, setRecording] = useState<AudioBuffer | null>(null);
+  const [trim, setTrim] = useState<[number, number]>([0, 0]);
+  const [normalize, setNormalize] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const audioContextRef = useRef<AudioContext | null>(null);
+  const frameRef = useRef<number>(0);
+  const previewRef = useRef<AudioBufferSourceNode | null>(null);
+
+  const releaseMicrophone = () => {
+    cancelAnimationFrame(frameRef.current);
+    streamRef.current?.getTracks().forEach((track) => track.stop());
+    streamRef.current = null;
+  };
+
+  const stopPreview = () => {
+    previewRef.current?.stop();
+    previewRef.current = null;
+  };
+
+  // Drops an unfinished take and frees the microphone and audio context
+  const teardown = useCallback(() => {
+    cancelAnimationFrame(frameRef.current);
+    previewRef.current?.stop();
+    previewRef.current = null;
+    if (recorderRef.current) {
+      recorderRef.current.onstop = null;
+      if (recorderRef.current.state === 'recording') recorderRef.current.stop();
+      recorderRef.current = null;
+    }
+    streamRef.current?.getTracks().forEach((track) => track.stop());
+    streamRef.current = null;
+    audioContextRef.current?.close();
+    audioContextRef.current = null;
+  }, []);
+
+  const reset = useCallback(() => {
+    teardown();
+    setRecording(null);
+    setElapsed(0);
+    setState('idle');
+  }, [teardown]);
+
+  useEffect(() => {
+    if (!open) reset();
+  }, [open, reset]);
+
+  useEffect(() => teardown, [teardown]);
+
+  const getAudioContext = () => {
+    if (!audioContextRef.current) audioContextRef.current = new AudioContext();
+    return audioContextRef.current;
+  };
+
+  // Live waveform of the microphone input while recording
+  const drawLiveWaveform = (analyser: AnalyserNode, startedAt: number) => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    const data = new Uint8Array(analyser.fftSize);
+
+    const draw = () => {
+      setElapsed((performance.now() - startedAt) / 1000);
+      if (canvas && ctx) {
+        analyser.getByteTimeDomainData(data);
+        ctx.clearRect(0, 0, canvas.width, canvas.height);
+        ctx.strokeStyle = WAVEFORM_COLOR;
+        ctx.lineWidth = 2;
+        ctx.beginPath();
+        for (let i = 0; i < data.length; i++) {
+          const x = (i / (data.length - 1)) * canvas.width;
+          const y = (data[i] / 255) * canvas.height;
+          if (i === 0) ctx.moveTo(x, y);
+          else ctx.lineTo(x, y);
+        }
+        ctx.stroke();
+      }
+      frameRef.current = requestAnimationFrame(draw);
+    };
+    draw();
+  };
+
+  const startRecording = async () => {
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({
+        audio: { echoCancellation: true, noiseSuppression: true },
+      });
+      streamRef.current = stream;
+
+      const audioContext = getAudioContext();
+      const analyser = audioContext.createAnalyser();
+      analyser.fftSize = 2048;
+      audioContext.createMediaStreamSource(stream).connect(analyser);
+
+      const chunks: Blob[] = [];
+      const recorder = new MediaRecorder(stream);
+      recorder.ondataavailable = (e) => {
+        if (e.data.size > 0) chunks.push(e.data);
+      };
+      recorder.onstop = async () => {
+        releaseMicrophone();
+        try {
+          const blob = new Blob(chunks, { type: recorder.mimeType });
+          const buffer = await audioContext.decodeAudioData(await blob.arrayBuffer());
+          const bounds = detectSpeechBounds(buffer);
+          setRecording(buffer);
+          setTrim([bounds.start, bounds.end]);
+          setState('review');
+        } catch (error) {
+          console.error('Recording decode error:', error);
+          toast.error('Could not read the recording');
+          setState('idle');
+        }
+      };
+
+      recorderRef.current = recorder;
+      recorder.start();
+      setState('recording');
+      drawLiveWaveform(analyser, performance.now());
+    } catch (error) {
+      console.error('Microphone error:', error);
+      toast.error('Microphone access is needed to record narration');
+      releaseMicrophone();
+    }
+  };
+
+  const stopRecording = () => {
+    recorderRef.current?.stop();
+  };
+
+  // Static waveform of the take, with the trimmed-away ends shaded
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (state !== 'review' || !recording || !canvas || !ctx) return;
+
+    const peaks = getWaveformPeaks(recording, WAVEFORM_BUCKETS);
+    const barWidth = canvas.width / peaks.length;
+    const middle = canvas.height / 2;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    ctx.fillStyle = WAVEFORM_COLOR;
+    peaks.forEach((peak, i) => {
+      const height = Math.max(1, peak * canvas.height);
+      ctx.fillRect(i * barWidth, middle - height / 2, Math.max(1, barWidth - 1), height);
+    });
+
+    ctx.fillStyle = TRIMMED_COLOR;
+    const startX = (trim[0] / recording.duration) * canvas.width;
+    const endX = (trim[1] / recording.duration) * canvas.width;
+    ctx.fillRect(0, 0, startX, canvas.height);
+    ctx.fillRect(endX, 0, canvas.width - endX, canvas.height);
+  }, [state, recording, trim]);
+
+  const processRecording = async () => {
+    if (!recording) return null;
+    const gain = normalize ? getNormalizationGain(recording, trim[0], trim[1]) : 1;
+    return renderNarration(recording, trim[0], trim[1], gain);
+  };
+
+  const handlePreview = async () => {
+    stopPreview();
+    const processed = await processRecording();
+    if (!processed) return;
+    const audioContext = getAudioContext();
+    const source = audioContext.createBufferSource();
+    source.buffer = processed;
+    source.connect(audioContext.destination);
+    source.start();
+    previewRef.current = source;
+  };
+
+  const handleAutoTrim = () => {
+    if (!recording) return;
+    const bounds = detectSpeechBounds(recording);
+    setTrim([bounds.start, bounds.end]);
+  };
+
+  const handleSave = async () => {
+    stopPreview();
+    setIsSaving(true);
+    try {
+      const processed = await processRecording();
+      if (!processed) return;
+      const file = new File([encodeWav(processed)], `narration-${scene.id}.wav`, { type: 'audio/wav' });
+      await onSave(file);
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Narration save error:', error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Record narration</DialogTitle>
+          <DialogDescription className="line-clamp-3">{scene.narration_text}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="relative rounded-lg bg-muted">
+            <canvas ref={canvasRef} width={800} height={140} className="h-32 w-full" />
+            {state === 'idle' && (
+              <div className="absolute inset-0 flex items-center justify-center text-sm text-muted-foreground">
+                Read the narration above aloud
+              </div>
+            )}
+            {state === 'recording' && (
+              <span className="absolute right-3 top-2 flex items-center gap-1 text-xs font-medium text-destructive">
+                <span className="h-2 w-2 animate-pulse rounded-full bg-destructive" />
+                {formatSeconds(elapsed)}
+              </span>
+            )}
+          </div>
+
+          {state === 'review' && recording && (
+            <>
+              <div className="space-y-3">
+                <div className="flex justify-between text-sm">
+                  <Label>Trim</Label>
+                  <span className="text-muted-foreground">
+                    {formatSeconds(trim[0])} – {formatSeconds(trim[1])} ({(trim[1] - trim[0]).toFixed(1)}s)
+                  </span>
+                </div>
+                <Slider
+                  value={trim}
+                  min={0}
+                  max={recording.duration}
+                  step={0.01}
+                  minStepsBetweenThumbs={10}
+                  onValueChange={([start, end]) => setTrim([start, end])}
+                />
+              </div>
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <div className="flex items-center gap-2">
+                  <Switch id="normalize-narration" checked={normalize} onCheckedChange={setNormalize} />
+                  <Label htmlFor="normalize-narration">Normalize loudness</Label>
+                </div>
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" className="gap-2" onClick={handleAutoTrim}>
+                    <Scissors className="h-4 w-4" />
+                    Trim silence
+                  </Button>
+                  <Button variant="outline" size="sm" className="gap-2" onClick={handlePreview}>
+                    <Play className="h-4 w-4" />
+                    Preview
+                  </Button>
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          {state === 'idle' && (
+            <Button onClick={startRecording} className="gap-2">
+              <Mic className="h-4 w-4" />
+              Start recording
+            </Button>
+          )}
+          {state === 'recording' && (
+            <Button variant="destructive" onClick={stopRecording} className="gap-2">
+              <Square className="h-4 w-4" />
+              Stop
+            </Button>
+          )}
+          {state === 'review' && (
+            <>
+              <Button variant="outline" onClick={reset} disabled={isSaving} className="gap-2">
+                <RotateCcw className="h-4 w-4" />
+                Record again
+              </Button>
+              <Button onClick={handleSave} disabled={isSaving} className="gap-2">
+                {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Check className="h-4 w-4" />}
+                Use recording
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
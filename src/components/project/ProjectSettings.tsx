@@ -1,12 +1,34 @@
 import { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { Project, StoryLanguage, StoryType, StoryTone, VisualStyle, VoiceType } from '@/lib/types';
+import {
+  Character,
+  Project,
+  StoryLanguage,
+  StoryType,
+  StoryTone,
+  TtsProviderName,
+  Voice,
+  VisualStyle,
+  VoiceType,
+} from '@/lib/types';
 import { useProjects } from '@/hooks/useProjects';
+import { useCharacters } from '@/hooks/useCharacters';
+import { useVoices } from '@/hooks/useVoices';
+import { VoicePicker } from './VoicePicker';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Slider } from '@/components/ui/slider';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -28,13 +50,63 @@ interface ProjectSettingsProps {
 export function ProjectSettings({ project }: ProjectSettingsProps) {
   const navigate = useNavigate();
   const { updateProject, deleteProject } = useProjects();
+  const { characters, updateCharacter } = useCharacters(project.id);
   const [title, setTitle] = useState(project.title);
   const [language, setLanguage] = useState(project.language);
   const [storyType, setStoryType] = useState(project.story_type);
   const [tone, setTone] = useState(project.tone);
   const [visualStyle, setVisualStyle] = useState(project.visual_style);
   const [voiceType, setVoiceType] = useState(project.voice_type);
+  const [ttsProvider, setTtsProvider] = useState(project.tts_provider);
+  const [voiceId, setVoiceId] = useState(project.voice_id);
+  const [stability, setStability] = useState(project.voice_stability);
+  const [style, setStyle] = useState(project.voice_style);
   const [isSaving, setIsSaving] = useState(false);
+  const voiceProvider = ttsProvider ?? 'elevenlabs';
+  const { voices } = useVoices(language, voiceProvider);
+
+  const selectedVoice =
+    voices.find((voice) => voice.id === voiceId) ?? voices.find((voice) => voice.voice_type === voiceType);
+
+  // A picked voice outside the listed ones shows, and is read, as its type
+  const characterVoiceValue = (character: Character) =>
+    (character.voice_id && voices.some((voice) => voice.id === character.voice_id)
+      ? character.voice_id
+      : character.voice_type && `type:${character.voice_type}`) || 'narrator';
+
+  const handleCharacterVoiceChange = (character: Character, value: string) => {
+    const voice = voices.find((v) => v.id === value);
+    updateCharacter.mutate({
+      id: character.id,
+      voice_id: voice?.id ?? null,
+      voice_type: voice?.voice_type ?? (value.startsWith('type:') ? (value.slice(5) as VoiceType) : null),
+    });
+  };
+
+  // Voices belong to one language, so switching language falls back to the voice type
+  const handleLanguageChange = (value: StoryLanguage) => {
+    setLanguage(value);
+    setVoiceId(null);
+  };
+
+  // Each engine has its own voices, so the pick is reset to the voice type
+  const handleTtsProviderChange = (value: string) => {
+    const provider = value === 'auto' ? null : (value as TtsProviderName);
+    if ((provider ?? 'elevenlabs') !== voiceProvider) {
+      setVoiceId(null);
+      setStability(null);
+      setStyle(null);
+    }
+    setTtsProvider(provider);
+  };
+
+  // A new voice starts from its own recommended settings
+  const handleVoiceChange = (voice: Voice) => {
+    setVoiceId(voice.id);
+    setVoiceType(voice.voice_type);
+    setStability(null);
+    setStyle(null);
+  };
 
   const handleSave = async () => {
     if (!title.trim()) {
@@ -52,6 +124,10 @@ export function ProjectSettings({ project }: ProjectSettingsProps) {
         tone,
         visual_style: visualStyle,
         voice_type: voiceType,
+        tts_provider: ttsProvider,
+        voice_id: voiceId,
+        voice_stability: stability,
+        voice_style: style,
       });
       toast.success('Settings saved');
     } finally {
@@ -84,7 +160,7 @@ export function ProjectSettings({ project }: ProjectSettingsProps) {
           <div className="grid sm:grid-cols-2 gap-4">
             <div className="space-y-2">
               <Label>Language</Label>
-              <Select value={language} onValueChange={(v) => setLanguage(v as StoryLanguage)}>
+              <Select value={language} onValueChange={(v) => handleLanguageChange(v as StoryLanguage)}>
                 <SelectTrigger>
                   <SelectValue />
                 </SelectTrigger>
@@ -137,22 +213,86 @@ export function ProjectSettings({ project }: ProjectSettingsProps) {
                 </SelectContent>
               </Select>
             </div>
+          </div>
 
-            <div className="space-y-2">
-              <Label>Voice Type</Label>
-              <Select value={voiceType} onValueChange={(v) => setVoiceType(v as VoiceType)}>
-                <SelectTrigger>
-                  <SelectValue />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="female">Female</SelectItem>
-                  <SelectItem value="male">Male</SelectItem>
-                  <SelectItem value="child">Child</SelectItem>
-                </SelectContent>
-              </Select>
-            </div>
+          <div className="space-y-2">
+            <Label>Voice Engine</Label>
+            <Select value={ttsProvider ?? 'auto'} onValueChange={handleTtsProviderChange}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="auto">Automatic (ElevenLabs, offline fallback)</SelectItem>
+                <SelectItem value="elevenlabs">ElevenLabs</SelectItem>
+                <SelectItem value="piper">Piper (offline)</SelectItem>
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              If the chosen engine is unavailable, the other one reads the narration instead.
+            </p>
           </div>
 
+          <div className="space-y-3">
+            <Label>Narrator Voice</Label>
+            <VoicePicker
+              language={language}
+              provider={voiceProvider}
+              value={voiceId}
+              voiceType={voiceType}
+              onChange={handleVoiceChange}
+            />
+          </div>
+
+          {/* Piper has no tuning, so the sliders only apply to ElevenLabs voices */}
+          {voiceProvider === 'elevenlabs' && (
+            <>
+              <div className="grid sm:grid-cols-2 gap-4">
+                {[
+                  {
+                    label: 'Stability',
+                    hint: 'Lower is more expressive, higher is more consistent',
+                    value: stability ?? selectedVoice?.voice_settings.stability ?? 0.6,
+                    onChange: setStability,
+                  },
+                  {
+                    label: 'Style',
+                    hint: 'How strongly the voice acts out the text',
+                    value: style ?? selectedVoice?.voice_settings.style ?? 0.4,
+                    onChange: setStyle,
+                  },
+                ].map((setting) => (
+                  <div key={setting.label} className="space-y-2">
+                    <div className="flex justify-between text-sm">
+                      <Label>{setting.label}</Label>
+                      <span className="text-muted-foreground">{Math.round(setting.value * 100)}%</span>
+                    </div>
+                    <Slider
+                      value={[setting.value]}
+                      min={0}
+                      max={1}
+                      step={0.05}
+                      onValueChange={([value]) => setting.onChange(value)}
+                    />
+                    <p className="text-xs text-muted-foreground">{setting.hint}</p>
+                  </div>
+                ))}
+              </div>
+              {(stability !== null || style !== null) && (
+                <Button
+                  variant="link"
+                  size="sm"
+                  className="h-auto p-0"
+                  onClick={() => {
+                    setStability(null);
+                    setStyle(null);
+                  }}
+                >
+                  Reset to the voice's recommended settings
+                </Button>
+              )}
+            </>
+          )}
+
           <Button onClick={handleSave} disabled={isSaving} className="gap-2">
             {isSaving ? (
               <Loader2 className="h-4 w-4 animate-spin" />
@@ -164,6 +304,53 @@ export function ProjectSettings({ project }: ProjectSettingsProps) {
         </CardContent>
       </Card>
 
+      {/* Character Voices */}
+      {characters.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Character Voices</CardTitle>
+            <CardDescription>
+              Dialogue is spoken in the character's voice. Characters given only a type each get a different voice
+              of that type; characters left on the narrator voice are read by the project voice above.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {characters.map((character) => (
+              <div key={character.id} className="flex items-center justify-between gap-4">
+                <Label className="truncate">{character.name}</Label>
+                <Select
+                  value={characterVoiceValue(character)}
+                  onValueChange={(v) => handleCharacterVoiceChange(character, v)}
+                >
+                  <SelectTrigger className="w-52">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="narrator">Narrator voice</SelectItem>
+                    {voices.length > 0 && (
+                      <SelectGroup>
+                        <SelectLabel>Voices</SelectLabel>
+                        {voices.map((voice) => (
+                          <SelectItem key={voice.id} value={voice.id}>
+                            {voice.name} ({voice.voice_type})
+                          </SelectItem>
+                        ))}
+                      </SelectGroup>
+                    )}
+                    <SelectGroup>
+                      <SelectLabel>Any voice of a type</SelectLabel>
+                      <SelectItem value="type:female">Female</SelectItem>
+                      <SelectItem value="type:male">Male</SelectItem>
+                      <SelectItem value="type:child">Child</SelectItem>
+                    </SelectGroup>
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Danger Zone */}
       <Card className="border-destructive/50">
         <CardHeader>
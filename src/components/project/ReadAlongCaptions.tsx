@@ -0,0 +1,49 @@
+import { RefObject, useEffect, useState } from 'react';
+import { SubtitleCue } from '@/lib/subtitles';
+import { cn } from '@/lib/utils';
+
+interface ReadAlongCaptionsProps {
+  cues: SubtitleCue[];
+  videoRef: RefObject<HTMLVideoElement>;
+}
+
+export function ReadAlongCaptions({ cues, videoRef }: ReadAlongCaptionsProps) {
+  const [currentMs, setCurrentMs] = useState(0);
+
+  // timeupdate only fires a few times a second, which is too coarse for word highlighting
+  useEffect(() => {
+    let frame: number;
+    const tick = () => {
+      if (videoRef.current) {
+        setCurrentMs(Math.round(videoRef.current.currentTime * 1000));
+      }
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [videoRef]);
+
+  const cue = cues.find((c) => currentMs >= c.startMs && currentMs < c.endMs);
+  if (!cue) return null;
+
+  return (
+    <div className="pointer-events-none absolute inset-x-0 bottom-16 flex justify-center px-4">
+      <div className="rounded-lg bg-black/60 px-4 py-2 text-center text-lg font-semibold leading-snug text-white sm:text-2xl">
+        {cue.lines.map((line, i) => (
+          <p key={i}>
+            {cue.words?.[i]
+              ? cue.words[i].map((word, j) => (
+                  <span
+                    key={j}
+                    className={cn('transition-colors', currentMs >= word.start_ms && 'text-yellow-400')}
+                  >
+                    {word.text}{' '}
+                  </span>
+                ))
+              : line}
+          </p>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+import { useEffect, useState } from 'react';
+import { Project, Scene } from '@/lib/types';
+import { useRewriteScenes } from '@/hooks/useRewriteScenes';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { cn } from '@/lib/utils';
+import { Loader2, Wand2 } from 'lucide-react';
+
+interface RewriteScenesDialogProps {
+  project: Project;
+  scenes: Scene[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function RewriteScenesDialog({ project, scenes, open, onOpenChange }: RewriteScenesDialogProps) {
+  const { rewrite, isQueueing, isRewriting } = useRewriteScenes(project);
+  const [start, setStart] = useState(1);
+  const [end, setEnd] = useState(1);
+
+  useEffect(() => {
+    if (open) {
+      setStart(1);
+      setEnd(1);
+    }
+  }, [open]);
+
+  const handleRewrite = async () => {
+    try {
+      if (await rewrite({ start, end })) onOpenChange(false);
+    } catch (error) {
+      console.error('Rewrite scenes error:', error);
+    }
+  };
+
+  const sceneOptions = (from: number) =>
+    scenes.slice(from - 1).map((scene, i) => (
+      <SelectItem key={scene.id} value={String(from + i)}>
+        {from + i}. {scene.title}
+      </SelectItem>
+    ));
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !isQueueing && onOpenChange(next)}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Rewrite these scenes</DialogTitle>
+          <DialogDescription>
+            The chosen scenes are rewritten from the saved script to fit between their neighbours, in the background.
+            Every other scene keeps its images and voiceover.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>From scene</Label>
+            <Select
+              value={String(start)}
+              onValueChange={(value) => {
+                setStart(Number(value));
+                setEnd((current) => Math.max(current, Number(value)));
+              }}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>{sceneOptions(1)}</SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>To scene</Label>
+            <Select value={String(end)} onValueChange={(value) => setEnd(Number(value))}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>{sceneOptions(start)}</SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="max-h-48 space-y-1 overflow-y-auto rounded-lg border p-2 text-sm">
+          {scenes.map((scene, index) => {
+            const selected = index + 1 >= start && index + 1 <= end;
+            return (
+              <div
+                key={scene.id}
+                className={cn('flex justify-between gap-2 rounded px-2 py-1', selected && 'bg-primary/10')}
+              >
+                <span className="truncate">
+                  {index + 1}. {scene.title}
+                </span>
+                <span className="flex-shrink-0 text-xs text-muted-foreground">{selected ? 'Rewrite' : 'Keep'}</span>
+              </div>
+            );
+          })}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isQueueing}>
+            Cancel
+          </Button>
+          <Button onClick={handleRewrite} disabled={isQueueing || isRewriting} className="gap-2">
+            {isQueueing || isRewriting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Wand2 className="h-4 w-4" />}
+            Rewrite {end - start + 1} scene{end !== start ? 's' : ''}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,178 @@
+import { useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Scene, SceneAsset } from '@/lib/types';
+import { useSceneAssets } from '@/hooks/useSceneAssets';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { cn } from '@/lib/utils';
+import { Check, ImageOff, Loader2, Sparkles } from 'lucide-react';
+
+const CANDIDATE_COUNTS = [2, 3, 4];
+
+interface SceneAssetHistoryProps {
+  scene: Scene;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSelectImage: (asset: SceneAsset) => void;
+  onSelectAudio: (asset: SceneAsset) => void;
+  onGenerateCandidates: (count: number) => void;
+  isGeneratingImage: boolean;
+}
+
+export function SceneAssetHistory({
+  scene,
+  open,
+  onOpenChange,
+  onSelectImage,
+  onSelectAudio,
+  onGenerateCandidates,
+  isGeneratingImage,
+}: SceneAssetHistoryProps) {
+  const { images, audio, isLoading } = useSceneAssets(scene.id, open);
+  const [previewId, setPreviewId] = useState<string | null>(null);
+  const [candidateCount, setCandidateCount] = useState('4');
+
+  const preview = images.find((asset) => asset.id === previewId) ?? null;
+  const formatAge = (asset: SceneAsset) => formatDistanceToNow(new Date(asset.created_at), { addSuffix: true });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Version history</DialogTitle>
+          <DialogDescription>Compare earlier generations of "{scene.title}" and switch back to any of them.</DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <Tabs defaultValue="images" className="space-y-4">
+            <TabsList>
+              <TabsTrigger value="images">Images ({images.length})</TabsTrigger>
+              <TabsTrigger value="audio">Voiceovers ({audio.length})</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="images" className="space-y-4">
+              {/* Side-by-side comparison */}
+              <div className="grid grid-cols-2 gap-3">
+                {[
+                  { label: 'Current', url: scene.image_url },
+                  { label: 'Selected', url: preview?.url ?? null },
+                ].map(({ label, url }) => (
+                  <div key={label} className="space-y-1">
+                    <span className="text-xs text-muted-foreground">{label}</span>
+                    <div className="aspect-video overflow-hidden rounded-lg bg-muted">
+                      {url ? (
+                        <img src={url} alt={label} className="h-full w-full object-cover" />
+                      ) : (
+                        <div className="flex h-full w-full items-center justify-center">
+                          <ImageOff className="h-6 w-6 text-muted-foreground/50" />
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <Button
+                  size="sm"
+                  disabled={!preview || preview.url === scene.image_url}
+                  onClick={() => preview && onSelectImage(preview)}
+                  className="gap-1"
+                >
+                  <Check className="h-3 w-3" />
+                  Use selected
+                </Button>
+                <div className="flex items-center gap-2">
+                  <Select value={candidateCount} onValueChange={setCandidateCount}>
+                    <SelectTrigger className="h-8 w-20 text-xs" aria-label="Number of candidates">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {CANDIDATE_COUNTS.map((count) => (
+                        <SelectItem key={count} value={String(count)} className="text-xs">
+                          {count}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={isGeneratingImage}
+                    onClick={() => onGenerateCandidates(Number(candidateCount))}
+                    className="gap-1"
+                  >
+                    {isGeneratingImage ? <Loader2 className="h-3 w-3 animate-spin" /> : <Sparkles className="h-3 w-3" />}
+                    Generate candidates
+                  </Button>
+                </div>
+              </div>
+
+              {images.length === 0 ? (
+                <p className="py-4 text-center text-sm text-muted-foreground">No images generated yet</p>
+              ) : (
+                <div className="grid max-h-64 grid-cols-3 gap-2 overflow-y-auto sm:grid-cols-4">
+                  {images.map((asset) => (
+                    <button
+                      key={asset.id}
+                      type="button"
+                      onClick={() => setPreviewId(asset.id)}
+                      className={cn(
+                        'relative aspect-video overflow-hidden rounded-md border-2 border-transparent',
+                        asset.id === previewId && 'border-primary'
+                      )}
+                      title={formatAge(asset)}
+                    >
+                      <img src={asset.url} alt="" className="h-full w-full object-cover" />
+                      {asset.url === scene.image_url && (
+                        <Badge className="absolute left-1 top-1 px-1 py-0 text-[10px]">Current</Badge>
+                      )}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </TabsContent>
+
+            <TabsContent value="audio">
+              {audio.length === 0 ? (
+                <p className="py-4 text-center text-sm text-muted-foreground">No voiceovers generated yet</p>
+              ) : (
+                <div className="max-h-80 space-y-2 overflow-y-auto">
+                  {audio.map((asset) => (
+                    <div key={asset.id} className="flex items-center gap-3 rounded-lg bg-muted/50 p-2">
+                      <div className="w-28 flex-shrink-0 text-xs text-muted-foreground">
+                        <div>{formatAge(asset)}</div>
+                        {asset.metadata.duration_ms && <div>{(asset.metadata.duration_ms / 1000).toFixed(1)}s</div>}
+                      </div>
+                      <audio src={asset.url} controls className="h-8 min-w-0 flex-1" />
+                      {asset.url === scene.audio_url ? (
+                        <Badge variant="secondary" className="text-xs">Current</Badge>
+                      ) : (
+                        <Button size="sm" variant="outline" onClick={() => onSelectAudio(asset)}>
+                          Use
+                        </Button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </TabsContent>
+          </Tabs>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
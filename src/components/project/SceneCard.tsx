@@ -1,12 +1,19 @@
-import { useState } from 'react';
-import { Scene } from '@/lib/types';
+import { useRef, useState } from 'react';
+import { Character, Scene, SceneAsset, SceneMotion, SceneTransition } from '@/lib/types';
+import { MOTION_LABELS, SCENE_MOTIONS, SCENE_TRANSITIONS, TRANSITION_LABELS } from '@/lib/motion';
+import { SCENE_AUDIO_TYPES, SCENE_IMAGE_TYPES } from '@/lib/uploads';
+import { isAudioOutdated, isImageOutdated } from '@/lib/assetInputs';
+import { SceneAssetHistory } from './SceneAssetHistory';
+import { NarrationRecorder } from './NarrationRecorder';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Textarea } from '@/components/ui/textarea';
 import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import {
   DropdownMenu,
+  DropdownMenuCheckboxItem,
   DropdownMenuContent,
   DropdownMenuItem,
   DropdownMenuSeparator,
@@ -36,16 +43,23 @@ import {
   Clock,
   Play,
   ImageOff,
+  Users,
+  History,
+  Upload,
 } from 'lucide-react';
 
 interface SceneCardProps {
   scene: Scene;
   index: number;
   totalScenes: number;
+  characters: Character[];
   onUpdate: (id: string, updates: Partial<Scene>) => void;
   onDelete: (id: string) => void;
   onGenerateImage: () => void;
+  onGenerateImageCandidates: (count: number) => void;
   onGenerateAudio: () => void;
+  onUploadImage: (file: File) => void;
+  onUploadAudio: (file: File) => Promise<void>;
   isGeneratingImage: boolean;
   isGeneratingAudio: boolean;
   onMoveUp?: () => void;
@@ -55,10 +69,14 @@ interface SceneCardProps {
 export function SceneCard({
   scene,
   index,
+  characters,
   onUpdate,
   onDelete,
   onGenerateImage,
+  onGenerateImageCandidates,
   onGenerateAudio,
+  onUploadImage,
+  onUploadAudio,
   isGeneratingImage,
   isGeneratingAudio,
   onMoveUp,
@@ -67,14 +85,62 @@ export function SceneCard({
   const [isEditing, setIsEditing] = useState(false);
   const [editTitle, setEditTitle] = useState(scene.title);
   const [editNarration, setEditNarration] = useState(scene.narration_text);
+  const [editVisual, setEditVisual] = useState(scene.visual_description ?? '');
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showRecorder, setShowRecorder] = useState(false);
+  const imageInputRef = useRef<HTMLInputElement>(null);
+  const audioInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>, onUpload: (file: File) => void) => {
+    const file = e.target.files?.[0];
+    if (file) onUpload(file);
+    e.target.value = '';
+  };
   const [audioRef, setAudioRef] = useState<HTMLAudioElement | null>(null);
   const [isPlaying, setIsPlaying] = useState(false);
 
+  const sceneCharacters = characters.filter((c) => scene.character_ids.includes(c.id));
+
+  const toggleCharacter = (characterId: string, checked: boolean) => {
+    const characterIds = checked
+      ? [...scene.character_ids, characterId]
+      : scene.character_ids.filter((id) => id !== characterId);
+    onUpdate(scene.id, { character_ids: characterIds });
+  };
+
+  const handleSelectImage = (asset: SceneAsset) => {
+    onUpdate(scene.id, {
+      image_url: asset.url,
+      image_status: 'completed',
+      image_source: asset.source,
+      image_input_hash: asset.metadata.input_hash ?? null,
+      reframed_image_url: null,
+      reframed_image_status: 'pending',
+    });
+  };
+
+  // Timing travels with the voiceover so captions and scene length stay in sync
+  const handleSelectAudio = (asset: SceneAsset) => {
+    const durationMs = asset.metadata.duration_ms ?? null;
+    onUpdate(scene.id, {
+      audio_url: asset.url,
+      audio_status: 'completed',
+      audio_source: asset.source,
+      audio_input_hash: asset.metadata.input_hash ?? null,
+      audio_duration_ms: durationMs,
+      actual_duration: durationMs ? Math.round(durationMs / 10) / 100 : null,
+      word_timings: asset.metadata.word_timings ?? null,
+    });
+  };
+
+  // Edited narration no longer matches the speaker segments, so it is read by the narrator alone
   const handleSave = () => {
     onUpdate(scene.id, {
       title: editTitle,
       narration_text: editNarration,
+      visual_description: editVisual,
+      ...(editNarration !== scene.narration_text && { narration_segments: null }),
     });
     setIsEditing(false);
   };
@@ -82,6 +148,7 @@ export function SceneCard({
   const handleCancel = () => {
     setEditTitle(scene.title);
     setEditNarration(scene.narration_text);
+    setEditVisual(scene.visual_description ?? '');
     setIsEditing(false);
   };
 
@@ -107,6 +174,7 @@ export function SceneCard({
 
   const getStatusBadge = (status: string, type: 'image' | 'audio') => {
     const Icon = type === 'image' ? Image : Mic;
+    const source = type === 'image' ? scene.image_source : scene.audio_source;
     const config = {
       pending: { variant: 'secondary' as const, label: 'Pending' },
       generating: { variant: 'default' as const, label: 'Generating' },
@@ -114,11 +182,27 @@ export function SceneCard({
       failed: { variant: 'destructive' as const, label: 'Failed' },
     };
     const { variant, label } = config[status as keyof typeof config] || config.pending;
+    const displayLabel = status === 'completed' && source === 'uploaded' ? 'Uploaded' : label;
+    // The scene's text was edited after this asset was made
+    const outdated = status === 'completed' && (type === 'image' ? isImageOutdated(scene) : isAudioOutdated(scene));
+
+    if (outdated) {
+      return (
+        <Badge
+          variant="outline"
+          className="gap-1 text-xs border-warning text-warning"
+          title={type === 'image' ? 'The visual description changed since this image was made' : 'The narration changed since this voiceover was made'}
+        >
+          <Icon className="h-3 w-3" />
+          Outdated
+        </Badge>
+      );
+    }
 
     return (
       <Badge variant={variant} className="gap-1 text-xs">
         <Icon className="h-3 w-3" />
-        {label}
+        {displayLabel}
       </Badge>
     );
   };
@@ -153,6 +237,22 @@ export function SceneCard({
                   <Edit2 className="h-4 w-4 mr-2" />
                   Edit
                 </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => setShowHistory(true)}>
+                  <History className="h-4 w-4 mr-2" />
+                  Version History
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => imageInputRef.current?.click()}>
+                  <Upload className="h-4 w-4 mr-2" />
+                  Upload Image
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => audioInputRef.current?.click()}>
+                  <Upload className="h-4 w-4 mr-2" />
+                  Upload Narration
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => setShowRecorder(true)}>
+                  <Mic className="h-4 w-4 mr-2" />
+                  Record Narration
+                </DropdownMenuItem>
                 {onMoveUp && (
                   <DropdownMenuItem onClick={onMoveUp}>
                     <ChevronUp className="h-4 w-4 mr-2" />
@@ -201,14 +301,33 @@ export function SceneCard({
 
           {/* Narration */}
           {isEditing ? (
-            <Textarea
-              value={editNarration}
-              onChange={(e) => setEditNarration(e.target.value)}
-              className="text-xs min-h-[60px]"
-            />
+            <>
+              <Textarea
+                value={editNarration}
+                onChange={(e) => setEditNarration(e.target.value)}
+                className="text-xs min-h-[60px]"
+              />
+              <Textarea
+                value={editVisual}
+                onChange={(e) => setEditVisual(e.target.value)}
+                placeholder="Visual description used to generate the image"
+                className="text-xs min-h-[60px]"
+              />
+            </>
           ) : (
             <p className="text-xs text-muted-foreground line-clamp-3">
-              {scene.narration_text}
+              {scene.narration_segments?.some((segment) => segment.character_id)
+                ? scene.narration_segments.map((segment, index) => (
+                    <span key={index}>
+                      {segment.character_id && (
+                        <span className="font-medium text-foreground">
+                          {characters.find((c) => c.id === segment.character_id)?.name ?? 'Unknown'}:{' '}
+                        </span>
+                      )}
+                      {segment.text}{' '}
+                    </span>
+                  ))
+                : scene.narration_text}
             </p>
           )}
 
@@ -218,6 +337,68 @@ export function SceneCard({
             <span>{scene.actual_duration || scene.estimated_duration}s</span>
           </div>
 
+          {/* Motion & Transition */}
+          <div className="grid grid-cols-2 gap-2">
+            <Select
+              value={scene.motion}
+              onValueChange={(v) => onUpdate(scene.id, { motion: v as SceneMotion })}
+            >
+              <SelectTrigger className="h-7 text-xs" aria-label="Motion">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SCENE_MOTIONS.map((motion) => (
+                  <SelectItem key={motion} value={motion} className="text-xs">
+                    {MOTION_LABELS[motion]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={index === 0 ? 'cut' : scene.transition}
+              onValueChange={(v) => onUpdate(scene.id, { transition: v as SceneTransition })}
+              disabled={index === 0}
+            >
+              <SelectTrigger className="h-7 text-xs" aria-label="Transition in">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SCENE_TRANSITIONS.map((transition) => (
+                  <SelectItem key={transition} value={transition} className="text-xs">
+                    {TRANSITION_LABELS[transition]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* Characters */}
+          {characters.length > 0 && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" size="sm" className="h-7 w-full justify-start gap-1 text-xs font-normal">
+                  <Users className="h-3 w-3 flex-shrink-0" />
+                  <span className="truncate">
+                    {sceneCharacters.length > 0 ? sceneCharacters.map((c) => c.name).join(', ') : 'No characters'}
+                  </span>
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="start">
+                {characters.map((character) => (
+                  <DropdownMenuCheckboxItem
+                    key={character.id}
+                    checked={scene.character_ids.includes(character.id)}
+                    onCheckedChange={(checked) => toggleCharacter(character.id, checked)}
+                    onSelect={(e) => e.preventDefault()}
+                    className="text-xs"
+                  >
+                    {character.name}
+                  </DropdownMenuCheckboxItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
+
           {/* Status Badges */}
           <div className="flex gap-2">
             {getStatusBadge(scene.image_status, 'image')}
@@ -280,6 +461,39 @@ export function SceneCard({
         </CardContent>
       </Card>
 
+      <input
+        ref={imageInputRef}
+        type="file"
+        accept={SCENE_IMAGE_TYPES.join(',')}
+        className="hidden"
+        onChange={(e) => handleFileChange(e, onUploadImage)}
+      />
+      <input
+        ref={audioInputRef}
+        type="file"
+        accept={SCENE_AUDIO_TYPES.join(',')}
+        className="hidden"
+        // Failures are already reported by the upload hook
+        onChange={(e) => handleFileChange(e, (file) => onUploadAudio(file).catch(() => undefined))}
+      />
+
+      <NarrationRecorder
+        scene={scene}
+        open={showRecorder}
+        onOpenChange={setShowRecorder}
+        onSave={onUploadAudio}
+      />
+
+      <SceneAssetHistory
+        scene={scene}
+        open={showHistory}
+        onOpenChange={setShowHistory}
+        onSelectImage={handleSelectImage}
+        onSelectAudio={handleSelectAudio}
+        onGenerateCandidates={onGenerateImageCandidates}
+        isGeneratingImage={isGeneratingImage}
+      />
+
       {/* Delete Confirmation */}
       <AlertDialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
         <AlertDialogContent>
@@ -1,128 +1,90 @@
 import { useState } from 'react';
 import { Project, Scene } from '@/lib/types';
 import { useScenes } from '@/hooks/useScenes';
+import { useGenerationJobs } from '@/hooks/useGenerationJobs';
+import { useCharacters } from '@/hooks/useCharacters';
+import { useSceneUploads } from '@/hooks/useSceneUploads';
+import { SceneGeneration } from '@/hooks/useSceneGeneration';
 import { SceneCard } from './SceneCard';
+import { RewriteScenesDialog } from './RewriteScenesDialog';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Skeleton } from '@/components/ui/skeleton';
 import { toast } from 'sonner';
-import { Loader2, Wand2, Image, Mic, RefreshCw } from 'lucide-react';
-import { supabase } from '@/integrations/supabase/client';
+import { Loader2, Wand2, Image, Mic, RefreshCw, Clock, X } from 'lucide-react';
 
 interface SceneEditorProps {
   project: Project;
   scenes: Scene[];
+  // Scenes written so far by a running generation, which replace `scenes` once it finishes
+  draftScenes: Scene[];
   isLoading: boolean;
+  sceneGeneration: SceneGeneration;
 }
 
-export function SceneEditor({ project, scenes, isLoading }: SceneEditorProps) {
+export function SceneEditor({ project, scenes, draftScenes, isLoading, sceneGeneration }: SceneEditorProps) {
   const { updateScene, deleteScene, reorderScenes, refetch } = useScenes(project.id);
-  const [generatingImages, setGeneratingImages] = useState<Set<string>>(new Set());
-  const [generatingAudio, setGeneratingAudio] = useState<Set<string>>(new Set());
+  const [rewriteOpen, setRewriteOpen] = useState(false);
+  const { characters } = useCharacters(project.id);
+  const { uploadImage, uploadAudio } = useSceneUploads(project.id);
+  const { activeJobs, getActiveJob, enqueueJobs } = useGenerationJobs(project.id, {
+    onJobFinished: (job) => {
+      const scene = scenes.find((s) => s.id === job.scene_id);
+      if (!scene || job.status !== 'completed') return;
+      if (job.job_type === 'generate-image') {
+        toast.success(`Image generated for "${scene.title}"`);
+      } else if (job.job_type === 'generate-voiceover') {
+        toast.success(`Voiceover generated for "${scene.title}"`);
+      }
+    },
+  });
+
+  const isUploading = (upload: typeof uploadImage, scene: Scene) =>
+    upload.isPending && upload.variables?.scene.id === scene.id;
+  const isGeneratingImage = (scene: Scene) =>
+    scene.image_status === 'generating' || !!getActiveJob('generate-image', scene.id) || isUploading(uploadImage, scene);
+  const isGeneratingAudio = (scene: Scene) =>
+    scene.audio_status === 'generating' || !!getActiveJob('generate-voiceover', scene.id) || isUploading(uploadAudio, scene);
+
+  const generatingImageCount = scenes.filter(isGeneratingImage).length;
+  const generatingAudioCount = scenes.filter(isGeneratingAudio).length;
+  // Jobs pushed back by a rate limit (Retry-After) or a failed attempt
+  const waitingJobs = activeJobs.filter(
+    (job) => job.status === 'queued' && new Date(job.scheduled_at).getTime() > Date.now()
+  );
 
   const handleGenerateImage = async (scene: Scene) => {
-    setGeneratingImages((prev) => new Set(prev).add(scene.id));
-
-    try {
-      await updateScene.mutateAsync({
-        id: scene.id,
-        image_status: 'generating',
-      });
-
-      const response = await supabase.functions.invoke('generate-image', {
-        body: {
-          sceneId: scene.id,
-          visualDescription: scene.visual_description || scene.narration_text,
-          style: project.visual_style,
-          mood: scene.mood || project.tone,
-        },
-      });
-
-      if (response.error) {
-        throw new Error(response.error.message);
-      }
+    await enqueueJobs.mutateAsync([{ job_type: 'generate-image', scene_id: scene.id }]);
+  };
 
-      await updateScene.mutateAsync({
-        id: scene.id,
-        image_url: response.data.imageUrl,
-        image_status: 'completed',
-      });
-
-      toast.success(`Image generated for "${scene.title}"`);
-    } catch (error) {
-      console.error('Image generation error:', error);
-      await updateScene.mutateAsync({
-        id: scene.id,
-        image_status: 'failed',
-      });
-      toast.error(error instanceof Error ? error.message : 'Failed to generate image');
-    } finally {
-      setGeneratingImages((prev) => {
-        const next = new Set(prev);
-        next.delete(scene.id);
-        return next;
-      });
+  // Each candidate is a separate image generation and is charged as one
+  const handleGenerateImageCandidates = async (scene: Scene, count: number) => {
+    const queued = await enqueueJobs.mutateAsync([
+      { job_type: 'generate-image', scene_id: scene.id, payload: { candidates: count } },
+    ]);
+    if (queued.length > 0) {
+      toast.success(`Generating ${count} candidates for "${scene.title}"`);
     }
   };
 
   const handleGenerateAudio = async (scene: Scene) => {
-    setGeneratingAudio((prev) => new Set(prev).add(scene.id));
-
-    try {
-      await updateScene.mutateAsync({
-        id: scene.id,
-        audio_status: 'generating',
-      });
-
-      const response = await supabase.functions.invoke('generate-voiceover', {
-        body: {
-          sceneId: scene.id,
-          text: scene.narration_text,
-          voiceType: project.voice_type,
-          language: project.language,
-        },
-      });
-
-      if (response.error) {
-        throw new Error(response.error.message);
-      }
-
-      await updateScene.mutateAsync({
-        id: scene.id,
-        audio_url: response.data.audioUrl,
-        actual_duration: response.data.duration,
-        audio_status: 'completed',
-      });
-
-      toast.success(`Voiceover generated for "${scene.title}"`);
-    } catch (error) {
-      console.error('Audio generation error:', error);
-      await updateScene.mutateAsync({
-        id: scene.id,
-        audio_status: 'failed',
-      });
-      toast.error(error instanceof Error ? error.message : 'Failed to generate voiceover');
-    } finally {
-      setGeneratingAudio((prev) => {
-        const next = new Set(prev);
-        next.delete(scene.id);
-        return next;
-      });
-    }
+    await enqueueJobs.mutateAsync([{ job_type: 'generate-voiceover', scene_id: scene.id }]);
   };
 
   const handleGenerateAllImages = async () => {
     const pendingScenes = scenes.filter((s) => s.image_status === 'pending' || s.image_status === 'failed');
-    for (const scene of pendingScenes) {
-      await handleGenerateImage(scene);
-    }
+    const queued = await enqueueJobs.mutateAsync(
+      pendingScenes.map((scene) => ({ job_type: 'generate-image' as const, scene_id: scene.id }))
+    );
+    toast.success(`Queued ${queued.length} image${queued.length !== 1 ? 's' : ''}`);
   };
 
   const handleGenerateAllAudio = async () => {
     const pendingScenes = scenes.filter((s) => s.audio_status === 'pending' || s.audio_status === 'failed');
-    for (const scene of pendingScenes) {
-      await handleGenerateAudio(scene);
-    }
+    const queued = await enqueueJobs.mutateAsync(
+      pendingScenes.map((scene) => ({ job_type: 'generate-voiceover' as const, scene_id: scene.id }))
+    );
+    toast.success(`Queued ${queued.length} voiceover${queued.length !== 1 ? 's' : ''}`);
   };
 
   const handleSceneUpdate = async (sceneId: string, updates: Partial<Scene>) => {
@@ -165,7 +127,7 @@ export function SceneEditor({ project, scenes, isLoading }: SceneEditorProps) {
     );
   }
 
-  if (scenes.length === 0) {
+  if (scenes.length === 0 && !sceneGeneration.isGenerating) {
     return (
       <Card>
         <CardHeader>
@@ -188,22 +150,74 @@ export function SceneEditor({ project, scenes, isLoading }: SceneEditorProps) {
 
   return (
     <div className="space-y-6">
+      {sceneGeneration.isGenerating && (
+        <div className="space-y-3 rounded-lg border border-primary/30 bg-primary/5 p-3">
+          <div className="flex items-center justify-between gap-3">
+            <span className="flex items-center gap-2 text-sm">
+              <Loader2 className="h-4 w-4 animate-spin text-primary" />
+              Writing scenes... {draftScenes.length} so far
+              {scenes.length > 0 && (
+                <span className="text-muted-foreground">· they replace the scenes below when finished</span>
+              )}
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={sceneGeneration.cancel}
+              disabled={sceneGeneration.isCancelling}
+              className="gap-2"
+            >
+              <X className="h-4 w-4" />
+              Cancel
+            </Button>
+          </div>
+          {draftScenes.length > 0 && (
+            <ol className="space-y-1 text-sm">
+              {draftScenes.map((scene, index) => (
+                <li key={scene.id} className="truncate">
+                  <span className="font-medium">
+                    {index + 1}. {scene.title}
+                  </span>{' '}
+                  <span className="text-muted-foreground">{scene.narration_text}</span>
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      )}
+
       {/* Actions Bar */}
       <div className="flex flex-wrap gap-3 items-center justify-between">
         <div className="flex items-center gap-2">
           <span className="text-sm text-muted-foreground">
             {scenes.length} scene{scenes.length !== 1 ? 's' : ''}
           </span>
+          {waitingJobs.length > 0 && (
+            <span className="flex items-center gap-1 text-xs text-muted-foreground">
+              <Clock className="h-3 w-3" />
+              {waitingJobs.length} waiting to retry
+            </span>
+          )}
         </div>
         <div className="flex gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setRewriteOpen(true)}
+            disabled={sceneGeneration.isGenerating || scenes.length === 0}
+            className="gap-2"
+          >
+            <Wand2 className="h-4 w-4" />
+            Rewrite Scenes
+          </Button>
           <Button
             variant="outline"
             size="sm"
             onClick={handleGenerateAllImages}
-            disabled={pendingImages === 0 || generatingImages.size > 0}
+            disabled={pendingImages === 0 || generatingImageCount > 0 || sceneGeneration.isGenerating}
             className="gap-2"
           >
-            {generatingImages.size > 0 ? (
+            {generatingImageCount > 0 ? (
               <Loader2 className="h-4 w-4 animate-spin" />
             ) : (
               <Image className="h-4 w-4" />
@@ -214,10 +228,10 @@ export function SceneEditor({ project, scenes, isLoading }: SceneEditorProps) {
             variant="outline"
             size="sm"
             onClick={handleGenerateAllAudio}
-            disabled={pendingAudio === 0 || generatingAudio.size > 0}
+            disabled={pendingAudio === 0 || generatingAudioCount > 0 || sceneGeneration.isGenerating}
             className="gap-2"
           >
-            {generatingAudio.size > 0 ? (
+            {generatingAudioCount > 0 ? (
               <Loader2 className="h-4 w-4 animate-spin" />
             ) : (
               <Mic className="h-4 w-4" />
@@ -238,17 +252,23 @@ export function SceneEditor({ project, scenes, isLoading }: SceneEditorProps) {
             scene={scene}
             index={index}
             totalScenes={scenes.length}
+            characters={characters}
             onUpdate={handleSceneUpdate}
             onDelete={handleSceneDelete}
             onGenerateImage={() => handleGenerateImage(scene)}
+            onGenerateImageCandidates={(count) => handleGenerateImageCandidates(scene, count)}
             onGenerateAudio={() => handleGenerateAudio(scene)}
-            isGeneratingImage={generatingImages.has(scene.id)}
-            isGeneratingAudio={generatingAudio.has(scene.id)}
+            onUploadImage={(file) => uploadImage.mutate({ scene, file })}
+            onUploadAudio={(file) => uploadAudio.mutateAsync({ scene, file })}
+            isGeneratingImage={isGeneratingImage(scene)}
+            isGeneratingAudio={isGeneratingAudio(scene)}
             onMoveUp={index > 0 ? () => handleReorder(index, index - 1) : undefined}
             onMoveDown={index < scenes.length - 1 ? () => handleReorder(index, index + 1) : undefined}
           />
         ))}
       </div>
+
+      <RewriteScenesDialog project={project} scenes={scenes} open={rewriteOpen} onOpenChange={setRewriteOpen} />
     </div>
   );
 }
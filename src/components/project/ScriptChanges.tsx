@@ -0,0 +1,149 @@
+import { useDeferredValue, useMemo, useState } from 'react';
+import { Project, Scene } from '@/lib/types';
+import { diffScriptAgainstScenes, SceneNarrationChange } from '@/lib/scriptDiff';
+import { useProjects } from '@/hooks/useProjects';
+import { useScenes } from '@/hooks/useScenes';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { GitCompare, Loader2 } from 'lucide-react';
+
+interface ScriptChangesProps {
+  project: Project;
+  scenes: Scene[];
+  script: string;
+  disabled: boolean;
+}
+
+/**
+ * Scenes whose passage of the script an edit changed. Applying the edit
+ * rewrites just their narration and queues a new voiceover; images are only
+ * redone where the edit changes what the scene shows. Narration edited by
+ * hand is kept unless the user chooses to replace it.
+ */
+export function ScriptChanges({ project, scenes, script, disabled }: ScriptChangesProps) {
+  const { updateProject } = useProjects();
+  const { updateNarrations } = useScenes(project.id);
+  const [redoImageIds, setRedoImageIds] = useState<Set<string>>(new Set());
+  const [replaceEditIds, setReplaceEditIds] = useState<Set<string>>(new Set());
+
+  // Diffing runs behind typing rather than on every keystroke
+  const deferredScript = useDeferredValue(script);
+  const changes = useMemo(
+    () => (scenes.length > 0 ? diffScriptAgainstScenes(deferredScript, scenes) : []),
+    [deferredScript, scenes]
+  );
+
+  if (changes.length === 0) return null;
+
+  const updates = changes.filter((change) => change.newText);
+  const removed = changes.filter((change) => !change.newText);
+  const isApplying = updateProject.isPending || updateNarrations.isPending;
+
+  const toggle = (setIds: typeof setRedoImageIds) => (sceneId: string, checked: boolean) => {
+    setIds((current) => {
+      const next = new Set(current);
+      if (checked) next.add(sceneId);
+      else next.delete(sceneId);
+      return next;
+    });
+  };
+  const toggleRedoImage = toggle(setRedoImageIds);
+  const toggleReplaceEdit = toggle(setReplaceEditIds);
+  const keepsNarration = (change: SceneNarrationChange) =>
+    change.editedByHand && !replaceEditIds.has(change.sceneId);
+
+  const handleApply = async () => {
+    try {
+      await updateProject.mutateAsync({ id: project.id, script_content: script });
+      await updateNarrations.mutateAsync(
+        updates.map((change) => ({
+          id: change.sceneId,
+          script_passage: change.passage,
+          narration_text: keepsNarration(change) ? null : change.newText,
+          redoImage: !keepsNarration(change) && redoImageIds.has(change.sceneId),
+        }))
+      );
+      setRedoImageIds(new Set());
+      setReplaceEditIds(new Set());
+    } catch (error) {
+      console.error('Apply script changes error:', error);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          <GitCompare className="h-4 w-4 text-primary" />
+          Scenes affected by your edits
+        </CardTitle>
+        <CardDescription>
+          Update just these scenes' narration instead of regenerating everything. Their voiceovers are marked for
+          regeneration; images are kept unless you tick them, and so is narration you edited by hand.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {updates.map((change) => {
+          const scene = scenes[change.index];
+          return (
+            <div key={change.sceneId} className="space-y-2 rounded-lg border p-3 text-sm">
+              <div className="flex items-center justify-between gap-2">
+                <span className="truncate font-medium">
+                  {change.index + 1}. {scene.title}
+                </span>
+                {scene.audio_url && !keepsNarration(change) && (
+                  <Badge variant="secondary" className="flex-shrink-0 text-xs">
+                    New voiceover needed
+                  </Badge>
+                )}
+              </div>
+              <p className="line-clamp-2 text-muted-foreground line-through">{change.oldText}</p>
+              <p className="line-clamp-3">{change.newText}</p>
+              {change.editedByHand && (
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id={`replace-edit-${change.sceneId}`}
+                    checked={replaceEditIds.has(change.sceneId)}
+                    onCheckedChange={(checked) => toggleReplaceEdit(change.sceneId, checked === true)}
+                  />
+                  <Label htmlFor={`replace-edit-${change.sceneId}`} className="text-xs font-normal">
+                    You edited this narration by hand; replace your edits with the new script text
+                  </Label>
+                </div>
+              )}
+              {scene.image_url && !keepsNarration(change) && (
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id={`redo-image-${change.sceneId}`}
+                    checked={redoImageIds.has(change.sceneId)}
+                    onCheckedChange={(checked) => toggleRedoImage(change.sceneId, checked === true)}
+                  />
+                  <Label htmlFor={`redo-image-${change.sceneId}`} className="text-xs font-normal">
+                    The edit changes what this scene shows; redo its image too
+                  </Label>
+                </div>
+              )}
+            </div>
+          );
+        })}
+
+        {removed.length > 0 && (
+          <p className="text-xs text-muted-foreground">
+            No longer in the script: {removed.map((change) => `${change.index + 1}. ${scenes[change.index].title}`).join(', ')}.
+            Delete or rewrite {removed.length === 1 ? 'it' : 'them'} in the Scenes tab.
+          </p>
+        )}
+
+        {updates.length > 0 && (
+          <Button onClick={handleApply} disabled={disabled || isApplying} className="w-full gap-2">
+            {isApplying && <Loader2 className="h-4 w-4 animate-spin" />}
+            Update {updates.length} scene{updates.length !== 1 ? 's' : ''}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
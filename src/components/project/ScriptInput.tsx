@@ -1,24 +1,29 @@
 import { useState } from 'react';
-import { Project } from '@/lib/types';
+import { Project, Scene } from '@/lib/types';
 import { useProjects } from '@/hooks/useProjects';
-import { useScenes } from '@/hooks/useScenes';
-import { supabase } from '@/integrations/supabase/client';
+import { useCharacters } from '@/hooks/useCharacters';
+import { SceneGeneration } from '@/hooks/useSceneGeneration';
+import { ScriptChanges } from './ScriptChanges';
+import { StoryWriterDialog } from './StoryWriterDialog';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { toast } from 'sonner';
-import { Loader2, Sparkles, Wand2 } from 'lucide-react';
+import { Loader2, PenLine, Sparkles, Wand2 } from 'lucide-react';
 
 interface ScriptInputProps {
   project: Project;
+  scenes: Scene[];
+  sceneGeneration: SceneGeneration;
   onScenesGenerated: () => void;
 }
 
-export function ScriptInput({ project, onScenesGenerated }: ScriptInputProps) {
+export function ScriptInput({ project, scenes, sceneGeneration, onScenesGenerated }: ScriptInputProps) {
   const [script, setScript] = useState(project.script_content || '');
-  const [isGenerating, setIsGenerating] = useState(false);
+  const [isWriterOpen, setIsWriterOpen] = useState(false);
   const { updateProject } = useProjects();
-  const { createScenes, deleteAllScenes, scenes } = useScenes(project.id);
+  const { characters } = useCharacters(project.id);
+  const { isGenerating } = sceneGeneration;
 
   const handleSaveScript = async () => {
     await updateProject.mutateAsync({
@@ -39,8 +44,6 @@ export function ScriptInput({ project, onScenesGenerated }: ScriptInputProps) {
       return;
     }
 
-    setIsGenerating(true);
-
     try {
       // Save script first
       await updateProject.mutateAsync({
@@ -48,49 +51,11 @@ export function ScriptInput({ project, onScenesGenerated }: ScriptInputProps) {
         script_content: script,
       });
 
-      // Call generate-scenes directly
-      const { data, error } = await supabase.functions.invoke('generate-scenes', {
-        body: {
-          script,
-          language: project.language,
-          storyType: project.story_type,
-          tone: project.tone,
-        },
-      });
-
-      if (error) {
-        throw new Error(error.message || 'Failed to generate scenes');
-      }
-
-      if (!data?.scenes || !Array.isArray(data.scenes)) {
-        throw new Error('Invalid response from AI');
-      }
-
-      // Delete existing scenes first
-      if (scenes.length > 0) {
-        await deleteAllScenes.mutateAsync();
-      }
-
-      // Create new scenes
-      const sceneInputs = data.scenes.map((scene: any, index: number) => ({
-        project_id: project.id,
-        scene_order: index + 1,
-        title: scene.title,
-        narration_text: scene.narration_text,
-        visual_description: scene.visual_description,
-        estimated_duration: scene.estimated_duration || 5,
-        mood: scene.mood,
-      }));
-
-      await createScenes.mutateAsync(sceneInputs);
-      toast.success(`${data.scenes.length} scenes generated successfully!`);
+      // The job runs in the background; scenes appear in the editor as they are written
+      await sceneGeneration.start(script);
       onScenesGenerated();
     } catch (error) {
       console.error('Generate scenes error:', error);
-      const message = error instanceof Error ? error.message : 'Failed to generate scenes';
-      toast.error(message);
-    } finally {
-      setIsGenerating(false);
     }
   };
 
@@ -109,6 +74,16 @@ export function ScriptInput({ project, onScenesGenerated }: ScriptInputProps) {
                   Paste your story script below. The AI will analyze it and create visual scenes.
                 </CardDescription>
               </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setIsWriterOpen(true)}
+                disabled={isGenerating}
+                className="flex-shrink-0 gap-2"
+              >
+                <PenLine className="h-4 w-4" />
+                Write with AI
+              </Button>
             </div>
           </CardHeader>
           <CardContent className="space-y-4">
@@ -143,7 +118,7 @@ Write or paste your complete story here. The AI will automatically split it into
                   {isGenerating ? (
                     <>
                       <Loader2 className="h-4 w-4 animate-spin" />
-                      Generating...
+                      Generating... {sceneGeneration.writtenCount} scene{sceneGeneration.writtenCount !== 1 ? 's' : ''}
                     </>
                   ) : (
                     <>
@@ -159,6 +134,10 @@ Write or paste your complete story here. The AI will automatically split it into
       </div>
 
       <div className="space-y-4">
+        {!isGenerating && (
+          <ScriptChanges project={project} scenes={scenes} script={script} disabled={updateProject.isPending} />
+        )}
+
         <Card>
           <CardHeader>
             <CardTitle className="text-base">Tips for Best Results</CardTitle>
@@ -211,6 +190,17 @@ Write or paste your complete story here. The AI will automatically split it into
           </CardContent>
         </Card>
       </div>
+
+      {/* Mounted per opening so the brief picks up the current character bible */}
+      {isWriterOpen && (
+        <StoryWriterDialog
+          project={project}
+          characters={characters}
+          open={isWriterOpen}
+          onOpenChange={setIsWriterOpen}
+          onUse={setScript}
+        />
+      )}
     </div>
   );
 }
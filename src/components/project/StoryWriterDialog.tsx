@@ -0,0 +1,227 @@
+import { useState } from 'react';
+import { Character, Project, StoryAgeBand, StoryBrief, StoryVariation } from '@/lib/types';
+import { useStoryWriter } from '@/hooks/useStoryWriter';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Check, Loader2, Sparkles } from 'lucide-react';
+
+const AGE_BANDS: { value: StoryAgeBand; label: string }[] = [
+  { value: '3-5', label: 'Ages 3-5' },
+  { value: '6-8', label: 'Ages 6-8' },
+  { value: '9-12', label: 'Ages 9-12' },
+];
+
+const LENGTH_MINUTES = [1, 2, 3, 4, 5, 6, 8];
+
+interface StoryWriterDialogProps {
+  project: Project;
+  characters: Character[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onUse: (script: string) => void;
+}
+
+export function StoryWriterDialog({ project, characters, open, onOpenChange, onUse }: StoryWriterDialogProps) {
+  const writeStory = useStoryWriter(project);
+  const [brief, setBrief] = useState<StoryBrief>({
+    premise: '',
+    moral: '',
+    characters: characters.map((c) => c.name).join(', '),
+    ageBand: '3-5',
+    lengthMinutes: 3,
+  });
+  const [draft, setDraft] = useState('');
+  const [instruction, setInstruction] = useState('');
+
+  const variations: { variation: StoryVariation; label: string }[] = [
+    { variation: 'shorter', label: 'Make it shorter' },
+    { variation: 'twist', label: 'Add a twist' },
+    { variation: 'simplify', label: `Simplify for age ${brief.ageBand.split('-')[0]}` },
+  ];
+
+  const handleWrite = () => {
+    writeStory.mutate(brief, { onSuccess: setDraft });
+  };
+
+  const handleVariation = (variation: StoryVariation) => {
+    writeStory.mutate(
+      { ...brief, revision: { variation, instruction, draft } },
+      {
+        onSuccess: (script) => {
+          setDraft(script);
+          if (variation === 'custom') setInstruction('');
+        },
+      }
+    );
+  };
+
+  const handleUse = () => {
+    onUse(draft);
+    onOpenChange(false);
+  };
+
+  const updateBrief = (updates: Partial<StoryBrief>) => setBrief((current) => ({ ...current, ...updates }));
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !writeStory.isPending && onOpenChange(next)}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Write a story</DialogTitle>
+          <DialogDescription>
+            Draft a {project.story_type} story in {project.language} with a {project.tone} tone, then review it before
+            generating scenes. Each draft or variation uses one credit.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="story-premise">Premise</Label>
+            <Input
+              id="story-premise"
+              placeholder="A shy little elephant is afraid of the river until a flood strands her friends"
+              value={brief.premise}
+              onChange={(e) => updateBrief({ premise: e.target.value })}
+              maxLength={500}
+            />
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="story-moral">Moral</Label>
+              <Input
+                id="story-moral"
+                placeholder="Courage means acting even when you're scared"
+                value={brief.moral}
+                onChange={(e) => updateBrief({ moral: e.target.value })}
+                maxLength={300}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="story-characters">Main characters</Label>
+              <Input
+                id="story-characters"
+                placeholder="Mini the elephant, Grandpa Tortoise"
+                value={brief.characters}
+                onChange={(e) => updateBrief({ characters: e.target.value })}
+                maxLength={1000}
+              />
+            </div>
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-3">
+            <div className="space-y-2">
+              <Label>Target age</Label>
+              <Select value={brief.ageBand} onValueChange={(value) => updateBrief({ ageBand: value as StoryAgeBand })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {AGE_BANDS.map((band) => (
+                    <SelectItem key={band.value} value={band.value}>
+                      {band.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Length</Label>
+              <Select
+                value={String(brief.lengthMinutes)}
+                onValueChange={(value) => updateBrief({ lengthMinutes: Number(value) })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {LENGTH_MINUTES.map((minutes) => (
+                    <SelectItem key={minutes} value={String(minutes)}>
+                      {minutes} min
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-end">
+              <Button
+                onClick={handleWrite}
+                disabled={writeStory.isPending || !brief.premise.trim()}
+                className="w-full gradient-primary gap-2"
+              >
+                {writeStory.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Sparkles className="h-4 w-4" />}
+                {draft ? 'Write again' : 'Write story'}
+              </Button>
+            </div>
+          </div>
+
+          {draft && (
+            <div className="space-y-3 border-t pt-4">
+              <Label htmlFor="story-draft">Draft</Label>
+              <Textarea
+                id="story-draft"
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                className="min-h-[240px] text-sm"
+                disabled={writeStory.isPending}
+              />
+              <div className="flex flex-wrap gap-2">
+                {variations.map(({ variation, label }) => (
+                  <Button
+                    key={variation}
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleVariation(variation)}
+                    disabled={writeStory.isPending || !draft.trim()}
+                  >
+                    {label}
+                  </Button>
+                ))}
+              </div>
+              <div className="flex gap-2">
+                <Input
+                  placeholder="Or describe a change, e.g. set it in a snowy village"
+                  value={instruction}
+                  onChange={(e) => setInstruction(e.target.value)}
+                  maxLength={300}
+                  className="h-9 text-sm"
+                />
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => handleVariation('custom')}
+                  disabled={writeStory.isPending || !draft.trim() || !instruction.trim()}
+                >
+                  Apply
+                </Button>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          {project.script_content?.trim() && draft && (
+            <p className="mr-auto self-center text-xs text-muted-foreground">Replaces the script in the editor</p>
+          )}
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={writeStory.isPending}>
+            Cancel
+          </Button>
+          <Button onClick={handleUse} disabled={writeStory.isPending || !draft.trim()} className="gap-2">
+            <Check className="h-4 w-4" />
+            Use this script
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
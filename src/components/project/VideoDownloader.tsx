@@ -1,7 +1,19 @@
 import { useState, useRef, useCallback } from 'react';
-import { Scene } from '@/lib/types';
+import { Scene, StoryLanguage } from '@/lib/types';
+import { buildSceneCues, getSceneDurationMs, SubtitleCue } from '@/lib/subtitles';
+import {
+  getCrossfadeOpacity,
+  getDipToBlackOpacity,
+  getIncomingTransition,
+  getMotionWindow,
+  SceneMotion,
+  TRANSITION_MS,
+} from '@/lib/motion';
+import { MUSIC_DUCK_ATTACK_MS, MUSIC_DUCK_LEVEL, MUSIC_DUCK_RELEASE_MS, MusicMix } from '@/lib/music';
 import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
 import { Download, Loader2, CheckCircle } from 'lucide-react';
 import { toast } from 'sonner';
 
@@ -12,6 +24,8 @@ interface VideoDownloaderProps {
   aspectRatio: '16:9' | '9:16';
   quality: VideoQuality;
   projectTitle: string;
+  language: StoryLanguage;
+  music?: MusicMix | null;
 }
 
 const QUALITY_DIMENSIONS: Record<VideoQuality, { landscape: { width: number; height: number }; portrait: { width: number; height: number }; bitrate: number }> = {
@@ -32,8 +46,96 @@ const QUALITY_DIMENSIONS: Record<VideoQuality, { landscape: { width: number; hei
   }
 };
 
-export function VideoDownloader({ scenes, aspectRatio, quality, projectTitle }: VideoDownloaderProps) {
+const READ_ALONG_HIGHLIGHT = '#facc15';
+
+// Dips the music while a narration clip plays, holding from wherever a previous release had reached
+function duckMusic(gain: AudioParam, startTime: number, durationSeconds: number) {
+  gain.cancelScheduledValues(startTime);
+  gain.setValueAtTime(gain.value, startTime);
+  gain.linearRampToValueAtTime(MUSIC_DUCK_LEVEL, startTime + MUSIC_DUCK_ATTACK_MS / 1000);
+  gain.setValueAtTime(MUSIC_DUCK_LEVEL, startTime + durationSeconds);
+  gain.linearRampToValueAtTime(1, startTime + durationSeconds + MUSIC_DUCK_RELEASE_MS / 1000);
+}
+
+// Cover-fits the image to the frame, then applies the scene's Ken Burns window
+function drawSceneImage(
+  ctx: CanvasRenderingContext2D,
+  img: HTMLImageElement,
+  width: number,
+  height: number,
+  motion: SceneMotion,
+  progress: number
+) {
+  if (!img.complete || img.naturalWidth === 0) return;
+
+  const imgAspect = img.naturalWidth / img.naturalHeight;
+  const canvasAspect = width / height;
+  let drawWidth, drawHeight, drawX, drawY;
+  if (imgAspect > canvasAspect) {
+    drawHeight = height;
+    drawWidth = height * imgAspect;
+    drawX = (width - drawWidth) / 2;
+    drawY = 0;
+  } else {
+    drawWidth = width;
+    drawHeight = width / imgAspect;
+    drawX = 0;
+    drawY = (height - drawHeight) / 2;
+  }
+
+  const { scale, x, y } = getMotionWindow(motion, progress);
+  ctx.save();
+  ctx.scale(scale, scale);
+  ctx.translate(-x * width, -y * height);
+  ctx.drawImage(img, drawX, drawY, drawWidth, drawHeight);
+  ctx.restore();
+}
+
+function drawSubtitle(ctx: CanvasRenderingContext2D, cues: SubtitleCue[], elapsedMs: number, width: number, height: number) {
+  const cue = cues.find((c) => elapsedMs >= c.startMs && elapsedMs < c.endMs);
+  if (!cue) return;
+
+  const fontSize = Math.round(Math.min(width * 0.04, height * 0.055));
+  const lineHeight = fontSize * 1.35;
+  const paddingX = fontSize * 0.6;
+  const paddingY = fontSize * 0.3;
+
+  ctx.font = `600 ${fontSize}px "Noto Sans Devanagari", "Noto Sans", sans-serif`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+
+  const boxWidth = Math.max(...cue.lines.map((line) => ctx.measureText(line).width)) + paddingX * 2;
+  const boxHeight = cue.lines.length * lineHeight + paddingY * 2;
+  // Portrait videos keep captions clear of the Shorts UI overlay
+  const boxTop = height * (width < height ? 0.78 : 0.92) - boxHeight;
+
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+  ctx.fillRect((width - boxWidth) / 2, boxTop, boxWidth, boxHeight);
+  cue.lines.forEach((line, i) => {
+    const y = boxTop + paddingY + lineHeight * (i + 0.5);
+    const words = cue.words?.[i];
+    if (!words) {
+      ctx.fillStyle = '#fff';
+      ctx.fillText(line, width / 2, y);
+      return;
+    }
+
+    // Read-along: words light up as they are spoken
+    ctx.textAlign = 'left';
+    const spaceWidth = ctx.measureText(' ').width;
+    let x = (width - ctx.measureText(line).width) / 2;
+    for (const word of words) {
+      ctx.fillStyle = elapsedMs >= word.start_ms ? READ_ALONG_HIGHLIGHT : '#fff';
+      ctx.fillText(word.text, x, y);
+      x += ctx.measureText(word.text).width + spaceWidth;
+    }
+    ctx.textAlign = 'center';
+  });
+}
+
+export function VideoDownloader({ scenes, aspectRatio, quality, projectTitle, language, music }: VideoDownloaderProps) {
   const [isGenerating, setIsGenerating] = useState(false);
+  const [burnSubtitles, setBurnSubtitles] = useState(false);
   const [progress, setProgress] = useState(0);
   const [currentScene, setCurrentScene] = useState(0);
   const canvasRef = useRef<HTMLCanvasElement>(null);
@@ -135,83 +237,112 @@ export function VideoDownloader({ scenes, aspectRatio, quality, projectTitle }:
       }
 
       // Calculate total duration
-      const totalDuration = validScenes.reduce((acc, s) => acc + (s.actual_duration || s.estimated_duration || 5), 0);
+      const totalDuration = validScenes.reduce((acc, s) => acc + getSceneDurationMs(s) / 1000, 0);
+
+      // Background music runs through a fade stage and a ducking stage
+      let musicSource: AudioBufferSourceNode | null = null;
+      let musicFade: GainNode | null = null;
+      let musicDuck: GainNode | null = null;
+      if (music) {
+        try {
+          const response = await fetch(music.url);
+          const musicBuffer = await audioContext.decodeAudioData(await response.arrayBuffer());
+          musicSource = audioContext.createBufferSource();
+          musicSource.buffer = musicBuffer;
+          musicSource.loop = true;
+          musicDuck = audioContext.createGain();
+          musicFade = audioContext.createGain();
+          musicSource.connect(musicDuck).connect(musicFade).connect(audioDestination);
+
+          const now = audioContext.currentTime;
+          musicFade.gain.setValueAtTime(0, now);
+          musicFade.gain.linearRampToValueAtTime(music.volume, now + Math.max(music.fadeInMs, 1) / 1000);
+          musicSource.start(now);
+        } catch (musicError) {
+          console.warn('Background music failed to load', musicError);
+          musicSource = null;
+        }
+      }
 
       // Process each scene
       let elapsedTime = 0;
 
       for (let i = 0; i < validScenes.length; i++) {
         const scene = validScenes[i];
-        const duration = scene.actual_duration || scene.estimated_duration || 5;
+        const durationMs = getSceneDurationMs(scene);
+        const duration = durationMs / 1000;
+        const cues = burnSubtitles ? buildSceneCues(scene, language) : [];
         const img = loadedImages[i];
         setCurrentScene(i + 1);
 
-        // Calculate image dimensions once
-        let drawWidth, drawHeight, drawX, drawY;
-        if (img.complete && img.naturalWidth > 0) {
-          const imgAspect = img.naturalWidth / img.naturalHeight;
-          const canvasAspect = width / height;
-
-          if (imgAspect > canvasAspect) {
-            drawHeight = height;
-            drawWidth = height * imgAspect;
-            drawX = (width - drawWidth) / 2;
-            drawY = 0;
-          } else {
-            drawWidth = width;
-            drawHeight = width / imgAspect;
-            drawX = 0;
-            drawY = (height - drawHeight) / 2;
-          }
-        } else {
-          // Fallback for failed images
-          drawWidth = width;
-          drawHeight = height;
-          drawX = 0;
-          drawY = 0;
-        }
+        const transition = getIncomingTransition(scene.transition, i);
+        const nextTransition = i + 1 < validScenes.length ? getIncomingTransition(validScenes[i + 1].transition, i + 1) : 'cut';
+        const previous = i > 0 ? { img: loadedImages[i - 1], motion: validScenes[i - 1].motion } : null;
 
-        // Draw initial frame
-        ctx.fillStyle = '#000';
-        ctx.fillRect(0, 0, width, height);
-        if (img.complete && img.naturalWidth > 0) {
-          ctx.drawImage(img, drawX, drawY, drawWidth, drawHeight);
+        // Decode the narration first so motion, captions and audio start together
+        let audioBuffer: AudioBuffer | null = null;
+        if (scene.audio_url) {
+          try {
+            const response = await fetch(scene.audio_url);
+            const arrayBuffer = await response.arrayBuffer();
+            audioBuffer = await audioContext.decodeAudioData(arrayBuffer);
+          } catch (audioError) {
+            console.warn('Audio load failed for scene', i, audioError);
+          }
         }
 
         // Start continuous rendering loop for this scene
         let isRendering = true;
+        const startTime = Date.now();
         const renderFrame = () => {
           if (!isRendering) return;
+          const elapsedMs = Date.now() - startTime;
           
           ctx.fillStyle = '#000';
           ctx.fillRect(0, 0, width, height);
-          if (img.complete && img.naturalWidth > 0) {
-            ctx.drawImage(img, drawX, drawY, drawWidth, drawHeight);
+          if (transition === 'crossfade' && previous && elapsedMs < TRANSITION_MS) {
+            // The outgoing scene holds its final frame while this one fades in over it
+            drawSceneImage(ctx, previous.img, width, height, previous.motion, 1);
+            ctx.globalAlpha = getCrossfadeOpacity(elapsedMs);
+            drawSceneImage(ctx, img, width, height, scene.motion, elapsedMs / durationMs);
+            ctx.globalAlpha = 1;
+          } else {
+            drawSceneImage(ctx, img, width, height, scene.motion, elapsedMs / durationMs);
+          }
+
+          const dipOpacity = getDipToBlackOpacity(elapsedMs, durationMs, transition === 'dip-to-black', nextTransition === 'dip-to-black');
+          if (dipOpacity > 0) {
+            ctx.fillStyle = `rgba(0, 0, 0, ${dipOpacity})`;
+            ctx.fillRect(0, 0, width, height);
+          }
+
+          if (cues.length > 0) {
+            drawSubtitle(ctx, cues, elapsedMs, width, height);
           }
           
           animationFrameRef.current = requestAnimationFrame(renderFrame);
         };
         renderFrame();
 
-        // Load and play audio
-        if (scene.audio_url) {
-          try {
-            const response = await fetch(scene.audio_url);
-            const arrayBuffer = await response.arrayBuffer();
-            const audioBuffer = await audioContext.decodeAudioData(arrayBuffer);
-            
-            const source = audioContext.createBufferSource();
-            source.buffer = audioBuffer;
-            source.connect(audioDestination);
-            source.start();
-          } catch (audioError) {
-            console.warn('Audio load failed for scene', i, audioError);
+        if (audioBuffer) {
+          const source = audioContext.createBufferSource();
+          source.buffer = audioBuffer;
+          source.connect(audioDestination);
+          source.start();
+          if (musicDuck) {
+            duckMusic(musicDuck.gain, audioContext.currentTime, Math.min(audioBuffer.duration, duration));
           }
         }
 
+        if (musicFade && music && i === validScenes.length - 1) {
+          const endTime = audioContext.currentTime + duration;
+          const fadeStart = Math.max(audioContext.currentTime, endTime - music.fadeOutMs / 1000);
+          musicFade.gain.setValueAtTime(music.volume, fadeStart);
+          musicFade.gain.linearRampToValueAtTime(0, endTime);
+        }
+
         // Wait for scene duration while updating progress
-        const startTime = Date.now();
-        while (Date.now() - startTime < duration * 1000) {
+        while (Date.now() - startTime < durationMs) {
           await new Promise(resolve => setTimeout(resolve, 50));
           const currentProgress = ((elapsedTime + (Date.now() - startTime) / 1000) / totalDuration) * 100;
           setProgress(Math.min(currentProgress, 99));
@@ -228,6 +359,7 @@ export function VideoDownloader({ scenes, aspectRatio, quality, projectTitle }:
       }
 
       // Stop recording
+      musicSource?.stop();
       mediaRecorder.stop();
       await audioContext.close();
 
@@ -239,7 +371,7 @@ export function VideoDownloader({ scenes, aspectRatio, quality, projectTitle }:
         cancelAnimationFrame(animationFrameRef.current);
       }
     }
-  }, [scenes, aspectRatio, quality, projectTitle]);
+  }, [scenes, aspectRatio, quality, projectTitle, language, burnSubtitles, music]);
 
   const validSceneCount = scenes.filter(s => s.image_url && s.audio_url && s.audio_status === 'completed').length;
 
@@ -268,6 +400,16 @@ export function VideoDownloader({ scenes, aspectRatio, quality, projectTitle }:
         </div>
       ) : null}
 
+      <div className="flex items-center justify-between">
+        <Label htmlFor="burn-subtitles" className="text-sm">Burn in subtitles</Label>
+        <Switch
+          id="burn-subtitles"
+          checked={burnSubtitles}
+          onCheckedChange={setBurnSubtitles}
+          disabled={isGenerating}
+        />
+      </div>
+
       <Button
         onClick={generateVideo}
         disabled={isGenerating || validSceneCount === 0}
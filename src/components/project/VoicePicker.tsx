@@ -0,0 +1,102 @@
+import { useEffect, useRef, useState } from 'react';
+import { StoryLanguage, TtsProviderName, Voice, VoiceType } from '@/lib/types';
+import { getVoiceSampleUrl, useVoices } from '@/hooks/useVoices';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import { toast } from 'sonner';
+import { Loader2, Pause, Play } from 'lucide-react';
+
+interface VoicePickerProps {
+  language: StoryLanguage;
+  provider?: TtsProviderName;
+  value: string | null;
+  // Without a picked voice, generation uses the first voice of this type
+  voiceType: VoiceType;
+  onChange: (voice: Voice) => void;
+}
+
+export function VoicePicker({ language, provider, value, voiceType, onChange }: VoicePickerProps) {
+  const { voices, isLoading } = useVoices(language, provider);
+  const [playingId, setPlayingId] = useState<string | null>(null);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+
+  const selectedId = voices.some((voice) => voice.id === value)
+    ? value
+    : voices.find((voice) => voice.voice_type === voiceType)?.id ?? null;
+
+  useEffect(() => () => audioRef.current?.pause(), []);
+
+  const togglePreview = (voice: Voice) => {
+    audioRef.current?.pause();
+    if (playingId === voice.id) {
+      setPlayingId(null);
+      return;
+    }
+
+    const url = getVoiceSampleUrl(voice);
+    if (!url) return;
+    const audio = new Audio(url);
+    audio.onended = () => setPlayingId(null);
+    audio.play().catch(() => {
+      toast.error('Could not play the voice sample');
+      setPlayingId(null);
+    });
+    audioRef.current = audio;
+    setPlayingId(voice.id);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-6">
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (voices.length === 0) {
+    return <p className="text-sm text-muted-foreground">No voices are available for this language yet.</p>;
+  }
+
+  return (
+    <div className="grid gap-3 sm:grid-cols-2">
+      {voices.map((voice) => (
+        <div
+          key={voice.id}
+          role="button"
+          tabIndex={0}
+          onClick={() => onChange(voice)}
+          onKeyDown={(e) => (e.key === 'Enter' || e.key === ' ') && onChange(voice)}
+          className={cn(
+            'flex items-center gap-3 rounded-lg border-2 p-3 text-left transition-all cursor-pointer',
+            voice.id === selectedId ? 'border-primary bg-primary/5' : 'border-border hover:border-primary/50'
+          )}
+        >
+          <Button
+            type="button"
+            variant="outline"
+            size="icon"
+            className="h-8 w-8 flex-shrink-0 rounded-full"
+            disabled={!voice.sample_url}
+            title={voice.sample_url ? 'Play sample' : 'No sample available'}
+            onClick={(e) => {
+              e.stopPropagation();
+              togglePreview(voice);
+            }}
+          >
+            {playingId === voice.id ? <Pause className="h-3 w-3" /> : <Play className="h-3 w-3" />}
+          </Button>
+          <div className="min-w-0 flex-1">
+            <div className="flex items-center gap-2">
+              <p className="truncate font-medium">{voice.name}</p>
+              <Badge variant="secondary" className="text-xs capitalize">
+                {voice.voice_type}
+              </Badge>
+            </div>
+            <p className="truncate text-xs text-muted-foreground">{voice.description}</p>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { AiModelSetting } from '@/lib/types';
+import { AiFeature } from '@/lib/aiModels';
+import { useAuth } from './useAuth';
+import { toast } from 'sonner';
+
+export function useAiModelSettings() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const settingsQuery = useQuery({
+    queryKey: ['ai-model-settings'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('ai_model_settings')
+        .select('*');
+
+      if (error) throw error;
+      return data as AiModelSetting[];
+    },
+  });
+
+  const updateSetting = useMutation({
+    mutationFn: async ({ feature, modelId }: { feature: AiFeature; modelId: string }) => {
+      const { error } = await supabase
+        .from('ai_model_settings')
+        .upsert({ feature, model_id: modelId, updated_by: user?.id ?? null }, { onConflict: 'feature' });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['ai-model-settings'] });
+      toast.success('Default model updated');
+    },
+    onError: (error) => {
+      toast.error('Failed to update model: ' + error.message);
+    },
+  });
+
+  return {
+    settings: settingsQuery.data ?? [],
+    isLoading: settingsQuery.isLoading,
+    updateSetting,
+  };
+}
@@ -0,0 +1,88 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Character, CreateCharacterInput, UpdateCharacterInput } from '@/lib/types';
+import { toast } from 'sonner';
+
+export function useCharacters(projectId: string | undefined) {
+  const queryClient = useQueryClient();
+
+  const charactersQuery = useQuery({
+    queryKey: ['characters', projectId],
+    queryFn: async () => {
+      if (!projectId) return [];
+
+      const { data, error } = await supabase
+        .from('characters')
+        .select('*')
+        .eq('project_id', projectId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return data as Character[];
+    },
+    enabled: !!projectId,
+  });
+
+  const createCharacter = useMutation({
+    mutationFn: async (input: CreateCharacterInput) => {
+      const { data, error } = await supabase
+        .from('characters')
+        .insert(input)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data as Character;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['characters', projectId] });
+      toast.success('Character added');
+    },
+    onError: (error) => {
+      toast.error('Failed to add character: ' + error.message);
+    },
+  });
+
+  const updateCharacter = useMutation({
+    mutationFn: async ({ id, ...input }: UpdateCharacterInput & { id: string }) => {
+      const { data, error } = await supabase
+        .from('characters')
+        .update(input)
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data as Character;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['characters', projectId] });
+    },
+    onError: (error) => {
+      toast.error('Failed to update character: ' + error.message);
+    },
+  });
+
+  const deleteCharacter = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from('characters').delete().eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['characters', projectId] });
+      toast.success('Character deleted');
+    },
+    onError: (error) => {
+      toast.error('Failed to delete character: ' + error.message);
+    },
+  });
+
+  return {
+    characters: charactersQuery.data ?? [],
+    isLoading: charactersQuery.isLoading,
+    error: charactersQuery.error,
+    createCharacter,
+    updateCharacter,
+    deleteCharacter,
+  };
+}
@@ -0,0 +1,137 @@
+import { useEffect, useRef } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Json } from '@/integrations/supabase/types';
+import { useAuth } from '@/hooks/useAuth';
+import { EnqueueJobInput, GenerationJob, GenerationJobType } from '@/lib/types';
+import { toast } from 'sonner';
+
+const ACTIVE_STATUSES = ['queued', 'processing'];
+
+interface UseGenerationJobsOptions {
+  onJobFinished?: (job: GenerationJob) => void;
+}
+
+export function useGenerationJobs(projectId: string | undefined, options: UseGenerationJobsOptions = {}) {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const onJobFinished = useRef(options.onJobFinished);
+  onJobFinished.current = options.onJobFinished;
+
+  const jobsQuery = useQuery({
+    queryKey: ['generation-jobs', projectId],
+    queryFn: async () => {
+      if (!projectId) return [];
+
+      const { data, error } = await supabase
+        .from('generation_jobs')
+        .select('*')
+        .eq('project_id', projectId)
+        .order('created_at', { ascending: false })
+        .limit(100);
+
+      if (error) throw error;
+      return data as unknown as GenerationJob[];
+    },
+    enabled: !!projectId,
+  });
+
+  // Follow job progress; the worker updates scenes, so refresh them too
+  useEffect(() => {
+    if (!projectId) return;
+
+    const channel = supabase
+      .channel(`generation-jobs-${projectId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'generation_jobs',
+          filter: `project_id=eq.${projectId}`,
+        },
+        (payload) => {
+          queryClient.invalidateQueries({ queryKey: ['generation-jobs', projectId] });
+          queryClient.invalidateQueries({ queryKey: ['scenes', projectId] });
+
+          const job = payload.new as GenerationJob;
+          if (job.scene_id) {
+            queryClient.invalidateQueries({ queryKey: ['scene-assets', job.scene_id] });
+          }
+          const previous = payload.old as Partial<GenerationJob>;
+          if (payload.eventType !== 'UPDATE' || previous.status === job.status) return;
+
+          if (job.status === 'failed') {
+            toast.error(job.error_message || 'Generation failed');
+          }
+          if (job.job_type === 'render-video' && job.status === 'completed') {
+            queryClient.invalidateQueries({ queryKey: ['project', projectId] });
+            queryClient.invalidateQueries({ queryKey: ['projects'] });
+          }
+          if (job.status === 'completed' || job.status === 'failed' || job.status === 'cancelled') {
+            onJobFinished.current?.(job);
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [projectId, queryClient]);
+
+  const jobs = jobsQuery.data ?? [];
+  const activeJobs = jobs.filter((job) => ACTIVE_STATUSES.includes(job.status));
+
+  const getActiveJob = (jobType: GenerationJobType, sceneId?: string) =>
+    activeJobs.find((job) => job.job_type === jobType && (sceneId === undefined || job.scene_id === sceneId));
+
+  const enqueueJobs = useMutation({
+    mutationFn: async (inputs: EnqueueJobInput[]) => {
+      if (!projectId) throw new Error('No project ID');
+      if (!user) throw new Error('Not authenticated');
+
+      // Skip scenes that already have the same job waiting or running
+      const newJobs = inputs.filter((input) => !input.scene_id || !getActiveJob(input.job_type, input.scene_id));
+      if (newJobs.length === 0) return [];
+
+      const { data, error } = await supabase
+        .from('generation_jobs')
+        .insert(
+          newJobs.map((input) => ({
+            user_id: user.id,
+            project_id: projectId,
+            job_type: input.job_type,
+            scene_id: input.scene_id ?? null,
+            script_content: input.script_content ?? null,
+            payload: (input.payload ?? {}) as Json,
+          }))
+        )
+        .select();
+
+      if (error) throw error;
+
+      // Start a worker now instead of waiting for the next scheduled run
+      supabase.functions.invoke('process-jobs').catch((err) => {
+        console.error('Failed to start job worker:', err);
+      });
+
+      return data as unknown as GenerationJob[];
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['generation-jobs', projectId] });
+    },
+    onError: (error) => {
+      toast.error('Failed to queue generation: ' + error.message);
+    },
+  });
+
+  return {
+    jobs,
+    activeJobs,
+    getActiveJob,
+    isLoading: jobsQuery.isLoading,
+    enqueueJobs,
+    refetch: jobsQuery.refetch,
+  };
+}
@@ -61,8 +61,9 @@ export function useProjects() {
       if (error) throw error;
       return data as Project;
     },
-    onSuccess: () => {
+    onSuccess: (project) => {
       queryClient.invalidateQueries({ queryKey: ['projects'] });
+      queryClient.invalidateQueries({ queryKey: ['project', project.id] });
     },
     onError: (error) => {
       toast.error('Failed to update project: ' + error.message);
@@ -0,0 +1,57 @@
+import { useGenerationJobs } from '@/hooks/useGenerationJobs';
+import { Project } from '@/lib/types';
+import { toast } from 'sonner';
+
+// 1-based and inclusive, matching the scene numbers shown in the editor
+export interface SceneRange {
+  start: number;
+  end: number;
+}
+
+const describeRange = ({ start, end }: SceneRange) => (start === end ? `Scene ${start}` : `Scenes ${start}-${end}`);
+
+/**
+ * Rewrites a run of scenes from the saved script with a queued job, leaving
+ * the scenes around it (and their images and audio) untouched. The
+ * replacement may have more or fewer scenes than the range; later scenes are
+ * renumbered to fit.
+ */
+export function useRewriteScenes(project: Project) {
+  const { activeJobs, enqueueJobs } = useGenerationJobs(project.id, {
+    onJobFinished: (job) => {
+      const range = job.payload.range as SceneRange | undefined;
+      if (job.job_type !== 'generate-scenes' || !range || job.status !== 'completed') return;
+      const count = job.scenes_generated;
+      toast.success(`${describeRange(range)} rewritten as ${count} scene${count !== 1 ? 's' : ''}`);
+    },
+  });
+  const activeJob = activeJobs.find((job) => job.job_type === 'generate-scenes' && job.payload.range);
+
+  const rewrite = async ({ start, end }: SceneRange) => {
+    if (!project.script_content?.trim()) {
+      toast.error('Save a script before rewriting scenes');
+      return false;
+    }
+
+    await enqueueJobs.mutateAsync([
+      {
+        job_type: 'generate-scenes',
+        script_content: project.script_content,
+        payload: {
+          language: project.language,
+          storyType: project.story_type,
+          tone: project.tone,
+          range: { start, end },
+        },
+      },
+    ]);
+    toast.info(`Rewriting ${describeRange({ start, end }).toLowerCase()}...`);
+    return true;
+  };
+
+  return {
+    rewrite,
+    isQueueing: enqueueJobs.isPending,
+    isRewriting: !!activeJob,
+  };
+}
@@ -0,0 +1,32 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { SceneAsset } from '@/lib/types';
+
+// Version history of a scene's images and voiceovers, newest first
+export function useSceneAssets(sceneId: string | undefined, enabled = true) {
+  const assetsQuery = useQuery({
+    queryKey: ['scene-assets', sceneId],
+    queryFn: async () => {
+      if (!sceneId) return [];
+
+      const { data, error } = await supabase
+        .from('scene_assets')
+        .select('*')
+        .eq('scene_id', sceneId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data as unknown as SceneAsset[];
+    },
+    enabled: !!sceneId && enabled,
+  });
+
+  const assets = assetsQuery.data ?? [];
+
+  return {
+    images: assets.filter((asset) => asset.asset_type === 'image'),
+    audio: assets.filter((asset) => asset.asset_type === 'audio'),
+    isLoading: assetsQuery.isLoading,
+    error: assetsQuery.error,
+  };
+}
@@ -0,0 +1,73 @@
+import { useMutation } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useGenerationJobs } from '@/hooks/useGenerationJobs';
+import { GenerationJob, Project, Scene } from '@/lib/types';
+import { toast } from 'sonner';
+
+// Full generations; range rewrites are generate-scenes jobs with a range
+const isFullGeneration = (job: GenerationJob) => job.job_type === 'generate-scenes' && !job.payload.range;
+
+/**
+ * Generates scenes from a script with a queued job. The job saves each scene
+ * as a draft as soon as the model finishes it, and the drafts replace the
+ * project's scenes once the set is complete. Cancelling stops the job at the
+ * next scene and keeps the scenes already written.
+ */
+export function useSceneGeneration(project: Project | undefined, draftScenes: Scene[]) {
+  const { activeJobs, enqueueJobs } = useGenerationJobs(project?.id, {
+    onJobFinished: (job) => {
+      if (!isFullGeneration(job)) return;
+      if (job.status === 'cancelled') {
+        toast.info(
+          draftScenes.length > 0
+            ? `Generation cancelled. The ${draftScenes.length} scene${draftScenes.length !== 1 ? 's' : ''} written so far replace the old ones.`
+            : 'Generation cancelled'
+        );
+      } else if (job.status === 'completed') {
+        toast.success(`${job.scenes_generated} scenes generated successfully!`);
+        const warnings = (job.result?.warnings as string[] | undefined) ?? [];
+        if (warnings.length > 0) {
+          toast.warning(`Check the scenes against your script: ${warnings.join('; ')}`);
+        }
+      }
+    },
+  });
+  const activeJob = activeJobs.find(isFullGeneration);
+
+  const start = async (script: string) => {
+    if (!project) return;
+    await enqueueJobs.mutateAsync([
+      {
+        job_type: 'generate-scenes',
+        script_content: script,
+        payload: {
+          language: project.language,
+          storyType: project.story_type,
+          tone: project.tone,
+        },
+      },
+    ]);
+  };
+
+  const cancel = useMutation({
+    mutationFn: async () => {
+      if (!activeJob) return;
+      const { error } = await supabase.rpc('cancel_generation_job', { p_job_id: activeJob.id });
+      if (error) throw error;
+    },
+    onError: (error) => {
+      toast.error('Failed to cancel generation: ' + error.message);
+    },
+  });
+
+  return {
+    isGenerating: !!activeJob || enqueueJobs.isPending,
+    progress: activeJob?.progress ?? 0,
+    writtenCount: draftScenes.length,
+    start,
+    cancel: () => cancel.mutate(),
+    isCancelling: cancel.isPending,
+  };
+}
+
+export type SceneGeneration = ReturnType<typeof useSceneGeneration>;
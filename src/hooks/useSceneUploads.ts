@@ -0,0 +1,121 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { Scene } from '@/lib/types';
+import { audioInputHash, imageInputHash } from '@/lib/assetInputs';
+import { getFileExtension, validateSceneAudio, validateSceneImage } from '@/lib/uploads';
+import { toast } from 'sonner';
+
+interface SceneUploadInput {
+  scene: Scene;
+  file: File;
+}
+
+// Files live under the user's folder, which the project-assets storage policies require
+async function uploadSceneFile(userId: string, scene: Scene, file: File, fallbackExtension: string) {
+  const path = `${userId}/scenes/${scene.id}/${Date.now()}.${getFileExtension(file, fallbackExtension)}`;
+  const { error } = await supabase.storage
+    .from('project-assets')
+    .upload(path, file, { contentType: file.type });
+  if (error) throw error;
+
+  return supabase.storage.from('project-assets').getPublicUrl(path).data.publicUrl;
+}
+
+export function useSceneUploads(projectId: string | undefined) {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  const onSuccess = (_: unknown, { scene }: SceneUploadInput) => {
+    queryClient.invalidateQueries({ queryKey: ['scenes', projectId] });
+    queryClient.invalidateQueries({ queryKey: ['scene-assets', scene.id] });
+  };
+
+  const uploadImage = useMutation({
+    mutationFn: async ({ scene, file }: SceneUploadInput) => {
+      if (!user) throw new Error('Not authenticated');
+
+      const validation = await validateSceneImage(file);
+      if (validation.valid === false) throw new Error(validation.error);
+
+      const url = await uploadSceneFile(user.id, scene, file, 'png');
+      // An upload is taken to match the scene as it reads now
+      const inputHash = imageInputHash(scene);
+
+      const { error: assetError } = await supabase.from('scene_assets').insert({
+        scene_id: scene.id,
+        asset_type: 'image',
+        url,
+        source: 'uploaded',
+        metadata: { width: validation.info.width, height: validation.info.height, input_hash: inputHash },
+      });
+      if (assetError) throw assetError;
+
+      const { error } = await supabase
+        .from('scenes')
+        .update({
+          image_url: url,
+          image_status: 'completed',
+          image_source: 'uploaded',
+          image_input_hash: inputHash,
+          reframed_image_url: null,
+          reframed_image_status: 'pending',
+        })
+        .eq('id', scene.id);
+      if (error) throw error;
+    },
+    onSuccess: (data, input) => {
+      onSuccess(data, input);
+      toast.success('Image uploaded');
+    },
+    onError: (error) => {
+      toast.error('Failed to upload image: ' + error.message);
+    },
+  });
+
+  const uploadAudio = useMutation({
+    mutationFn: async ({ scene, file }: SceneUploadInput) => {
+      if (!user) throw new Error('Not authenticated');
+
+      const validation = await validateSceneAudio(file);
+      if (validation.valid === false) throw new Error(validation.error);
+
+      const url = await uploadSceneFile(user.id, scene, file, 'mp3');
+      const { durationMs } = validation.info;
+      const inputHash = audioInputHash(scene);
+
+      const { error: assetError } = await supabase.from('scene_assets').insert({
+        scene_id: scene.id,
+        asset_type: 'audio',
+        url,
+        source: 'uploaded',
+        metadata: { duration_ms: durationMs, input_hash: inputHash },
+      });
+      if (assetError) throw assetError;
+
+      // Recorded narration has no word alignment, so captions fall back to proportional timing
+      const { error } = await supabase
+        .from('scenes')
+        .update({
+          audio_url: url,
+          audio_status: 'completed',
+          audio_source: 'uploaded',
+          audio_input_hash: inputHash,
+          audio_duration_ms: durationMs,
+          actual_duration: Math.round(durationMs / 10) / 100,
+          word_timings: null,
+        })
+        .eq('id', scene.id);
+      if (error) throw error;
+    },
+    onSuccess: (data, input) => {
+      onSuccess(data, input);
+      toast.success('Narration uploaded');
+    },
+    onError: (error) => {
+      toast.error('Failed to upload narration: ' + error.message);
+    },
+  });
+
+  return { uploadImage, uploadAudio };
+}
@@ -1,5 +1,7 @@
+import { useMemo } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
+import { Json } from '@/integrations/supabase/types';
 import { Scene, CreateSceneInput, UpdateSceneInput } from '@/lib/types';
 import { toast } from 'sonner';
 
@@ -18,7 +20,7 @@ export function useScenes(projectId: string | undefined) {
         .order('scene_order', { ascending: true });
 
       if (error) throw error;
-      return data as Scene[];
+      return data as unknown as Scene[];
     },
     enabled: !!projectId,
   });
@@ -32,7 +34,7 @@ export function useScenes(projectId: string | undefined) {
         .single();
 
       if (error) throw error;
-      return data as Scene;
+      return data as unknown as Scene;
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['scenes', projectId] });
@@ -50,7 +52,7 @@ export function useScenes(projectId: string | undefined) {
         .select();
 
       if (error) throw error;
-      return data as Scene[];
+      return data as unknown as Scene[];
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['scenes', projectId] });
@@ -62,16 +64,20 @@ export function useScenes(projectId: string | undefined) {
   });
 
   const updateScene = useMutation({
-    mutationFn: async ({ id, ...input }: UpdateSceneInput & { id: string }) => {
+    mutationFn: async ({ id, word_timings, narration_segments, ...input }: UpdateSceneInput & { id: string }) => {
       const { data, error } = await supabase
         .from('scenes')
-        .update(input)
+        .update({
+          ...input,
+          word_timings: word_timings as unknown as Json,
+          narration_segments: narration_segments as unknown as Json,
+        })
         .eq('id', id)
         .select()
         .single();
 
       if (error) throw error;
-      return data as Scene;
+      return data as unknown as Scene;
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['scenes', projectId] });
@@ -110,6 +116,44 @@ export function useScenes(projectId: string | undefined) {
     },
   });
 
+  // Narration synced from an edited script; the voiceover no longer matches it and is redone
+  const updateNarrations = useMutation({
+    // A null narration_text keeps the scene's narration and only moves its passage on
+    mutationFn: async (
+      updates: { id: string; script_passage: string; narration_text: string | null; redoImage: boolean }[]
+    ) => {
+      const results = await Promise.all(
+        updates.map(({ id, script_passage, narration_text, redoImage }) =>
+          supabase
+            .from('scenes')
+            .update(
+              narration_text === null
+                ? { script_passage }
+                : {
+                    script_passage,
+                    narration_text,
+                    narration_segments: null,
+                    word_timings: null,
+                    audio_status: 'pending',
+                    ...(redoImage && { image_status: 'pending' }),
+                  }
+            )
+            .eq('id', id)
+        )
+      );
+      const failed = results.find((result) => result.error);
+      if (failed?.error) throw failed.error;
+    },
+    onSuccess: (_, updates) => {
+      queryClient.invalidateQueries({ queryKey: ['scenes', projectId] });
+      toast.success(`Updated ${updates.length} scene${updates.length !== 1 ? 's' : ''} from the script`);
+    },
+    onError: (error) => {
+      queryClient.invalidateQueries({ queryKey: ['scenes', projectId] });
+      toast.error('Failed to update scenes: ' + error.message);
+    },
+  });
+
   const deleteAllScenes = useMutation({
     mutationFn: async () => {
       if (!projectId) throw new Error('No project ID');
@@ -124,8 +168,16 @@ export function useScenes(projectId: string | undefined) {
     },
   });
 
+  // Drafts are written by a scene generation still running and replace the
+  // scenes once it finishes; they are shown apart and never edited
+  const [scenes, draftScenes] = useMemo(() => {
+    const rows = scenesQuery.data ?? [];
+    return [rows.filter((scene) => !scene.generation_job_id), rows.filter((scene) => scene.generation_job_id)];
+  }, [scenesQuery.data]);
+
   return {
-    scenes: scenesQuery.data ?? [],
+    scenes,
+    draftScenes,
     isLoading: scenesQuery.isLoading,
     error: scenesQuery.error,
     createScene,
@@ -133,6 +185,7 @@ export function useScenes(projectId: string | undefined) {
     updateScene,
     deleteScene,
     reorderScenes,
+    updateNarrations,
     deleteAllScenes,
     refetch: scenesQuery.refetch,
   };
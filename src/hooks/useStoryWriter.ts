@@ -0,0 +1,44 @@
+import { useMutation } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Project, StoryBrief, StoryVariation } from '@/lib/types';
+import { toast } from 'sonner';
+
+interface StoryRevision {
+  variation: StoryVariation;
+  // Required for a custom variation, e.g. "set it in a snowy village"
+  instruction?: string;
+  draft: string;
+}
+
+type WriteStoryInput = StoryBrief & { revision?: StoryRevision };
+
+/**
+ * Drafts a script from a story brief, or revises a draft with a variation.
+ * Nothing is saved; the caller decides whether to use the result.
+ */
+export function useStoryWriter(project: Project) {
+  return useMutation({
+    mutationFn: async ({ revision, ...brief }: WriteStoryInput) => {
+      const response = await supabase.functions.invoke('write-story', {
+        body: {
+          projectId: project.id,
+          ...brief,
+          ...(revision && {
+            variation: revision.variation,
+            instruction: revision.instruction,
+            draft: revision.draft,
+          }),
+        },
+      });
+
+      if (response.error) {
+        throw new Error(response.error.message || 'Failed to write the story');
+      }
+
+      return (response.data as { script: string }).script;
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to write the story');
+    },
+  });
+}
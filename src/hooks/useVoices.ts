@@ -0,0 +1,37 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { StoryLanguage, TtsProviderName, Voice } from '@/lib/types';
+
+export const VOICE_SAMPLES_BUCKET = 'voice-samples';
+
+// Catalogue entries store either a full URL or a path in the samples bucket
+export function getVoiceSampleUrl(voice: Voice): string | null {
+  if (!voice.sample_url) return null;
+  if (/^https?:\/\//.test(voice.sample_url)) return voice.sample_url;
+  return supabase.storage.from(VOICE_SAMPLES_BUCKET).getPublicUrl(voice.sample_url).data.publicUrl;
+}
+
+export function useVoices(language: StoryLanguage, provider: TtsProviderName = 'elevenlabs') {
+  const voicesQuery = useQuery({
+    queryKey: ['voices', language, provider],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('voices')
+        .select('*')
+        .eq('language', language)
+        .eq('provider', provider)
+        .eq('is_active', true)
+        .order('voice_type')
+        .order('sort_order');
+
+      if (error) throw error;
+      return data as unknown as Voice[];
+    },
+    staleTime: 60 * 60 * 1000,
+  });
+
+  return {
+    voices: voicesQuery.data ?? [],
+    isLoading: voicesQuery.isLoading,
+  };
+}
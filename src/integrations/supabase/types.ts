@@ -14,6 +14,27 @@ export type Database = {
   }
   public: {
     Tables: {
+      ai_model_settings: {
+        Row: {
+          feature: string
+          model_id: string
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          feature: string
+          model_id: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          feature?: string
+          model_id?: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: []
+      }
       api_usage_logs: {
         Row: {
           api_calls: number | null
@@ -89,20 +110,138 @@ export type Database = {
           },
         ]
       }
+      characters: {
+        Row: {
+          created_at: string
+          description: string
+          id: string
+          name: string
+          project_id: string
+          reference_image_url: string | null
+          style_token: string | null
+          updated_at: string
+          voice_id: string | null
+          voice_type: Database["public"]["Enums"]["voice_type"] | null
+        }
+        Insert: {
+          created_at?: string
+          description?: string
+          id?: string
+          name: string
+          project_id: string
+          reference_image_url?: string | null
+          style_token?: string | null
+          updated_at?: string
+          voice_id?: string | null
+          voice_type?: Database["public"]["Enums"]["voice_type"] | null
+        }
+        Update: {
+          created_at?: string
+          description?: string
+          id?: string
+          name?: string
+          project_id?: string
+          reference_image_url?: string | null
+          style_token?: string | null
+          updated_at?: string
+          voice_id?: string | null
+          voice_type?: Database["public"]["Enums"]["voice_type"] | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "characters_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "characters_voice_id_fkey"
+            columns: ["voice_id"]
+            isOneToOne: false
+            referencedRelation: "voices"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      credit_ledger: {
+        Row: {
+          amount: number
+          balance_after: number
+          created_at: string
+          feature: string
+          id: string
+          metadata: Json | null
+          project_id: string | null
+          reason: string | null
+          scene_id: string | null
+          status: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          balance_after: number
+          created_at?: string
+          feature: string
+          id?: string
+          metadata?: Json | null
+          project_id?: string | null
+          reason?: string | null
+          scene_id?: string | null
+          status?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          balance_after?: number
+          created_at?: string
+          feature?: string
+          id?: string
+          metadata?: Json | null
+          project_id?: string | null
+          reason?: string | null
+          scene_id?: string | null
+          status?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "credit_ledger_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "credit_ledger_scene_id_fkey"
+            columns: ["scene_id"]
+            isOneToOne: false
+            referencedRelation: "scenes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       generation_jobs: {
         Row: {
           completed_at: string | null
           created_at: string
           error_message: string | null
           id: string
+          job_type: string
           max_retries: number
+          payload: Json
           progress: number
           project_id: string
+          result: Json | null
           retry_count: number
+          scene_id: string | null
           scenes_generated: number
           scheduled_at: string
-          script_content: string
-          script_hash: string
+          script_content: string | null
+          script_hash: string | null
           started_at: string | null
           status: string
           updated_at: string
@@ -113,14 +252,18 @@ export type Database = {
           created_at?: string
           error_message?: string | null
           id?: string
+          job_type?: string
           max_retries?: number
+          payload?: Json
           progress?: number
           project_id: string
+          result?: Json | null
           retry_count?: number
+          scene_id?: string | null
           scenes_generated?: number
           scheduled_at?: string
-          script_content: string
-          script_hash: string
+          script_content?: string | null
+          script_hash?: string | null
           started_at?: string | null
           status?: string
           updated_at?: string
@@ -131,14 +274,18 @@ export type Database = {
           created_at?: string
           error_message?: string | null
           id?: string
+          job_type?: string
           max_retries?: number
+          payload?: Json
           progress?: number
           project_id?: string
+          result?: Json | null
           retry_count?: number
+          scene_id?: string | null
           scenes_generated?: number
           scheduled_at?: string
-          script_content?: string
-          script_hash?: string
+          script_content?: string | null
+          script_hash?: string | null
           started_at?: string | null
           status?: string
           updated_at?: string
@@ -152,6 +299,13 @@ export type Database = {
             referencedRelation: "projects"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "generation_jobs_scene_id_fkey"
+            columns: ["scene_id"]
+            isOneToOne: false
+            referencedRelation: "scenes"
+            referencedColumns: ["id"]
+          },
         ]
       }
       payment_audit_logs: {
@@ -351,15 +505,25 @@ export type Database = {
           exported_video_url: string | null
           id: string
           language: Database["public"]["Enums"]["story_language"]
+          music_fade_in_ms: number
+          music_fade_out_ms: number
+          music_source: string | null
+          music_track_id: string | null
+          music_url: string | null
+          music_volume: number
           script_content: string | null
           status: Database["public"]["Enums"]["project_status"]
           story_type: Database["public"]["Enums"]["story_type"]
           thumbnail_url: string | null
           title: string
           tone: Database["public"]["Enums"]["story_tone"]
+          tts_provider: string | null
           updated_at: string
           user_id: string
           visual_style: Database["public"]["Enums"]["visual_style"]
+          voice_id: string | null
+          voice_stability: number | null
+          voice_style: number | null
           voice_type: Database["public"]["Enums"]["voice_type"]
         }
         Insert: {
@@ -368,15 +532,25 @@ export type Database = {
           exported_video_url?: string | null
           id?: string
           language?: Database["public"]["Enums"]["story_language"]
+          music_fade_in_ms?: number
+          music_fade_out_ms?: number
+          music_source?: string | null
+          music_track_id?: string | null
+          music_url?: string | null
+          music_volume?: number
           script_content?: string | null
           status?: Database["public"]["Enums"]["project_status"]
           story_type?: Database["public"]["Enums"]["story_type"]
           thumbnail_url?: string | null
           title: string
           tone?: Database["public"]["Enums"]["story_tone"]
+          tts_provider?: string | null
           updated_at?: string
           user_id: string
           visual_style?: Database["public"]["Enums"]["visual_style"]
+          voice_id?: string | null
+          voice_stability?: number | null
+          voice_style?: number | null
           voice_type?: Database["public"]["Enums"]["voice_type"]
         }
         Update: {
@@ -385,72 +559,187 @@ export type Database = {
           exported_video_url?: string | null
           id?: string
           language?: Database["public"]["Enums"]["story_language"]
+          music_fade_in_ms?: number
+          music_fade_out_ms?: number
+          music_source?: string | null
+          music_track_id?: string | null
+          music_url?: string | null
+          music_volume?: number
           script_content?: string | null
           status?: Database["public"]["Enums"]["project_status"]
           story_type?: Database["public"]["Enums"]["story_type"]
           thumbnail_url?: string | null
           title?: string
           tone?: Database["public"]["Enums"]["story_tone"]
+          tts_provider?: string | null
           updated_at?: string
           user_id?: string
           visual_style?: Database["public"]["Enums"]["visual_style"]
+          voice_id?: string | null
+          voice_stability?: number | null
+          voice_style?: number | null
           voice_type?: Database["public"]["Enums"]["voice_type"]
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "projects_voice_id_fkey"
+            columns: ["voice_id"]
+            isOneToOne: false
+            referencedRelation: "voices"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      scene_assets: {
+        Row: {
+          asset_type: string
+          created_at: string
+          id: string
+          job_id: string | null
+          metadata: Json
+          scene_id: string
+          source: string
+          url: string
+        }
+        Insert: {
+          asset_type: string
+          created_at?: string
+          id?: string
+          job_id?: string | null
+          metadata?: Json
+          scene_id: string
+          source?: string
+          url: string
+        }
+        Update: {
+          asset_type?: string
+          created_at?: string
+          id?: string
+          job_id?: string | null
+          metadata?: Json
+          scene_id?: string
+          source?: string
+          url?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "scene_assets_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "generation_jobs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "scene_assets_scene_id_fkey"
+            columns: ["scene_id"]
+            isOneToOne: false
+            referencedRelation: "scenes"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       scenes: {
         Row: {
           actual_duration: number | null
+          audio_duration_ms: number | null
+          audio_input_hash: string | null
+          audio_source: string
           audio_status: Database["public"]["Enums"]["scene_status"]
           audio_url: string | null
+          character_ids: string[]
           created_at: string
           estimated_duration: number | null
+          generation_job_id: string | null
           id: string
+          image_input_hash: string | null
+          image_source: string
           image_status: Database["public"]["Enums"]["scene_status"]
           image_url: string | null
           mood: string | null
+          motion: Database["public"]["Enums"]["scene_motion"]
+          narration_segments: Json | null
           narration_text: string
           project_id: string
+          reframed_image_status: Database["public"]["Enums"]["scene_status"]
+          reframed_image_url: string | null
           scene_order: number
+          script_passage: string | null
           title: string
+          transition: Database["public"]["Enums"]["scene_transition"]
           updated_at: string
           visual_description: string | null
+          word_timings: Json | null
         }
         Insert: {
           actual_duration?: number | null
+          audio_duration_ms?: number | null
+          audio_input_hash?: string | null
+          audio_source?: string
           audio_status?: Database["public"]["Enums"]["scene_status"]
           audio_url?: string | null
+          character_ids?: string[]
           created_at?: string
           estimated_duration?: number | null
+          generation_job_id?: string | null
           id?: string
+          image_input_hash?: string | null
+          image_source?: string
           image_status?: Database["public"]["Enums"]["scene_status"]
           image_url?: string | null
           mood?: string | null
+          motion?: Database["public"]["Enums"]["scene_motion"]
+          narration_segments?: Json | null
           narration_text: string
           project_id: string
+          reframed_image_status?: Database["public"]["Enums"]["scene_status"]
+          reframed_image_url?: string | null
           scene_order: number
+          script_passage?: string | null
           title: string
+          transition?: Database["public"]["Enums"]["scene_transition"]
           updated_at?: string
           visual_description?: string | null
+          word_timings?: Json | null
         }
         Update: {
           actual_duration?: number | null
+          audio_duration_ms?: number | null
+          audio_input_hash?: string | null
+          audio_source?: string
           audio_status?: Database["public"]["Enums"]["scene_status"]
           audio_url?: string | null
+          character_ids?: string[]
           created_at?: string
           estimated_duration?: number | null
+          generation_job_id?: string | null
           id?: string
+          image_input_hash?: string | null
+          image_source?: string
           image_status?: Database["public"]["Enums"]["scene_status"]
           image_url?: string | null
           mood?: string | null
+          motion?: Database["public"]["Enums"]["scene_motion"]
+          narration_segments?: Json | null
           narration_text?: string
           project_id?: string
+          reframed_image_status?: Database["public"]["Enums"]["scene_status"]
+          reframed_image_url?: string | null
           scene_order?: number
+          script_passage?: string | null
           title?: string
+          transition?: Database["public"]["Enums"]["scene_transition"]
           updated_at?: string
           visual_description?: string | null
+          word_timings?: Json | null
         }
         Relationships: [
+          {
+            foreignKeyName: "scenes_generation_job_id_fkey"
+            columns: ["generation_job_id"]
+            isOneToOne: false
+            referencedRelation: "generation_jobs"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "scenes_project_id_fkey"
             columns: ["project_id"]
@@ -576,6 +865,7 @@ export type Database = {
       user_rate_limits: {
         Row: {
           created_at: string
+          feature: string
           id: string
           request_count: number
           updated_at: string
@@ -584,6 +874,7 @@ export type Database = {
         }
         Insert: {
           created_at?: string
+          feature?: string
           id?: string
           request_count?: number
           updated_at?: string
@@ -592,6 +883,7 @@ export type Database = {
         }
         Update: {
           created_at?: string
+          feature?: string
           id?: string
           request_count?: number
           updated_at?: string
@@ -621,6 +913,51 @@ export type Database = {
         }
         Relationships: []
       }
+      voices: {
+        Row: {
+          created_at: string
+          description: string
+          id: string
+          is_active: boolean
+          language: Database["public"]["Enums"]["story_language"]
+          name: string
+          provider: string
+          provider_voice_id: string
+          sample_url: string | null
+          sort_order: number
+          voice_settings: Json
+          voice_type: Database["public"]["Enums"]["voice_type"]
+        }
+        Insert: {
+          created_at?: string
+          description?: string
+          id?: string
+          is_active?: boolean
+          language: Database["public"]["Enums"]["story_language"]
+          name: string
+          provider?: string
+          provider_voice_id: string
+          sample_url?: string | null
+          sort_order?: number
+          voice_settings?: Json
+          voice_type: Database["public"]["Enums"]["voice_type"]
+        }
+        Update: {
+          created_at?: string
+          description?: string
+          id?: string
+          is_active?: boolean
+          language?: Database["public"]["Enums"]["story_language"]
+          name?: string
+          provider?: string
+          provider_voice_id?: string
+          sample_url?: string | null
+          sort_order?: number
+          voice_settings?: Json
+          voice_type?: Database["public"]["Enums"]["voice_type"]
+        }
+        Relationships: []
+      }
     }
     Views: {
       daily_cost_summary: {
@@ -682,14 +1019,65 @@ export type Database = {
       }
     }
     Functions: {
+      cancel_generation_job: { Args: { p_job_id: string }; Returns: boolean }
       check_rate_limit: {
         Args: {
+          p_feature?: string
           p_max_requests?: number
           p_user_id: string
           p_window_minutes?: number
         }
         Returns: boolean
       }
+      claim_generation_jobs: {
+        Args: { p_job_types?: string[]; p_limit?: number; p_user_id?: string }
+        Returns: {
+            completed_at: string | null
+            created_at: string
+            error_message: string | null
+            id: string
+            job_type: string
+            max_retries: number
+            payload: Json
+            progress: number
+            project_id: string
+            result: Json | null
+            retry_count: number
+            scene_id: string | null
+            scenes_generated: number
+            scheduled_at: string
+            script_content: string | null
+            script_hash: string | null
+            started_at: string | null
+            status: string
+            updated_at: string
+            user_id: string
+        }[]
+        SetofOptions: {
+          from: "*"
+          to: "generation_jobs"
+          isOneToOne: false
+          isSetofReturn: true
+        }
+      }
+      commit_credits: { Args: { p_ledger_id: string }; Returns: boolean }
+      complete_generation_job: {
+        Args: {
+          p_job_id: string
+          p_result?: Json
+          p_scenes_generated?: number
+        }
+        Returns: boolean
+      }
+      fail_generation_job: {
+        Args: {
+          p_error: string
+          p_job_id: string
+          p_retry_after_seconds?: number
+          p_retryable?: boolean
+        }
+        Returns: string
+      }
       generate_transaction_hash: {
         Args: {
           p_amount: number
@@ -782,11 +1170,36 @@ export type Database = {
         Returns: boolean
       }
       mark_job_as_stale: { Args: { p_job_id: string }; Returns: boolean }
+      publish_generated_scenes: { Args: { p_job_id: string }; Returns: number }
+      recover_stale_jobs: {
+        Args: { p_timeout_minutes?: number }
+        Returns: number
+      }
+      refund_credits: {
+        Args: { p_ledger_id: string; p_reason?: string }
+        Returns: boolean
+      }
+      reserve_credits: {
+        Args: {
+          p_amount: number
+          p_feature: string
+          p_metadata?: Json
+          p_project_id?: string
+          p_scene_id?: string
+          p_user_id: string
+        }
+        Returns: {
+          balance: number
+          ledger_id: string
+        }[]
+      }
     }
     Enums: {
       app_role: "admin" | "user"
       project_status: "draft" | "processing" | "ready" | "exported"
+      scene_motion: "none" | "zoom-in" | "zoom-out" | "pan-left" | "pan-right"
       scene_status: "pending" | "generating" | "completed" | "failed"
+      scene_transition: "cut" | "crossfade" | "dip-to-black"
       story_language: "hindi" | "hinglish" | "english"
       story_tone: "calm" | "emotional" | "dramatic"
       story_type: "kids" | "bedtime" | "moral"
@@ -922,7 +1335,9 @@ export const Constants = {
     Enums: {
       app_role: ["admin", "user"],
       project_status: ["draft", "processing", "ready", "exported"],
+      scene_motion: ["none", "zoom-in", "zoom-out", "pan-left", "pan-right"],
       scene_status: ["pending", "generating", "completed", "failed"],
+      scene_transition: ["cut", "crossfade", "dip-to-black"],
       story_language: ["hindi", "hinglish", "english"],
       story_tone: ["calm", "emotional", "dramatic"],
       story_type: ["kids", "bedtime", "moral"],
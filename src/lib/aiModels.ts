@@ -0,0 +1,59 @@
+/**
+ * AI Models
+ *
+ * The models an admin can choose per AI feature, mirroring the registry in
+ * supabase/functions/_shared/ai.ts (which also holds the pricing used for
+ * cost logging). The mock models are left out: they are switched on for
+ * local runs with AI_PROVIDER=mock, not from the admin panel.
+ */
+
+export type AiFeature = 'generate-scenes' | 'generate-image' | 'write-story';
+export type AiModelCapability = 'text' | 'image';
+
+export interface AiModelOption {
+  id: string;
+  label: string;
+  capability: AiModelCapability;
+  // USD, shown to help weigh quality against cost
+  price: string;
+}
+
+export interface AiFeatureOption {
+  feature: AiFeature;
+  label: string;
+  description: string;
+  capability: AiModelCapability;
+  defaultModel: string;
+}
+
+export const AI_MODEL_OPTIONS: AiModelOption[] = [
+  { id: 'google/gemini-2.5-flash', label: 'Gemini 2.5 Flash', capability: 'text', price: '$0.35 / $1.05 per 1M tokens' },
+  { id: 'google/gemini-2.5-flash-lite', label: 'Gemini 2.5 Flash Lite', capability: 'text', price: '$0.10 / $0.40 per 1M tokens' },
+  { id: 'google/gemini-2.5-pro', label: 'Gemini 2.5 Pro', capability: 'text', price: '$1.25 / $10 per 1M tokens' },
+  { id: 'openai/gpt-5-mini', label: 'GPT-5 Mini', capability: 'text', price: '$0.25 / $2 per 1M tokens' },
+  { id: 'google/gemini-2.5-flash-image-preview', label: 'Gemini 2.5 Flash Image', capability: 'image', price: '$0.04 per image' },
+];
+
+export const AI_FEATURES: AiFeatureOption[] = [
+  {
+    feature: 'generate-scenes',
+    label: 'Scene generation',
+    description: 'Splits scripts into scenes, characters and dialogue',
+    capability: 'text',
+    defaultModel: 'google/gemini-2.5-flash',
+  },
+  {
+    feature: 'generate-image',
+    label: 'Scene images',
+    description: 'Draws and reframes scene illustrations',
+    capability: 'image',
+    defaultModel: 'google/gemini-2.5-flash-image-preview',
+  },
+  {
+    feature: 'write-story',
+    label: 'Story writer',
+    description: 'Drafts and revises scripts from a premise',
+    capability: 'text',
+    defaultModel: 'google/gemini-2.5-flash',
+  },
+];
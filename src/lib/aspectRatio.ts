@@ -0,0 +1,16 @@
+import { Scene } from './types';
+
+export type AspectRatio = '16:9' | '9:16';
+
+// Reframing always targets the orientation the project wasn't drawn in
+export function getReframeAspectRatio(projectAspectRatio: string): AspectRatio {
+  return projectAspectRatio === '9:16' ? '16:9' : '9:16';
+}
+
+// Image to render for an export, falling back to the original (cropped to fit) until a reframe exists
+export function getSceneImageUrl(scene: Scene, projectAspectRatio: string, exportAspectRatio: AspectRatio): string | null {
+  if (exportAspectRatio !== projectAspectRatio && scene.reframed_image_url) {
+    return scene.reframed_image_url;
+  }
+  return scene.image_url;
+}
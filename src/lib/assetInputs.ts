@@ -0,0 +1,49 @@
+/**
+ * Asset Input Hashes
+ *
+ * A scene's image and voiceover each record a hash of the text they were
+ * made from, so editing that text afterwards flags the asset as outdated.
+ * process-jobs hashes generated assets with a mirror of these functions;
+ * change both together, or every existing asset will read as outdated.
+ */
+
+interface SceneText {
+  narration_text: string;
+  visual_description: string | null;
+}
+
+interface SceneAssetHashes extends SceneText {
+  image_url: string | null;
+  image_input_hash: string | null;
+  audio_url: string | null;
+  audio_input_hash: string | null;
+}
+
+// FNV-1a over the whitespace-collapsed text; only compared, never trusted
+export function hashAssetInput(text: string): string {
+  const normalized = text.replace(/\s+/g, ' ').trim();
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < normalized.length; i++) {
+    hash ^= normalized.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+// The image prompt falls back to the narration when there is no description
+export function imageInputHash(scene: SceneText): string {
+  return hashAssetInput(scene.visual_description || scene.narration_text);
+}
+
+export function audioInputHash(scene: SceneText): string {
+  return hashAssetInput(scene.narration_text);
+}
+
+// Assets made before hashes were recorded have none and are never flagged
+export function isImageOutdated(scene: SceneAssetHashes): boolean {
+  return !!scene.image_url && !!scene.image_input_hash && scene.image_input_hash !== imageInputHash(scene);
+}
+
+export function isAudioOutdated(scene: SceneAssetHashes): boolean {
+  return !!scene.audio_url && !!scene.audio_input_hash && scene.audio_input_hash !== audioInputHash(scene);
+}
@@ -0,0 +1,93 @@
+/**
+ * Scene Motion & Transitions
+ *
+ * Ken Burns presets and scene transitions shared by the in-browser
+ * VideoDownloader and the ffmpeg render worker, so both renderers produce the
+ * same movement and timing. workers/render-video imports this file directly
+ * under Deno, so it must stay free of imports.
+ */
+
+export type SceneMotion = 'none' | 'zoom-in' | 'zoom-out' | 'pan-left' | 'pan-right';
+export type SceneTransition = 'cut' | 'crossfade' | 'dip-to-black';
+
+export const SCENE_MOTIONS: SceneMotion[] = ['none', 'zoom-in', 'zoom-out', 'pan-left', 'pan-right'];
+export const SCENE_TRANSITIONS: SceneTransition[] = ['cut', 'crossfade', 'dip-to-black'];
+
+export const MOTION_LABELS: Record<SceneMotion, string> = {
+  'none': 'Still',
+  'zoom-in': 'Zoom in',
+  'zoom-out': 'Zoom out',
+  'pan-left': 'Pan left',
+  'pan-right': 'Pan right',
+};
+
+export const TRANSITION_LABELS: Record<SceneTransition, string> = {
+  'cut': 'Cut',
+  'crossfade': 'Crossfade',
+  'dip-to-black': 'Dip to black',
+};
+
+// Largest zoom reached by zoom and pan presets
+export const MOTION_ZOOM = 1.15;
+
+// Length of a crossfade; a dip to black spends half fading out and half fading in
+export const TRANSITION_MS = 600;
+
+/**
+ * Visible part of the cover-fitted image. scale is the zoom factor; x and y
+ * are the window's top-left corner as fractions of the frame size, so the
+ * window spans x..x + 1/scale horizontally.
+ */
+export interface MotionWindow {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+// progress runs linearly from 0 at the start of the scene to 1 at its end
+export function getMotionWindow(motion: SceneMotion, progress: number): MotionWindow {
+  const p = Math.min(1, Math.max(0, progress));
+  const panRange = 1 - 1 / MOTION_ZOOM;
+
+  switch (motion) {
+    case 'zoom-in':
+    case 'zoom-out': {
+      const scale = motion === 'zoom-in' ? 1 + (MOTION_ZOOM - 1) * p : MOTION_ZOOM - (MOTION_ZOOM - 1) * p;
+      const offset = (1 - 1 / scale) / 2;
+      return { scale, x: offset, y: offset };
+    }
+    case 'pan-left':
+      return { scale: MOTION_ZOOM, x: panRange * (1 - p), y: panRange / 2 };
+    case 'pan-right':
+      return { scale: MOTION_ZOOM, x: panRange * p, y: panRange / 2 };
+    default:
+      return { scale: 1, x: 0, y: 0 };
+  }
+}
+
+// The first scene has nothing to transition from, so it always starts with a cut
+export function getIncomingTransition(transition: SceneTransition, sceneIndex: number): SceneTransition {
+  return sceneIndex === 0 ? 'cut' : transition;
+}
+
+/**
+ * Opacity of black drawn over a scene at elapsedMs. A dip to black fades the
+ * outgoing scene out over its last half-transition and the incoming scene in
+ * over its first half-transition.
+ */
+export function getDipToBlackOpacity(
+  elapsedMs: number,
+  durationMs: number,
+  dipIn: boolean,
+  dipOut: boolean
+): number {
+  const half = TRANSITION_MS / 2;
+  if (dipIn && elapsedMs < half) return 1 - elapsedMs / half;
+  if (dipOut && elapsedMs > durationMs - half) return Math.min(1, (elapsedMs - (durationMs - half)) / half);
+  return 0;
+}
+
+// Opacity of the incoming scene over the outgoing scene's last frame
+export function getCrossfadeOpacity(elapsedMs: number): number {
+  return Math.min(1, Math.max(0, elapsedMs / TRANSITION_MS));
+}
@@ -0,0 +1,61 @@
+/**
+ * Background Music
+ *
+ * The bundled music library and the mix settings shared by the in-browser
+ * VideoDownloader and the ffmpeg render worker, so both duck and fade the
+ * music the same way. workers/render-video imports this file directly under
+ * Deno, so it must stay free of imports.
+ */
+
+export type MusicSource = 'library' | 'upload';
+
+export interface MusicTrack {
+  id: string;
+  title: string;
+  tone: 'calm' | 'emotional' | 'dramatic';
+  moods: string[];
+  // Path in the public music-library storage bucket
+  path: string;
+}
+
+export const MUSIC_LIBRARY_BUCKET = 'music-library';
+
+export const MUSIC_LIBRARY: MusicTrack[] = [
+  { id: 'calm-lullaby-piano', title: 'Lullaby Piano', tone: 'calm', moods: ['calm', 'sad'], path: 'calm/lullaby-piano.mp3' },
+  { id: 'calm-morning-meadow', title: 'Morning Meadow', tone: 'calm', moods: ['happy', 'calm'], path: 'calm/morning-meadow.mp3' },
+  { id: 'emotional-gentle-strings', title: 'Gentle Strings', tone: 'emotional', moods: ['sad', 'calm'], path: 'emotional/gentle-strings.mp3' },
+  { id: 'emotional-hopeful-rise', title: 'Hopeful Rise', tone: 'emotional', moods: ['happy', 'exciting'], path: 'emotional/hopeful-rise.mp3' },
+  { id: 'dramatic-jungle-adventure', title: 'Jungle Adventure', tone: 'dramatic', moods: ['exciting', 'happy'], path: 'dramatic/jungle-adventure.mp3' },
+  { id: 'dramatic-mystery-pulse', title: 'Mystery Pulse', tone: 'dramatic', moods: ['tense', 'sad'], path: 'dramatic/mystery-pulse.mp3' },
+];
+
+export const DEFAULT_MUSIC_VOLUME = 0.3;
+export const DEFAULT_MUSIC_FADE_IN_MS = 2000;
+export const DEFAULT_MUSIC_FADE_OUT_MS = 3000;
+
+// Music drops to this share of its volume while narration plays
+export const MUSIC_DUCK_LEVEL = 0.3;
+export const MUSIC_DUCK_ATTACK_MS = 150;
+export const MUSIC_DUCK_RELEASE_MS = 400;
+
+// Picks the tone's track that best fits the most common scene mood
+export function pickLibraryTrack(tone: string, moods: (string | null)[]): MusicTrack {
+  const counts = new Map<string, number>();
+  for (const mood of moods) {
+    if (mood) counts.set(mood, (counts.get(mood) ?? 0) + 1);
+  }
+
+  const toneTracks = MUSIC_LIBRARY.filter((track) => track.tone === tone);
+  const candidates = toneTracks.length > 0 ? toneTracks : MUSIC_LIBRARY;
+  const score = (track: MusicTrack) => track.moods.reduce((sum, mood) => sum + (counts.get(mood) ?? 0), 0);
+
+  return candidates.reduce((best, track) => (score(track) > score(best) ? track : best), candidates[0]);
+}
+
+// Music settings as passed to the renderers
+export interface MusicMix {
+  url: string;
+  volume: number;
+  fadeInMs: number;
+  fadeOutMs: number;
+}
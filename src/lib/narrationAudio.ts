@@ -0,0 +1,140 @@
+/**
+ * Processing for narration recorded in the browser: silence detection,
+ * loudness normalization and WAV encoding. Everything runs on decoded
+ * AudioBuffers, so it works with whatever container MediaRecorder produced.
+ */
+
+// Mono speech at this rate keeps a five-minute scene well under the upload limit
+const OUTPUT_SAMPLE_RATE = 24000;
+
+const SILENCE_THRESHOLD_DB = -45;
+const SILENCE_WINDOW_MS = 10;
+// Kept around detected speech so soft consonants and breaths aren't clipped
+const SILENCE_PADDING_MS = 120;
+
+const TARGET_RMS_DB = -18;
+const PEAK_CEILING_DB = -1;
+
+const dbToGain = (db: number) => Math.pow(10, db / 20);
+
+function mixToMono(buffer: AudioBuffer): Float32Array {
+  const mono = new Float32Array(buffer.length);
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let i = 0; i < data.length; i++) {
+      mono[i] += data[i] / buffer.numberOfChannels;
+    }
+  }
+  return mono;
+}
+
+// Peak amplitude per bucket, for drawing the waveform
+export function getWaveformPeaks(buffer: AudioBuffer, buckets: number): number[] {
+  const samples = mixToMono(buffer);
+  const size = Math.max(1, Math.floor(samples.length / buckets));
+  const peaks: number[] = [];
+  for (let b = 0; b < buckets; b++) {
+    let peak = 0;
+    const end = Math.min(samples.length, (b + 1) * size);
+    for (let i = b * size; i < end; i++) {
+      peak = Math.max(peak, Math.abs(samples[i]));
+    }
+    peaks.push(peak);
+  }
+  return peaks;
+}
+
+/**
+ * Start and end (seconds) of the audible part of the recording, found by
+ * scanning 10 ms windows from each end for one louder than the threshold.
+ * Returns the whole recording when nothing is loud enough.
+ */
+export function detectSpeechBounds(buffer: AudioBuffer): { start: number; end: number } {
+  const samples = mixToMono(buffer);
+  const windowSize = Math.max(1, Math.round((buffer.sampleRate * SILENCE_WINDOW_MS) / 1000));
+  const threshold = dbToGain(SILENCE_THRESHOLD_DB);
+  const windowCount = Math.ceil(samples.length / windowSize);
+
+  const isLoud = (w: number) => {
+    let sum = 0;
+    const end = Math.min(samples.length, (w + 1) * windowSize);
+    for (let i = w * windowSize; i < end; i++) sum += samples[i] * samples[i];
+    return Math.sqrt(sum / (end - w * windowSize)) > threshold;
+  };
+
+  let first = 0;
+  while (first < windowCount && !isLoud(first)) first++;
+  if (first === windowCount) return { start: 0, end: buffer.duration };
+
+  let last = windowCount - 1;
+  while (last > first && !isLoud(last)) last--;
+
+  const padding = SILENCE_PADDING_MS / 1000;
+  return {
+    start: Math.max(0, (first * windowSize) / buffer.sampleRate - padding),
+    end: Math.min(buffer.duration, ((last + 1) * windowSize) / buffer.sampleRate + padding),
+  };
+}
+
+// Gain that brings the selection to the target RMS without pushing peaks past the ceiling
+export function getNormalizationGain(buffer: AudioBuffer, start: number, end: number): number {
+  const samples = mixToMono(buffer);
+  const from = Math.floor(start * buffer.sampleRate);
+  const to = Math.min(samples.length, Math.ceil(end * buffer.sampleRate));
+  if (to <= from) return 1;
+
+  let sum = 0;
+  let peak = 0;
+  for (let i = from; i < to; i++) {
+    sum += samples[i] * samples[i];
+    peak = Math.max(peak, Math.abs(samples[i]));
+  }
+
+  const rms = Math.sqrt(sum / (to - from));
+  if (rms === 0 || peak === 0) return 1;
+  return Math.min(dbToGain(TARGET_RMS_DB) / rms, dbToGain(PEAK_CEILING_DB) / peak);
+}
+
+// Renders the trimmed selection to mono at the output rate with the gain applied
+export async function renderNarration(buffer: AudioBuffer, start: number, end: number, gain: number): Promise<AudioBuffer> {
+  const duration = Math.max(0, end - start);
+  const context = new OfflineAudioContext(1, Math.max(1, Math.ceil(duration * OUTPUT_SAMPLE_RATE)), OUTPUT_SAMPLE_RATE);
+  const source = context.createBufferSource();
+  source.buffer = buffer;
+  const gainNode = context.createGain();
+  gainNode.gain.value = gain;
+  source.connect(gainNode).connect(context.destination);
+  source.start(0, start, duration);
+  return context.startRendering();
+}
+
+// 16-bit PCM WAV, which every browser and ffmpeg can decode
+export function encodeWav(buffer: AudioBuffer): Blob {
+  const samples = buffer.getChannelData(0);
+  const dataSize = samples.length * 2;
+  const view = new DataView(new ArrayBuffer(44 + dataSize));
+  const writeString = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, 1, true);
+  view.setUint32(24, buffer.sampleRate, true);
+  view.setUint32(28, buffer.sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeString(36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  for (let i = 0; i < samples.length; i++) {
+    const sample = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(44 + i * 2, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+  }
+
+  return new Blob([view], { type: 'audio/wav' });
+}
@@ -0,0 +1,177 @@
+/**
+ * Script-to-Scene Diffing
+ *
+ * Every generated scene records the passage of the script it was made from,
+ * and the passages follow each other through the script. An edited script is
+ * lined up against those passages to find which scenes the edit touched and
+ * what their passages now read; the scenes' narration is never compared, so
+ * narration edited by hand isn't mistaken for a script change. Words are
+ * compared ignoring case and punctuation; new text between two passages goes
+ * to the earlier one.
+ */
+
+export interface NarratedScene {
+  id: string;
+  narration_text: string;
+  // Null for scenes added by hand, which are never changed from the script
+  script_passage: string | null;
+}
+
+export interface SceneNarrationChange {
+  sceneId: string;
+  // Position of the scene in the list it was diffed against
+  index: number;
+  oldText: string;
+  // The narration the scene should now read; empty when every word of its
+  // passage was removed from the script
+  newText: string;
+  // The scene's passage of the edited script
+  passage: string;
+  // The narration was edited by hand; newText would replace those edits
+  editedByHand: boolean;
+}
+
+interface Word {
+  key: string;
+  start: number;
+  end: number;
+}
+
+// Beyond this many alignment cells the changed middle is treated as one block
+const MAX_DIFF_CELLS = 16_000_000;
+
+function toWords(text: string): Word[] {
+  const words: Word[] = [];
+  for (const match of text.matchAll(/\S+/g)) {
+    const key = match[0].normalize('NFC').toLowerCase().replace(/[^\p{L}\p{M}\p{N}]/gu, '');
+    if (key) words.push({ key, start: match.index!, end: match.index! + match[0].length });
+  }
+  return words;
+}
+
+/**
+ * For every old word, the index of the new word it lines up with, or -1 if it
+ * was removed. Matches are a longest common subsequence of the two word lists.
+ */
+function alignWords(oldKeys: string[], newKeys: string[]): number[] {
+  const matches = new Array<number>(oldKeys.length).fill(-1);
+
+  // Edits are usually local, so the shared head and tail are matched directly
+  let head = 0;
+  while (head < oldKeys.length && head < newKeys.length && oldKeys[head] === newKeys[head]) {
+    matches[head] = head;
+    head++;
+  }
+  let tail = 0;
+  while (
+    tail < oldKeys.length - head &&
+    tail < newKeys.length - head &&
+    oldKeys[oldKeys.length - 1 - tail] === newKeys[newKeys.length - 1 - tail]
+  ) {
+    matches[oldKeys.length - 1 - tail] = newKeys.length - 1 - tail;
+    tail++;
+  }
+
+  const rows = oldKeys.length - head - tail;
+  const cols = newKeys.length - head - tail;
+  if (rows === 0 || cols === 0 || (rows + 1) * (cols + 1) > MAX_DIFF_CELLS) return matches;
+
+  // lengths[i][j]: longest common run of old words i.. and new words j.. in the middle
+  const width = cols + 1;
+  const lengths = new Uint32Array((rows + 1) * width);
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = cols - 1; j >= 0; j--) {
+      lengths[i * width + j] = oldKeys[head + i] === newKeys[head + j]
+        ? lengths[(i + 1) * width + j + 1] + 1
+        : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  for (let i = 0, j = 0; i < rows && j < cols; ) {
+    if (oldKeys[head + i] === newKeys[head + j]) {
+      matches[head + i] = head + j;
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return matches;
+}
+
+// Where the narration's words run in its passage, or null if they don't
+// read as one stretch of it (the narration was edited by hand)
+function findNarration(narration: Word[], passage: Word[]): { lead: number; trail: number } | null {
+  for (let i = 0; i + narration.length <= passage.length; i++) {
+    if (narration.every((word, k) => word.key === passage[i + k].key)) {
+      return { lead: i, trail: passage.length - i - narration.length };
+    }
+  }
+  return null;
+}
+
+const sameKeys = (a: Word[], b: Word[]) => a.length === b.length && a.every((word, i) => word.key === b[i].key);
+
+/**
+ * Lines the script up against the scenes' passages, in scene order, and
+ * returns the scenes whose passage the edit changed with the narration they
+ * should read instead. Scenes without a passage only hold their place.
+ */
+export function diffScriptAgainstScenes(script: string, scenes: NarratedScene[]): SceneNarrationChange[] {
+  const newWords = toWords(script);
+  const sceneWords = scenes.map((scene) => toWords(scene.script_passage ?? scene.narration_text));
+  const oldKeys = sceneWords.flat().map((word) => word.key);
+  const matches = alignWords(oldKeys, newWords.map((word) => word.key));
+
+  // A passage starts where its first word landed. If that word was replaced,
+  // the replacement is its own when the previous passage ended intact
+  const starts: number[] = [];
+  let offset = 0;
+  let nextNewWord = 0;
+  sceneWords.forEach((words, index) => {
+    const firstMatch = matches.slice(offset, offset + words.length).find((match) => match >= 0);
+    if (index === 0) {
+      starts.push(0);
+    } else if (words.length > 0 && matches[offset] < 0 && matches[offset - 1] >= 0) {
+      starts.push(nextNewWord);
+    } else {
+      // A passage with no words left ends up empty, up to the next kept word
+      starts.push(firstMatch ?? matches.slice(offset).find((match) => match >= 0) ?? newWords.length);
+    }
+    for (let i = offset; i < offset + words.length; i++) {
+      if (matches[i] >= 0) nextNewWord = matches[i] + 1;
+    }
+    offset += words.length;
+  });
+
+  const changes: SceneNarrationChange[] = [];
+  scenes.forEach((scene, index) => {
+    const oldPassage = sceneWords[index];
+    const words = newWords.slice(starts[index], starts[index + 1] ?? newWords.length);
+    if (scene.script_passage === null || sameKeys(words, oldPassage)) return;
+
+    // Headings and the like that the narration left out of its passage stay
+    // out of it when the edit kept them
+    const run = findNarration(toWords(scene.narration_text), oldPassage);
+    let narrated = words;
+    if (run && sameKeys(words.slice(0, run.lead), oldPassage.slice(0, run.lead))) {
+      narrated = narrated.slice(run.lead);
+    }
+    if (run && run.trail > 0 && sameKeys(narrated.slice(-run.trail), oldPassage.slice(-run.trail))) {
+      narrated = narrated.slice(0, -run.trail);
+    }
+
+    const text = (words: Word[]) => (words.length > 0 ? script.slice(words[0].start, words[words.length - 1].end) : '');
+    changes.push({
+      sceneId: scene.id,
+      index,
+      oldText: scene.narration_text,
+      newText: text(narrated).replace(/\s+/g, ' ').trim(),
+      passage: text(words),
+      editedByHand: !run,
+    });
+  });
+  return changes;
+}
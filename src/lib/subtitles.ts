@@ -0,0 +1,224 @@
+import { Scene, StoryLanguage, WordTiming } from './types';
+
+export type SubtitleFormat = 'srt' | 'vtt';
+
+export interface SubtitleCue {
+  index: number;
+  startMs: number;
+  endMs: number;
+  lines: string[];
+  // Per-line word timings, present when the voiceover has alignment data
+  words?: WordTiming[][];
+}
+
+const MAX_LINES_PER_CUE = 2;
+const MIN_CUE_MS = 1000;
+
+// Devanagari is visually denser, so Hindi lines are kept shorter
+const MAX_LINE_LENGTH: Record<StoryLanguage, number> = {
+  hindi: 32,
+  hinglish: 42,
+  english: 42,
+};
+
+// Hindi postpositions read as part of the preceding word and must not start a line
+const HINDI_POSTPOSITIONS = new Set([
+  'का', 'की', 'के', 'को', 'ने', 'में', 'से', 'पर', 'तक', 'ही', 'भी', 'तो', 'है', 'हैं', 'था', 'थी', 'थे',
+]);
+
+const SENTENCE_END = /[.!?।॥]["'”’)]*$/u;
+
+// Matches the same fallback the timeline and video renderers use
+export function getSceneDurationMs(scene: Scene): number {
+  if (scene.audio_duration_ms) return scene.audio_duration_ms;
+  return (scene.actual_duration || scene.estimated_duration || 5) * 1000;
+}
+
+// Visible width in characters: combining marks (matras, virama, nukta) take no space
+function visibleLength(text: string): number {
+  return Array.from(text.replace(/\p{M}/gu, '')).length;
+}
+
+function joinWords(words: string[], indices: number[]): string {
+  return indices.map((i) => words[i]).join(' ');
+}
+
+function splitSentences(words: string[]): number[][] {
+  const sentences: number[][] = [];
+  let current: number[] = [];
+  words.forEach((word, i) => {
+    current.push(i);
+    if (SENTENCE_END.test(word)) {
+      sentences.push(current);
+      current = [];
+    }
+  });
+  if (current.length > 0) sentences.push(current);
+  return sentences;
+}
+
+// Groups words into unbreakable units so punctuation and Hindi postpositions stay with their word
+function toBreakUnits(words: string[], indices: number[], language: StoryLanguage): number[][] {
+  const units: number[][] = [];
+  for (const i of indices) {
+    const word = words[i];
+    const attachesToPrevious =
+      /^[।॥,.!?;:)"'”’]+$/u.test(word) ||
+      (language === 'hindi' && HINDI_POSTPOSITIONS.has(word.replace(/[।॥,.!?;:]+$/u, '')));
+
+    if (attachesToPrevious && units.length > 0) {
+      units[units.length - 1].push(i);
+    } else {
+      units.push([i]);
+    }
+  }
+  return units;
+}
+
+function wrapLines(words: string[], indices: number[], language: StoryLanguage): number[][] {
+  const maxLength = MAX_LINE_LENGTH[language];
+  const lines: number[][] = [];
+  let current: number[] = [];
+
+  for (const unit of toBreakUnits(words, indices, language)) {
+    const candidate = [...current, ...unit];
+    if (current.length > 0 && visibleLength(joinWords(words, candidate)) > maxLength) {
+      lines.push(current);
+      current = unit;
+    } else {
+      current = candidate;
+    }
+  }
+
+  if (current.length > 0) lines.push(current);
+  return lines;
+}
+
+// Returns cues as lines of word indices, never letting a cue span two sentences
+function groupCues(words: string[], language: StoryLanguage): number[][][] {
+  const groups: number[][][] = [];
+  for (const sentence of splitSentences(words)) {
+    const lines = wrapLines(words, sentence, language);
+    for (let i = 0; i < lines.length; i += MAX_LINES_PER_CUE) {
+      groups.push(lines.slice(i, i + MAX_LINES_PER_CUE));
+    }
+  }
+  return groups;
+}
+
+/**
+ * Splits one scene's narration into cues timed from 0 to durationMs.
+ * With word timings from the TTS provider each cue starts on its first spoken
+ * word and carries per-word times for read-along highlighting. Without them,
+ * cue length is proportional to its visible character count, which tracks
+ * speech closely enough for narration read at a steady pace.
+ */
+function buildCues(
+  text: string,
+  durationMs: number,
+  language: StoryLanguage,
+  wordTimings?: WordTiming[] | null
+): SubtitleCue[] {
+  const timed = !!wordTimings && wordTimings.length > 0;
+  const words = timed ? wordTimings.map((w) => w.text) : text.trim().split(/\s+/).filter(Boolean);
+  const groups = groupCues(words, language);
+
+  if (groups.length === 0 || durationMs <= 0) return [];
+
+  if (timed) {
+    return groups.map((group, i) => {
+      const next = groups[i + 1];
+      return {
+        index: i + 1,
+        startMs: i === 0 ? 0 : wordTimings[group[0][0]].start_ms,
+        endMs: next ? wordTimings[next[0][0]].start_ms : durationMs,
+        lines: group.map((line) => joinWords(words, line)),
+        words: group.map((line) => line.map((w) => wordTimings[w])),
+      };
+    });
+  }
+
+  const weights = groups.map((group) => Math.max(1, visibleLength(joinWords(words, group.flat()))));
+  const totalWeight = weights.reduce((acc, w) => acc + w, 0);
+
+  // Give every cue a minimum on-screen time when the scene is long enough for it
+  const floor = durationMs / groups.length >= MIN_CUE_MS ? MIN_CUE_MS : 0;
+  const spare = durationMs - floor * groups.length;
+
+  const cues: SubtitleCue[] = [];
+  let cursor = 0;
+  groups.forEach((group, i) => {
+    const length = floor + (spare * weights[i]) / totalWeight;
+    const endMs = i === groups.length - 1 ? durationMs : Math.round(cursor + length);
+    cues.push({
+      index: i + 1,
+      startMs: Math.round(cursor),
+      endMs,
+      lines: group.map((line) => joinWords(words, line)),
+    });
+    cursor += length;
+  });
+
+  return cues;
+}
+
+// Cues for a single scene, timed from the start of its voiceover
+export function buildSceneCues(scene: Scene, language: StoryLanguage): SubtitleCue[] {
+  return buildCues(scene.narration_text, getSceneDurationMs(scene), language, scene.word_timings);
+}
+
+// Builds cues for the whole video, with each scene offset by the scenes before it
+export function buildSubtitleCues(scenes: Scene[], language: StoryLanguage): SubtitleCue[] {
+  const cues: SubtitleCue[] = [];
+  let offsetMs = 0;
+
+  for (const scene of scenes) {
+    for (const cue of buildSceneCues(scene, language)) {
+      cues.push({
+        index: cues.length + 1,
+        startMs: offsetMs + cue.startMs,
+        endMs: offsetMs + cue.endMs,
+        lines: cue.lines,
+        words: cue.words?.map((line) =>
+          line.map((w) => ({ ...w, start_ms: offsetMs + w.start_ms, end_ms: offsetMs + w.end_ms }))
+        ),
+      });
+    }
+    offsetMs += getSceneDurationMs(scene);
+  }
+
+  return cues;
+}
+
+function formatTimestamp(ms: number, separator: ',' | '.'): string {
+  const pad = (value: number, size = 2) => String(value).padStart(size, '0');
+  const hours = Math.floor(ms / 3_600_000);
+  const minutes = Math.floor((ms % 3_600_000) / 60_000);
+  const seconds = Math.floor((ms % 60_000) / 1000);
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(ms % 1000, 3)}`;
+}
+
+export function toSrt(cues: SubtitleCue[]): string {
+  return cues
+    .map((cue) => `${cue.index}\n${formatTimestamp(cue.startMs, ',')} --> ${formatTimestamp(cue.endMs, ',')}\n${cue.lines.join('\n')}\n`)
+    .join('\n');
+}
+
+// Timed cues use WebVTT karaoke timestamps so players can highlight each word
+function toVttText(cue: SubtitleCue): string {
+  if (!cue.words) return cue.lines.join('\n');
+  return cue.words
+    .map((line) =>
+      line
+        .map((w) => (w.start_ms > cue.startMs ? `<${formatTimestamp(w.start_ms, '.')}>${w.text}` : w.text))
+        .join(' ')
+    )
+    .join('\n');
+}
+
+export function toVtt(cues: SubtitleCue[]): string {
+  const body = cues
+    .map((cue) => `${cue.index}\n${formatTimestamp(cue.startMs, '.')} --> ${formatTimestamp(cue.endMs, '.')}\n${toVttText(cue)}\n`)
+    .join('\n');
+  return `WEBVTT\n\n${body}`;
+}
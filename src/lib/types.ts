@@ -1,9 +1,16 @@
+import type { SceneMotion, SceneTransition } from './motion';
+import type { MusicSource } from './music';
+import type { AiFeature } from './aiModels';
+
+export type { SceneMotion, SceneTransition, MusicSource };
+
 // Database enum types
 export type StoryLanguage = 'hindi' | 'hinglish' | 'english';
 export type StoryType = 'kids' | 'bedtime' | 'moral';
 export type StoryTone = 'calm' | 'emotional' | 'dramatic';
 export type VisualStyle = 'cartoon' | 'storybook' | 'kids_illustration';
 export type VoiceType = 'male' | 'female' | 'child';
+export type TtsProviderName = 'elevenlabs' | 'piper';
 export type ProjectStatus = 'draft' | 'processing' | 'ready' | 'exported';
 export type SceneStatus = 'pending' | 'generating' | 'completed' | 'failed';
 export type SubscriptionTier = 'free' | 'credits';
@@ -33,14 +40,39 @@ export interface Project {
   tone: StoryTone;
   visual_style: VisualStyle;
   voice_type: VoiceType;
+  // Preferred TTS engine; null means ElevenLabs, each falling back to the other
+  tts_provider: TtsProviderName | null;
+  // Picked catalogue voice and its tuning; null settings use the voice's defaults
+  voice_id: string | null;
+  voice_stability: number | null;
+  voice_style: number | null;
   status: ProjectStatus;
   aspect_ratio: string;
   thumbnail_url: string | null;
   exported_video_url: string | null;
+  music_url: string | null;
+  music_source: MusicSource | null;
+  music_track_id: string | null;
+  music_volume: number;
+  music_fade_in_ms: number;
+  music_fade_out_ms: number;
   created_at: string;
   updated_at: string;
 }
 
+// Spoken time of one narration word, relative to the start of the scene's audio
+export interface WordTiming {
+  text: string;
+  start_ms: number;
+  end_ms: number;
+}
+
+// One speaker's part of a scene's narration; a null character is the narrator
+export interface NarrationSegment {
+  character_id: string | null;
+  text: string;
+}
+
 // Scene type
 export interface Scene {
   id: string;
@@ -51,11 +83,127 @@ export interface Scene {
   visual_description: string | null;
   estimated_duration: number | null;
   actual_duration: number | null;
+  audio_duration_ms: number | null;
+  word_timings: WordTiming[] | null;
+  // Speaker-tagged narration for dialogue, voiced per character
+  narration_segments: NarrationSegment[] | null;
   mood: string | null;
+  character_ids: string[];
+  motion: SceneMotion;
+  transition: SceneTransition;
   image_url: string | null;
   image_status: SceneStatus;
+  image_source: SceneAssetSource;
+  // Hash of the text image_url was made from; see src/lib/assetInputs.ts
+  image_input_hash: string | null;
+  // image_url recomposed for the other orientation (16:9 <-> 9:16)
+  reframed_image_url: string | null;
+  reframed_image_status: SceneStatus;
   audio_url: string | null;
   audio_status: SceneStatus;
+  audio_source: SceneAssetSource;
+  audio_input_hash: string | null;
+  // Set while the scene is a draft of a running scene generation job
+  generation_job_id: string | null;
+  // The passage of the script the scene was generated from; see src/lib/scriptDiff.ts
+  script_passage: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// One generated version of a scene's image or voiceover
+export type SceneAssetType = 'image' | 'audio';
+export type SceneAssetSource = 'generated' | 'uploaded';
+
+export interface SceneAssetMetadata {
+  duration_ms?: number | null;
+  // TTS engine that read a generated voiceover
+  provider?: TtsProviderName;
+  word_timings?: WordTiming[] | null;
+  // Scene text hash at the time the asset was made, restored when it is picked again
+  input_hash?: string | null;
+  width?: number;
+  height?: number;
+}
+
+export interface SceneAsset {
+  id: string;
+  scene_id: string;
+  asset_type: SceneAssetType;
+  url: string;
+  source: SceneAssetSource;
+  job_id: string | null;
+  metadata: SceneAssetMetadata;
+  created_at: string;
+}
+
+// Recurring character whose look is kept consistent across scene images
+export interface Character {
+  id: string;
+  project_id: string;
+  name: string;
+  description: string;
+  reference_image_url: string | null;
+  style_token: string | null;
+  // Catalogue voice for the character's dialogue, falling back to a voice of
+  // voice_type; with neither it is read in the narrator's voice
+  voice_id: string | null;
+  voice_type: VoiceType | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Narration voice from the catalogue
+export interface VoiceSettings {
+  stability: number;
+  similarity_boost: number;
+  style: number;
+}
+
+export interface Voice {
+  id: string;
+  provider: TtsProviderName;
+  provider_voice_id: string;
+  name: string;
+  language: StoryLanguage;
+  voice_type: VoiceType;
+  description: string;
+  // Absolute URL, or a path in the voice-samples bucket
+  sample_url: string | null;
+  voice_settings: VoiceSettings;
+  is_active: boolean;
+  sort_order: number;
+  created_at: string;
+}
+
+// Background generation job
+export type GenerationJobType =
+  | 'generate-scenes'
+  | 'generate-image'
+  | 'generate-voiceover'
+  | 'render-video'
+  | 'measure-audio'
+  | 'reframe-image';
+export type GenerationJobStatus = 'queued' | 'processing' | 'completed' | 'failed' | 'cancelled';
+
+export interface GenerationJob {
+  id: string;
+  user_id: string;
+  project_id: string;
+  scene_id: string | null;
+  job_type: GenerationJobType;
+  status: GenerationJobStatus;
+  progress: number;
+  payload: Record<string, unknown>;
+  result: Record<string, unknown> | null;
+  script_content: string | null;
+  scenes_generated: number;
+  error_message: string | null;
+  retry_count: number;
+  max_retries: number;
+  scheduled_at: string;
+  started_at: string | null;
+  completed_at: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -93,6 +241,14 @@ export interface UserRole {
   created_at: string;
 }
 
+// Admin-chosen model for an AI feature
+export interface AiModelSetting {
+  feature: AiFeature;
+  model_id: string;
+  updated_by: string | null;
+  updated_at: string;
+}
+
 // Form types for creating/updating
 export interface CreateProjectInput {
   title: string;
@@ -101,6 +257,7 @@ export interface CreateProjectInput {
   tone: StoryTone;
   visual_style: VisualStyle;
   voice_type: VoiceType;
+  voice_id?: string | null;
   aspect_ratio: string;
 }
 
@@ -109,6 +266,15 @@ export interface UpdateProjectInput extends Partial<CreateProjectInput> {
   status?: ProjectStatus;
   thumbnail_url?: string;
   exported_video_url?: string;
+  music_url?: string | null;
+  music_source?: MusicSource | null;
+  music_track_id?: string | null;
+  music_volume?: number;
+  music_fade_in_ms?: number;
+  music_fade_out_ms?: number;
+  tts_provider?: TtsProviderName | null;
+  voice_stability?: number | null;
+  voice_style?: number | null;
 }
 
 export interface CreateSceneInput {
@@ -124,9 +290,53 @@ export interface CreateSceneInput {
 export interface UpdateSceneInput extends Partial<Omit<CreateSceneInput, 'project_id'>> {
   image_url?: string;
   image_status?: SceneStatus;
+  image_source?: SceneAssetSource;
+  image_input_hash?: string | null;
+  reframed_image_url?: string | null;
+  reframed_image_status?: SceneStatus;
   audio_url?: string;
   audio_status?: SceneStatus;
+  audio_source?: SceneAssetSource;
+  audio_input_hash?: string | null;
   actual_duration?: number;
+  audio_duration_ms?: number;
+  word_timings?: WordTiming[] | null;
+  narration_segments?: NarrationSegment[] | null;
+  motion?: SceneMotion;
+  transition?: SceneTransition;
+  character_ids?: string[];
+}
+
+export interface CreateCharacterInput {
+  project_id: string;
+  name: string;
+  description?: string;
+  reference_image_url?: string | null;
+  style_token?: string | null;
+  voice_id?: string | null;
+  voice_type?: VoiceType | null;
+}
+
+export type UpdateCharacterInput = Partial<Omit<CreateCharacterInput, 'project_id'>>;
+
+export interface EnqueueJobInput {
+  job_type: GenerationJobType;
+  scene_id?: string;
+  script_content?: string;
+  payload?: Record<string, unknown>;
+}
+
+// AI story writer (write-story edge function)
+export type StoryAgeBand = '3-5' | '6-8' | '9-12';
+export type StoryVariation = 'shorter' | 'twist' | 'simplify' | 'custom';
+
+export interface StoryBrief {
+  premise: string;
+  moral: string;
+  // Free text, e.g. "Ruby, a clever fox; Grandpa Owl"
+  characters: string;
+  ageBand: StoryAgeBand;
+  lengthMinutes: number;
 }
 
 // AI Generation types
@@ -136,10 +346,23 @@ export interface GeneratedScene {
   visual_description: string;
   estimated_duration: number;
   mood: string;
+  characters?: string[];
+  segments?: GeneratedSegment[];
+}
+
+export interface GeneratedSegment {
+  speaker: string;
+  text: string;
+}
+
+export interface GeneratedCharacter {
+  name: string;
+  description: string;
 }
 
 export interface SceneGenerationResult {
   scenes: GeneratedScene[];
+  characters?: GeneratedCharacter[];
 }
 
 // Export options
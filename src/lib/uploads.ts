@@ -0,0 +1,102 @@
+/**
+ * Validation for user-supplied scene images and narration. Files are checked
+ * in the browser before upload: MIME type and size first, then the decoded
+ * image dimensions or audio duration.
+ */
+
+export const SCENE_IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+export const SCENE_AUDIO_TYPES = ['audio/mpeg', 'audio/mp3', 'audio/wav', 'audio/x-wav', 'audio/ogg', 'audio/mp4', 'audio/x-m4a', 'audio/aac'];
+
+const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+const MAX_AUDIO_BYTES = 25 * 1024 * 1024;
+
+// Smallest side must still fill a 720p frame after cropping
+const MIN_IMAGE_SIDE = 720;
+const MAX_IMAGE_SIDE = 8192;
+const MAX_AUDIO_SECONDS = 300;
+
+export interface ImageUploadInfo {
+  width: number;
+  height: number;
+}
+
+export interface AudioUploadInfo {
+  durationMs: number;
+}
+
+export type UploadValidation<T> = { valid: true; info: T } | { valid: false; error: string };
+
+function loadImageSize(file: File): Promise<ImageUploadInfo> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const img = new Image();
+    img.onload = () => {
+      resolve({ width: img.naturalWidth, height: img.naturalHeight });
+      URL.revokeObjectURL(url);
+    };
+    img.onerror = () => {
+      reject(new Error('Image could not be read'));
+      URL.revokeObjectURL(url);
+    };
+    img.src = url;
+  });
+}
+
+// Decoding the whole file gives the exact length, unlike the <audio> element's estimate for VBR MP3s
+async function loadAudioDuration(file: File): Promise<number> {
+  const audioContext = new AudioContext();
+  try {
+    const buffer = await audioContext.decodeAudioData(await file.arrayBuffer());
+    return Math.round(buffer.duration * 1000);
+  } finally {
+    audioContext.close();
+  }
+}
+
+export async function validateSceneImage(file: File): Promise<UploadValidation<ImageUploadInfo>> {
+  if (!SCENE_IMAGE_TYPES.includes(file.type)) {
+    return { valid: false, error: 'Please choose a PNG, JPEG or WebP image' };
+  }
+  if (file.size > MAX_IMAGE_BYTES) {
+    return { valid: false, error: 'Images must be smaller than 10 MB' };
+  }
+
+  try {
+    const info = await loadImageSize(file);
+    if (Math.min(info.width, info.height) < MIN_IMAGE_SIDE) {
+      return { valid: false, error: `Images must be at least ${MIN_IMAGE_SIDE}px on the shorter side` };
+    }
+    if (Math.max(info.width, info.height) > MAX_IMAGE_SIDE) {
+      return { valid: false, error: `Images must be at most ${MAX_IMAGE_SIDE}px on the longer side` };
+    }
+    return { valid: true, info };
+  } catch {
+    return { valid: false, error: 'Image could not be read' };
+  }
+}
+
+export async function validateSceneAudio(file: File): Promise<UploadValidation<AudioUploadInfo>> {
+  if (!SCENE_AUDIO_TYPES.includes(file.type)) {
+    return { valid: false, error: 'Please choose an MP3, WAV, OGG or M4A file' };
+  }
+  if (file.size > MAX_AUDIO_BYTES) {
+    return { valid: false, error: 'Audio files must be smaller than 25 MB' };
+  }
+
+  try {
+    const durationMs = await loadAudioDuration(file);
+    if (durationMs <= 0) {
+      return { valid: false, error: 'Audio file is empty' };
+    }
+    if (durationMs > MAX_AUDIO_SECONDS * 1000) {
+      return { valid: false, error: `Narration must be shorter than ${MAX_AUDIO_SECONDS / 60} minutes per scene` };
+    }
+    return { valid: true, info: { durationMs } };
+  } catch {
+    return { valid: false, error: 'Audio could not be decoded' };
+  }
+}
+
+export function getFileExtension(file: File, fallback: string): string {
+  return file.name.split('.').pop()?.toLowerCase() || fallback;
+}
@@ -3,6 +3,7 @@ import { useQuery } from '@tanstack/react-query';
 import { DashboardLayout } from '@/components/layout/DashboardLayout';
 import { supabase } from '@/integrations/supabase/client';
 import { AdminUsageAnalytics } from '@/components/admin/AdminUsageAnalytics';
+import { AiModelSettings } from '@/components/admin/AiModelSettings';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -156,6 +157,7 @@ export default function Admin() {
             <TabsTrigger value="users">Users</TabsTrigger>
             <TabsTrigger value="projects">Projects</TabsTrigger>
             <TabsTrigger value="usage">Usage Logs</TabsTrigger>
+            <TabsTrigger value="models">AI Models</TabsTrigger>
           </TabsList>
 
           <TabsContent value="analytics" className="space-y-4">
@@ -322,6 +324,10 @@ export default function Admin() {
               </CardContent>
             </Card>
           </TabsContent>
+
+          <TabsContent value="models" className="space-y-4">
+            <AiModelSettings />
+          </TabsContent>
         </Tabs>
       </div>
     </DashboardLayout>
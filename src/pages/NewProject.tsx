@@ -7,6 +7,7 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { VoicePicker } from '@/components/project/VoicePicker';
 import { StoryLanguage, StoryType, StoryTone, VisualStyle, VoiceType } from '@/lib/types';
 import { ArrowLeft, ArrowRight, Loader2, Sparkles } from 'lucide-react';
 
@@ -34,12 +35,6 @@ const visualStyles: { value: VisualStyle; label: string; description: string }[]
   { value: 'kids_illustration', label: 'Kids Illustration', description: 'Soft & friendly artwork' },
 ];
 
-const voiceTypes: { value: VoiceType; label: string; description: string }[] = [
-  { value: 'female', label: 'Female Voice', description: 'Warm female narrator' },
-  { value: 'male', label: 'Male Voice', description: 'Deep male narrator' },
-  { value: 'child', label: 'Child Voice', description: 'Young storyteller' },
-];
-
 const aspectRatios = [
   { value: '16:9', label: 'YouTube (16:9)', description: 'Standard video format' },
   { value: '9:16', label: 'Shorts (9:16)', description: 'Vertical short format' },
@@ -57,6 +52,7 @@ export default function NewProject() {
   const [tone, setTone] = useState<StoryTone>('calm');
   const [visualStyle, setVisualStyle] = useState<VisualStyle>('cartoon');
   const [voiceType, setVoiceType] = useState<VoiceType>('female');
+  const [voiceId, setVoiceId] = useState<string | null>(null);
   const [aspectRatio, setAspectRatio] = useState('16:9');
 
   const handleCreate = async () => {
@@ -71,6 +67,7 @@ export default function NewProject() {
         tone,
         visual_style: visualStyle,
         voice_type: voiceType,
+        voice_id: voiceId,
         aspect_ratio: aspectRatio,
       });
       navigate(`/project/${project.id}`);
@@ -128,7 +125,13 @@ export default function NewProject() {
 
               <div className="space-y-3">
                 <Label>Language</Label>
-                <RadioGroup value={language} onValueChange={(v) => setLanguage(v as StoryLanguage)}>
+                <RadioGroup
+                  value={language}
+                  onValueChange={(v) => {
+                    setLanguage(v as StoryLanguage);
+                    setVoiceId(null);
+                  }}
+                >
                   <div className="grid gap-3">
                     {languages.map((lang) => (
                       <Label
@@ -245,26 +248,16 @@ export default function NewProject() {
               </div>
 
               <div className="space-y-3">
-                <Label>Voice Type</Label>
-                <RadioGroup value={voiceType} onValueChange={(v) => setVoiceType(v as VoiceType)}>
-                  <div className="grid sm:grid-cols-3 gap-3">
-                    {voiceTypes.map((voice) => (
-                      <Label
-                        key={voice.value}
-                        htmlFor={`voice-${voice.value}`}
-                        className={`flex flex-col items-center gap-2 p-4 rounded-lg border-2 cursor-pointer transition-all text-center ${
-                          voiceType === voice.value
-                            ? 'border-primary bg-primary/5'
-                            : 'border-border hover:border-primary/50'
-                        }`}
-                      >
-                        <RadioGroupItem value={voice.value} id={`voice-${voice.value}`} className="sr-only" />
-                        <p className="font-medium">{voice.label}</p>
-                        <p className="text-xs text-muted-foreground">{voice.description}</p>
-                      </Label>
-                    ))}
-                  </div>
-                </RadioGroup>
+                <Label>Narrator Voice</Label>
+                <VoicePicker
+                  language={language}
+                  value={voiceId}
+                  voiceType={voiceType}
+                  onChange={(voice) => {
+                    setVoiceId(voice.id);
+                    setVoiceType(voice.voice_type);
+                  }}
+                />
               </div>
 
               <div className="space-y-3">
@@ -3,6 +3,7 @@ import { useParams, useNavigate } from 'react-router-dom';
 import { DashboardLayout } from '@/components/layout/DashboardLayout';
 import { useProject } from '@/hooks/useProjects';
 import { useScenes } from '@/hooks/useScenes';
+import { useSceneGeneration } from '@/hooks/useSceneGeneration';
 import { ScriptInput } from '@/components/project/ScriptInput';
 import { SceneEditor } from '@/components/project/SceneEditor';
 import { VideoTimeline } from '@/components/project/VideoTimeline';
@@ -11,15 +12,17 @@ import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
-import { ArrowLeft, FileText, Layers, Film, Download, Settings } from 'lucide-react';
+import { ArrowLeft, FileText, Layers, Film, Download, Settings, Users } from 'lucide-react';
 import { ProjectSettings } from '@/components/project/ProjectSettings';
+import { CharacterBible } from '@/components/project/CharacterBible';
 
 export default function ProjectEditor() {
   const { projectId } = useParams<{ projectId: string }>();
   const navigate = useNavigate();
   const { data: project, isLoading: projectLoading } = useProject(projectId);
-  const { scenes, isLoading: scenesLoading } = useScenes(projectId);
+  const { scenes, draftScenes, isLoading: scenesLoading } = useScenes(projectId);
   const [activeTab, setActiveTab] = useState('script');
+  const sceneGeneration = useSceneGeneration(project, draftScenes);
 
   useEffect(() => {
     if (scenes.length > 0 && activeTab === 'script') {
@@ -91,11 +94,15 @@ export default function ProjectEditor() {
 
         {/* Tabs */}
         <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
-          <TabsList className="grid w-full grid-cols-5 lg:w-auto lg:inline-grid">
+          <TabsList className="grid w-full grid-cols-6 lg:w-auto lg:inline-grid">
             <TabsTrigger value="script" className="gap-2">
               <FileText className="h-4 w-4" />
               <span className="hidden sm:inline">Script</span>
             </TabsTrigger>
+            <TabsTrigger value="characters" className="gap-2">
+              <Users className="h-4 w-4" />
+              <span className="hidden sm:inline">Characters</span>
+            </TabsTrigger>
             <TabsTrigger value="scenes" className="gap-2">
               <Layers className="h-4 w-4" />
               <span className="hidden sm:inline">Scenes</span>
@@ -117,15 +124,23 @@ export default function ProjectEditor() {
           <TabsContent value="script" className="mt-6">
             <ScriptInput
               project={project}
+              scenes={scenes}
+              sceneGeneration={sceneGeneration}
               onScenesGenerated={() => setActiveTab('scenes')}
             />
           </TabsContent>
 
+          <TabsContent value="characters" className="mt-6">
+            <CharacterBible project={project} scenes={scenes} />
+          </TabsContent>
+
           <TabsContent value="scenes" className="mt-6">
             <SceneEditor
               project={project}
               scenes={scenes}
+              draftScenes={draftScenes}
               isLoading={scenesLoading}
+              sceneGeneration={sceneGeneration}
             />
           </TabsContent>
 
@@ -1,7 +1,11 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
 import { useSearchParams, useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
-import { ArrowLeft, ExternalLink, Loader2 } from 'lucide-react';
+import { ReadAlongCaptions } from '@/components/project/ReadAlongCaptions';
+import { useProject } from '@/hooks/useProjects';
+import { useScenes } from '@/hooks/useScenes';
+import { buildSubtitleCues } from '@/lib/subtitles';
+import { ArrowLeft, Captions, CaptionsOff, ExternalLink, Loader2 } from 'lucide-react';
 
 export default function VideoPlayer() {
   const [searchParams] = useSearchParams();
@@ -10,6 +14,19 @@ export default function VideoPlayer() {
   
   const playerUrl = searchParams.get('url');
   const projectId = searchParams.get('project');
+  // Older exports are HTML players; new ones are rendered MP4 files
+  const isMp4 = !!playerUrl && new URL(playerUrl, window.location.href).pathname.endsWith('.mp4');
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [showReadAlong, setShowReadAlong] = useState(true);
+
+  // Read-along captions come from the project's word timings, available to its owner
+  const { data: project } = useProject(isMp4 ? projectId ?? undefined : undefined);
+  const { scenes } = useScenes(project?.id);
+  const cues = useMemo(
+    () => (project ? buildSubtitleCues(scenes, project.language) : []),
+    [project, scenes]
+  );
+  const hasReadAlong = cues.some((cue) => cue.words);
 
   useEffect(() => {
     document.title = 'Video Player - KakiStoryChannel';
@@ -38,12 +55,20 @@ export default function VideoPlayer() {
             <ArrowLeft className="mr-2 h-4 w-4" />
             Back to Editor
           </Button>
-          <Button variant="outline" size="sm" asChild>
-            <a href={playerUrl} target="_blank" rel="noopener noreferrer">
-              <ExternalLink className="mr-2 h-4 w-4" />
-              Open in New Tab
-            </a>
-          </Button>
+          <div className="flex items-center gap-2">
+            {hasReadAlong && (
+              <Button variant="ghost" size="sm" onClick={() => setShowReadAlong((v) => !v)}>
+                {showReadAlong ? <CaptionsOff className="mr-2 h-4 w-4" /> : <Captions className="mr-2 h-4 w-4" />}
+                {showReadAlong ? 'Hide Read-along' : 'Show Read-along'}
+              </Button>
+            )}
+            <Button variant="outline" size="sm" asChild>
+              <a href={playerUrl} target="_blank" rel="noopener noreferrer">
+                <ExternalLink className="mr-2 h-4 w-4" />
+                Open in New Tab
+              </a>
+            </Button>
+          </div>
         </div>
       </header>
 
@@ -57,14 +82,29 @@ export default function VideoPlayer() {
             </div>
           </div>
         )}
-        <iframe
-          src={playerUrl}
-          className="w-full h-full border-0"
-          style={{ minHeight: 'calc(100vh - 57px)' }}
-          onLoad={() => setIsLoading(false)}
-          allow="autoplay"
-          title="Video Player"
-        />
+        {isMp4 ? (
+          <video
+            ref={videoRef}
+            src={playerUrl}
+            className="w-full bg-black"
+            style={{ height: 'calc(100vh - 57px)' }}
+            onLoadedData={() => setIsLoading(false)}
+            controls
+            autoPlay
+          />
+        ) : (
+          <iframe
+            src={playerUrl}
+            className="w-full h-full border-0"
+            style={{ minHeight: 'calc(100vh - 57px)' }}
+            onLoad={() => setIsLoading(false)}
+            allow="autoplay"
+            title="Video Player"
+          />
+        )}
+        {isMp4 && hasReadAlong && showReadAlong && (
+          <ReadAlongCaptions cues={cues} videoRef={videoRef} />
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,424 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { parseRetryAfter } from "./rateLimit.ts";
+
+/**
+ * AI Model Registry
+ *
+ * Every text and image model the edge functions can call, with its pricing
+ * and capabilities, and the providers that call them. Admins choose the
+ * default model per feature in ai_model_settings (mirrored for the admin UI
+ * in src/lib/aiModels.ts). Setting AI_PROVIDER=mock switches every feature
+ * to the deterministic mock provider, which needs no API key, for local
+ * runs and tests.
+ */
+
+export type AiFeature = "generate-scenes" | "generate-image" | "write-story";
+export type AiCapability = "text" | "image" | "vision";
+export type AiProviderName = "lovable" | "mock";
+
+export interface AiPricing {
+  // USD
+  inputPer1k: number;
+  outputPer1k: number;
+  perImage: number;
+}
+
+export interface AiModel {
+  // Model id as the provider expects it
+  id: string;
+  provider: AiProviderName;
+  // Logged as api_usage_logs.provider and .model
+  vendor: string;
+  name: string;
+  capabilities: AiCapability[];
+  pricing: AiPricing;
+}
+
+export const AI_MODELS: Record<string, AiModel> = {
+  "google/gemini-2.5-flash": {
+    id: "google/gemini-2.5-flash",
+    provider: "lovable",
+    vendor: "google",
+    name: "gemini-2.5-flash",
+    capabilities: ["text", "vision"],
+    pricing: { inputPer1k: 0.00035, outputPer1k: 0.00105, perImage: 0 },
+  },
+  "google/gemini-2.5-flash-lite": {
+    id: "google/gemini-2.5-flash-lite",
+    provider: "lovable",
+    vendor: "google",
+    name: "gemini-2.5-flash-lite",
+    capabilities: ["text", "vision"],
+    pricing: { inputPer1k: 0.0001, outputPer1k: 0.0004, perImage: 0 },
+  },
+  "google/gemini-2.5-pro": {
+    id: "google/gemini-2.5-pro",
+    provider: "lovable",
+    vendor: "google",
+    name: "gemini-2.5-pro",
+    capabilities: ["text", "vision"],
+    pricing: { inputPer1k: 0.00125, outputPer1k: 0.01, perImage: 0 },
+  },
+  "openai/gpt-5-mini": {
+    id: "openai/gpt-5-mini",
+    provider: "lovable",
+    vendor: "openai",
+    name: "gpt-5-mini",
+    capabilities: ["text", "vision"],
+    pricing: { inputPer1k: 0.00025, outputPer1k: 0.002, perImage: 0 },
+  },
+  "google/gemini-2.5-flash-image-preview": {
+    id: "google/gemini-2.5-flash-image-preview",
+    provider: "lovable",
+    vendor: "google",
+    name: "gemini-2.5-flash-image-preview",
+    capabilities: ["image", "vision"],
+    pricing: { inputPer1k: 0, outputPer1k: 0, perImage: 0.04 },
+  },
+  "mock/text": {
+    id: "mock/text",
+    provider: "mock",
+    vendor: "mock",
+    name: "mock-text",
+    capabilities: ["text"],
+    pricing: { inputPer1k: 0, outputPer1k: 0, perImage: 0 },
+  },
+  "mock/image": {
+    id: "mock/image",
+    provider: "mock",
+    vendor: "mock",
+    name: "mock-image",
+    capabilities: ["image"],
+    pricing: { inputPer1k: 0, outputPer1k: 0, perImage: 0 },
+  },
+};
+
+// What a model must be able to do to serve each feature
+const FEATURE_CAPABILITIES: Record<AiFeature, AiCapability> = {
+  "generate-scenes": "text",
+  "generate-image": "image",
+  "write-story": "text",
+};
+
+// Used when no admin setting exists or it names an unknown or unsuitable model
+const DEFAULT_MODELS: Record<AiFeature, string> = {
+  "generate-scenes": "google/gemini-2.5-flash",
+  "generate-image": "google/gemini-2.5-flash-image-preview",
+  "write-story": "google/gemini-2.5-flash",
+};
+
+const MOCK_MODELS: Record<AiFeature, string> = {
+  "generate-scenes": "mock/text",
+  "generate-image": "mock/image",
+  "write-story": "mock/text",
+};
+
+export interface AiUsage {
+  inputTokens: number;
+  outputTokens: number;
+  images: number;
+}
+
+export function calculateCost(model: AiModel, usage: AiUsage): number {
+  const { pricing } = model;
+  return (usage.inputTokens / 1000) * pricing.inputPer1k
+    + (usage.outputTokens / 1000) * pricing.outputPer1k
+    + usage.images * pricing.perImage;
+}
+
+/**
+ * The model to use for a feature: the mock model under AI_PROVIDER=mock,
+ * otherwise the admin's choice, otherwise the built-in default.
+ */
+export async function getFeatureModel(supabase: SupabaseClient, feature: AiFeature): Promise<AiModel> {
+  if (Deno.env.get("AI_PROVIDER") === "mock") {
+    return AI_MODELS[MOCK_MODELS[feature]];
+  }
+
+  const { data, error } = await supabase
+    .from("ai_model_settings")
+    .select("model_id")
+    .eq("feature", feature)
+    .maybeSingle();
+
+  if (error) {
+    console.error(`Failed to load the ${feature} model setting:`, error.message);
+  }
+
+  const model = data ? AI_MODELS[data.model_id] : undefined;
+  if (model && model.capabilities.includes(FEATURE_CAPABILITIES[feature])) {
+    return model;
+  }
+  if (data) {
+    console.warn(`Ignoring unsuitable ${feature} model "${data.model_id}"`);
+  }
+  return AI_MODELS[DEFAULT_MODELS[feature]];
+}
+
+// ============================================
+// Provider interface
+// ============================================
+
+export type ChatContentPart =
+  | { type: "text"; text: string }
+  | { type: "image_url"; image_url: { url: string } };
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string | ChatContentPart[];
+}
+
+export interface ChatRequest {
+  messages: ChatMessage[];
+  // Builds the mock provider's reply from the caller's own input, so local
+  // runs get a well-formed response for the feature
+  mockContent?: () => string;
+  signal?: AbortSignal;
+}
+
+export interface ChatResult {
+  content: string | null;
+  // Null when the provider does not report usage
+  inputTokens: number | null;
+  outputTokens: number | null;
+}
+
+export interface ImageRequest {
+  prompt: string;
+  // Reference images the model should draw from
+  imageUrls: string[];
+}
+
+export interface ImageResult {
+  image: Uint8Array;
+  contentType: string;
+}
+
+export interface AiProvider {
+  name: AiProviderName;
+  isConfigured(): boolean;
+  chat(model: AiModel, request: ChatRequest): Promise<ChatResult>;
+  // Resolves once the provider accepts the request (errors are thrown before
+  // any output), then yields the reply in pieces as it is generated
+  streamChat(model: AiModel, request: ChatRequest): Promise<AsyncIterable<string>>;
+  generateImage(model: AiModel, request: ImageRequest): Promise<ImageResult>;
+}
+
+export class AiError extends Error {
+  constructor(message: string, public status: number, public retryAfterSeconds: number | null = null) {
+    super(message);
+  }
+}
+
+// ============================================
+// Lovable AI gateway
+// ============================================
+
+const LOVABLE_AI_URL = "https://ai.gateway.lovable.dev/v1/chat/completions";
+
+interface GatewayResponse {
+  choices?: {
+    message?: {
+      content?: string;
+      images?: { image_url?: { url?: string } }[];
+    };
+  }[];
+  usage?: {
+    prompt_tokens?: number;
+    completion_tokens?: number;
+  };
+}
+
+interface GatewayStreamChunk {
+  choices?: {
+    delta?: { content?: string };
+  }[];
+}
+
+async function postGateway(body: Record<string, unknown>, signal?: AbortSignal): Promise<Response> {
+  const response = await fetch(LOVABLE_AI_URL, {
+    method: "POST",
+    headers: {
+      "Authorization": `Bearer ${Deno.env.get("LOVABLE_API_KEY")}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(body),
+    signal,
+  });
+
+  if (response.status === 429) {
+    throw new AiError("Rate limit exceeded", 429, parseRetryAfter(response.headers));
+  }
+  if (response.status === 402) {
+    throw new AiError("Credits exhausted", 402);
+  }
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error("Lovable AI error:", response.status, errorText);
+    throw new AiError(`AI service error: ${response.status}`, response.status);
+  }
+
+  return response;
+}
+
+async function callGateway(body: Record<string, unknown>, signal?: AbortSignal): Promise<GatewayResponse> {
+  const response = await postGateway(body, signal);
+  return response.json();
+}
+
+// Content deltas from the gateway's OpenAI-style server-sent events
+async function* readGatewayStream(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) return;
+      buffer += value;
+
+      const lines = buffer.split("\n");
+      buffer = lines.pop() ?? "";
+      for (const line of lines) {
+        const data = line.trim();
+        if (!data.startsWith("data:")) continue;
+        const payload = data.slice(5).trim();
+        if (payload === "[DONE]") return;
+        try {
+          const chunk: GatewayStreamChunk = JSON.parse(payload);
+          const delta = chunk.choices?.[0]?.delta?.content;
+          if (delta) yield delta;
+        } catch {
+          console.warn("Skipping malformed stream chunk:", payload.substring(0, 200));
+        }
+      }
+    }
+  } finally {
+    reader.cancel().catch(() => {});
+  }
+}
+
+const lovable: AiProvider = {
+  name: "lovable",
+
+  isConfigured: () => !!Deno.env.get("LOVABLE_API_KEY"),
+
+  async chat(model, { messages, signal }) {
+    const data = await callGateway({ model: model.id, messages }, signal);
+    return {
+      content: data.choices?.[0]?.message?.content ?? null,
+      inputTokens: data.usage?.prompt_tokens ?? null,
+      outputTokens: data.usage?.completion_tokens ?? null,
+    };
+  },
+
+  async streamChat(model, { messages, signal }) {
+    const response = await postGateway({ model: model.id, messages, stream: true }, signal);
+    if (!response.body) throw new AiError("AI service returned an empty stream", 502);
+    return readGatewayStream(response.body);
+  },
+
+  async generateImage(model, { prompt, imageUrls }) {
+    const content = imageUrls.length > 0
+      ? [
+          { type: "text", text: prompt },
+          ...imageUrls.map((url) => ({ type: "image_url", image_url: { url } })),
+        ]
+      : prompt;
+
+    const data = await callGateway({
+      model: model.id,
+      messages: [{ role: "user", content }],
+      modalities: ["image", "text"],
+    });
+
+    const imageUrl = data.choices?.[0]?.message?.images?.[0]?.image_url?.url;
+    const match = imageUrl?.match(/^data:(image\/[^;]+);base64,(.+)$/);
+    if (!match) {
+      console.error("No image in response:", JSON.stringify(data).substring(0, 500));
+      throw new AiError("No image generated", 500);
+    }
+
+    return {
+      image: Uint8Array.from(atob(match[2]), (c) => c.charCodeAt(0)),
+      contentType: match[1],
+    };
+  },
+};
+
+// ============================================
+// Mock (deterministic, offline)
+// ============================================
+// The same request always produces the same output: text comes from the
+// caller's mockContent, images are a single pixel coloured by the prompt.
+
+const MOCK_STREAM_CHUNK = 64;
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of bytes) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function pngChunk(type: string, data: number[]): number[] {
+  const body = new Uint8Array([...type].map((c) => c.charCodeAt(0)).concat(data));
+  const u32 = (n: number) => [n >>> 24, (n >>> 16) & 0xff, (n >>> 8) & 0xff, n & 0xff];
+  return [...u32(data.length), ...body, ...u32(crc32(body))];
+}
+
+// 1x1 RGB PNG whose image data is a single stored (uncompressed) deflate block
+function solidPng(r: number, g: number, b: number): Uint8Array {
+  const pixels = [0, r, g, b];
+  let a = 1;
+  let s = 0;
+  for (const byte of pixels) {
+    a = (a + byte) % 65521;
+    s = (s + a) % 65521;
+  }
+  const zlib = [0x78, 0x01, 0x01, 0x04, 0x00, 0xfb, 0xff, ...pixels, s >>> 8, s & 0xff, a >>> 8, a & 0xff];
+
+  return new Uint8Array([
+    0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+    ...pngChunk("IHDR", [0, 0, 0, 1, 0, 0, 0, 1, 8, 2, 0, 0, 0]),
+    ...pngChunk("IDAT", zlib),
+    ...pngChunk("IEND", []),
+  ]);
+}
+
+const mock: AiProvider = {
+  name: "mock",
+
+  isConfigured: () => true,
+
+  async chat(_model, { mockContent }) {
+    return { content: mockContent ? mockContent() : "Mock response", inputTokens: null, outputTokens: null };
+  },
+
+  async streamChat(_model, { mockContent }) {
+    const content = mockContent ? mockContent() : "Mock response";
+    return (async function* () {
+      for (let i = 0; i < content.length; i += MOCK_STREAM_CHUNK) {
+        yield content.slice(i, i + MOCK_STREAM_CHUNK);
+      }
+    })();
+  },
+
+  async generateImage(_model, { prompt }) {
+    const hash = crc32(new TextEncoder().encode(prompt));
+    return { image: solidPng(hash >>> 16 & 0xff, hash >>> 8 & 0xff, hash & 0xff), contentType: "image/png" };
+  },
+};
+
+export const AI_PROVIDERS: Record<AiProviderName, AiProvider> = {
+  lovable,
+  mock,
+};
+
+export function getAiProvider(model: AiModel): AiProvider {
+  return AI_PROVIDERS[model.provider];
+}
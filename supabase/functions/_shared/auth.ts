@@ -0,0 +1,39 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+/**
+ * Request Authentication
+ *
+ * Resolves the user a request acts for. Browser calls carry the user's JWT.
+ * The process-jobs worker calls with the service role key and names the job
+ * owner in the x-job-user-id header.
+ */
+
+export const JOB_USER_HEADER = "x-job-user-id";
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export async function resolveUserId(req: Request): Promise<string | null> {
+  const authHeader = req.headers.get("Authorization");
+  if (!authHeader) return null;
+
+  const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
+  const SUPABASE_ANON_KEY = Deno.env.get("SUPABASE_ANON_KEY")!;
+  const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+  if (authHeader === `Bearer ${SUPABASE_SERVICE_ROLE_KEY}`) {
+    const jobUserId = req.headers.get(JOB_USER_HEADER);
+    return jobUserId && UUID_REGEX.test(jobUserId) ? jobUserId : null;
+  }
+
+  const userSupabase = createClient(SUPABASE_URL, SUPABASE_ANON_KEY, {
+    global: { headers: { Authorization: authHeader } }
+  });
+
+  const { data: { user }, error } = await userSupabase.auth.getUser();
+  if (error || !user) {
+    console.error("Authentication failed:", error?.message);
+    return null;
+  }
+
+  return user.id;
+}
@@ -0,0 +1,95 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+/**
+ * Credit Ledger Helpers
+ *
+ * Credits are reserved before an AI call, then committed on success or
+ * refunded on failure. All balance changes go through the credit_ledger RPCs,
+ * which must be called with the service role client.
+ */
+
+export type CreditFeature = "generate-scenes" | "generate-image" | "generate-voiceover" | "export-video" | "write-story";
+
+// Credits charged per successful call
+export const CREDIT_COSTS: Record<CreditFeature, number> = {
+  "generate-scenes": 1,
+  "generate-image": 1,
+  "generate-voiceover": 1,
+  "export-video": 1,
+  "write-story": 1,
+};
+
+export interface CreditReservation {
+  ledgerId: string | null;
+  balance: number;
+  required: number;
+}
+
+interface ReserveContext {
+  projectId?: string | null;
+  sceneId?: string | null;
+  amount?: number;
+  metadata?: Record<string, unknown>;
+}
+
+export async function reserveCredits(
+  supabase: SupabaseClient,
+  userId: string,
+  feature: CreditFeature,
+  context: ReserveContext = {}
+): Promise<CreditReservation> {
+  const required = context.amount ?? CREDIT_COSTS[feature];
+
+  const { data, error } = await supabase.rpc("reserve_credits", {
+    p_user_id: userId,
+    p_amount: required,
+    p_feature: feature,
+    p_project_id: context.projectId ?? null,
+    p_scene_id: context.sceneId ?? null,
+    p_metadata: context.metadata ?? {},
+  });
+
+  if (error) {
+    console.error("Failed to reserve credits:", error);
+    throw new Error("Failed to reserve credits");
+  }
+
+  const row = Array.isArray(data) ? data[0] : data;
+  const reservation = {
+    ledgerId: row?.ledger_id ?? null,
+    balance: row?.balance ?? 0,
+    required,
+  };
+
+  if (reservation.ledgerId) {
+    console.log(`Reserved ${required} credit(s) for ${feature}, balance: ${reservation.balance}`);
+  } else {
+    console.log(`Insufficient credits for ${feature}: balance ${reservation.balance}, required ${required}`);
+  }
+
+  return reservation;
+}
+
+export async function commitCredits(supabase: SupabaseClient, ledgerId: string | null) {
+  if (!ledgerId) return;
+
+  const { error } = await supabase.rpc("commit_credits", { p_ledger_id: ledgerId });
+  if (error) {
+    console.error("Failed to commit credits:", error);
+  }
+}
+
+export async function refundCredits(supabase: SupabaseClient, ledgerId: string | null, reason: string) {
+  if (!ledgerId) return;
+
+  const { error } = await supabase.rpc("refund_credits", { p_ledger_id: ledgerId, p_reason: reason });
+  if (error) {
+    console.error("Failed to refund credits:", error);
+  } else {
+    console.log(`Refunded credit reservation ${ledgerId}: ${reason}`);
+  }
+}
+
+export function insufficientCreditsMessage(reservation: CreditReservation): string {
+  return `Insufficient credits: ${reservation.required} required, ${reservation.balance} available. Please buy more credits to continue.`;
+}
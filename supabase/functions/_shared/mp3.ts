@@ -0,0 +1,184 @@
+/**
+ * MP3 Duration
+ *
+ * Measures MP3 length by walking the MPEG audio frame headers, so stored
+ * durations match what players decode rather than a words-per-second guess.
+ * Handles ID3v2 tags, Xing/Info/VBRI headers, CBR and VBR streams. Also
+ * joins MP3s into one stream for multi-voice narration.
+ */
+
+// Bitrates in kbps by [MPEG-1 | MPEG-2/2.5][layer I | II | III]
+const BITRATES_KBPS = {
+  mpeg1: [
+    [0, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448],
+    [0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384],
+    [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  ],
+  mpeg2: [
+    [0, 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256],
+    [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+    [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+  ],
+};
+
+// Sample rates by version bits (0 = MPEG-2.5, 2 = MPEG-2, 3 = MPEG-1)
+const SAMPLE_RATES: Record<number, number[]> = {
+  0: [11025, 12000, 8000],
+  2: [22050, 24000, 16000],
+  3: [44100, 48000, 32000],
+};
+
+interface FrameHeader {
+  frameLength: number;
+  samples: number;
+  sampleRate: number;
+  sideInfoLength: number;
+}
+
+function parseFrameHeader(bytes: Uint8Array, offset: number): FrameHeader | null {
+  if (offset + 4 > bytes.length) return null;
+  if (bytes[offset] !== 0xff || (bytes[offset + 1] & 0xe0) !== 0xe0) return null;
+
+  const versionBits = (bytes[offset + 1] >> 3) & 0x03;
+  const layerBits = (bytes[offset + 1] >> 1) & 0x03;
+  const bitrateIndex = bytes[offset + 2] >> 4;
+  const sampleRateIndex = (bytes[offset + 2] >> 2) & 0x03;
+  const padding = (bytes[offset + 2] >> 1) & 0x01;
+  const isMono = ((bytes[offset + 3] >> 6) & 0x03) === 3;
+
+  if (versionBits === 1 || layerBits === 0 || bitrateIndex === 0 || bitrateIndex === 15 || sampleRateIndex === 3) {
+    return null;
+  }
+
+  const isMpeg1 = versionBits === 3;
+  const layer = 4 - layerBits; // 1, 2 or 3
+  const bitrate = BITRATES_KBPS[isMpeg1 ? "mpeg1" : "mpeg2"][layer - 1][bitrateIndex] * 1000;
+  const sampleRate = SAMPLE_RATES[versionBits][sampleRateIndex];
+
+  let samples: number;
+  let frameLength: number;
+  if (layer === 1) {
+    samples = 384;
+    frameLength = (Math.floor((12 * bitrate) / sampleRate) + padding) * 4;
+  } else {
+    samples = layer === 3 && !isMpeg1 ? 576 : 1152;
+    frameLength = Math.floor(((samples / 8) * bitrate) / sampleRate) + padding;
+  }
+
+  const sideInfoLength = isMpeg1 ? (isMono ? 17 : 32) : (isMono ? 9 : 17);
+
+  return { frameLength, samples, sampleRate, sideInfoLength };
+}
+
+function readTag(bytes: Uint8Array, offset: number): string {
+  return String.fromCharCode(...bytes.subarray(offset, offset + 4));
+}
+
+function readUint32(bytes: Uint8Array, offset: number): number {
+  return ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+}
+
+function skipId3v2(bytes: Uint8Array): number {
+  if (bytes.length < 10 || bytes[0] !== 0x49 || bytes[1] !== 0x44 || bytes[2] !== 0x33) return 0;
+
+  // Tag size is a 28-bit syncsafe integer
+  const size = (bytes[6] << 21) | (bytes[7] << 14) | (bytes[8] << 7) | bytes[9];
+  const hasFooter = (bytes[5] & 0x10) !== 0;
+  return 10 + size + (hasFooter ? 10 : 0);
+}
+
+// Returns the total frame count from a Xing/Info or VBRI header, if present
+function readVbrFrameCount(bytes: Uint8Array, offset: number, header: FrameHeader): number | null {
+  const xingOffset = offset + 4 + header.sideInfoLength;
+  const tag = readTag(bytes, xingOffset);
+  if ((tag === "Xing" || tag === "Info") && xingOffset + 12 <= bytes.length) {
+    const flags = readUint32(bytes, xingOffset + 4);
+    return flags & 0x01 ? readUint32(bytes, xingOffset + 8) : null;
+  }
+
+  const vbriOffset = offset + 4 + 32;
+  if (readTag(bytes, vbriOffset) === "VBRI" && vbriOffset + 18 <= bytes.length) {
+    return readUint32(bytes, vbriOffset + 14);
+  }
+
+  return null;
+}
+
+// Finds the first frame, confirmed by checking the next one follows it
+function findFirstFrame(bytes: Uint8Array): { offset: number; header: FrameHeader } | null {
+  let offset = skipId3v2(bytes);
+  while (offset + 4 <= bytes.length) {
+    const header = parseFrameHeader(bytes, offset);
+    if (header && (offset + header.frameLength >= bytes.length || parseFrameHeader(bytes, offset + header.frameLength))) {
+      return { offset, header };
+    }
+    offset++;
+  }
+  return null;
+}
+
+function hasVbrHeader(bytes: Uint8Array, offset: number, header: FrameHeader): boolean {
+  const tag = readTag(bytes, offset + 4 + header.sideInfoLength);
+  return tag === "Xing" || tag === "Info" || readTag(bytes, offset + 4 + 32) === "VBRI";
+}
+
+/**
+ * Returns the playback duration of an MP3 in milliseconds, or null when no
+ * MPEG audio frames are found.
+ */
+export function getMp3DurationMs(bytes: Uint8Array): number | null {
+  const found = findFirstFrame(bytes);
+  if (!found) return null;
+
+  const first = found.header;
+  let offset = found.offset;
+  const vbrFrames = readVbrFrameCount(bytes, offset, first);
+  if (vbrFrames) {
+    return Math.round((vbrFrames * first.samples * 1000) / first.sampleRate);
+  }
+
+  let seconds = 0;
+  while (offset + 4 <= bytes.length) {
+    const header = parseFrameHeader(bytes, offset);
+    if (!header || header.frameLength <= 0) {
+      offset++;
+      continue;
+    }
+    // Ignore a truncated last frame
+    if (offset + header.frameLength > bytes.length) break;
+    seconds += header.samples / header.sampleRate;
+    offset += header.frameLength;
+  }
+
+  return seconds > 0 ? Math.round(seconds * 1000) : null;
+}
+
+/**
+ * Joins MP3 files into a single stream. Each part's ID3 tags and its
+ * Xing/Info/VBRI frame are dropped, since those describe only that part and
+ * would make players read the first part's length as the whole file's.
+ * Returns null if any part has no MPEG audio frames.
+ */
+export function concatMp3(parts: Uint8Array[]): Uint8Array | null {
+  const frames: Uint8Array[] = [];
+  for (const part of parts) {
+    const found = findFirstFrame(part);
+    if (!found) return null;
+
+    let start = found.offset;
+    if (hasVbrHeader(part, start, found.header)) {
+      start += found.header.frameLength;
+    }
+    // ID3v1 tag in the last 128 bytes
+    const hasId3v1 = part.length - start >= 128 && readTag(part, part.length - 128).startsWith("TAG");
+    frames.push(part.subarray(start, hasId3v1 ? part.length - 128 : part.length));
+  }
+
+  const result = new Uint8Array(frames.reduce((sum, frame) => sum + frame.length, 0));
+  let offset = 0;
+  for (const frame of frames) {
+    result.set(frame, offset);
+    offset += frame.length;
+  }
+  return result;
+}
@@ -0,0 +1,106 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+/**
+ * Rate Limit Guard
+ *
+ * Per-user, per-feature request windows backed by the check_rate_limit RPC.
+ * Limits can be overridden per feature with an env var such as
+ * RATE_LIMIT_GENERATE_IMAGE="30/1" (requests per window of minutes).
+ */
+
+export type RateLimitFeature = "generate-scenes" | "generate-image" | "generate-voiceover" | "export-video" | "write-story";
+
+interface RateLimitConfig {
+  maxRequests: number;
+  windowMinutes: number;
+}
+
+export const RATE_LIMITS: Record<RateLimitFeature, RateLimitConfig> = {
+  "generate-scenes": { maxRequests: 5, windowMinutes: 1 },
+  "generate-image": { maxRequests: 20, windowMinutes: 1 },
+  "generate-voiceover": { maxRequests: 20, windowMinutes: 1 },
+  "export-video": { maxRequests: 5, windowMinutes: 10 },
+  "write-story": { maxRequests: 10, windowMinutes: 1 },
+};
+
+const DEFAULT_RETRY_AFTER_SECONDS = 30;
+
+export interface RateLimitResult {
+  allowed: boolean;
+  retryAfterSeconds: number;
+}
+
+function getRateLimitConfig(feature: RateLimitFeature): RateLimitConfig {
+  const override = Deno.env.get(`RATE_LIMIT_${feature.replace(/-/g, "_").toUpperCase()}`);
+  const match = override?.match(/^(\d+)\/(\d+)$/);
+  if (match) {
+    return { maxRequests: parseInt(match[1], 10), windowMinutes: parseInt(match[2], 10) };
+  }
+  return RATE_LIMITS[feature];
+}
+
+export async function checkRateLimit(
+  supabase: SupabaseClient,
+  userId: string,
+  feature: RateLimitFeature
+): Promise<RateLimitResult> {
+  const config = getRateLimitConfig(feature);
+
+  const { data: allowed, error } = await supabase.rpc("check_rate_limit", {
+    p_user_id: userId,
+    p_max_requests: config.maxRequests,
+    p_window_minutes: config.windowMinutes,
+    p_feature: feature,
+  });
+
+  if (error) {
+    // Don't block generation because the limiter itself is unavailable
+    console.error("Failed to check rate limit:", error);
+    return { allowed: true, retryAfterSeconds: 0 };
+  }
+
+  if (allowed) {
+    return { allowed: true, retryAfterSeconds: 0 };
+  }
+
+  const { data: window } = await supabase
+    .from("user_rate_limits")
+    .select("window_start")
+    .eq("user_id", userId)
+    .eq("feature", feature)
+    .maybeSingle();
+
+  const windowEnd = window
+    ? new Date(window.window_start).getTime() + config.windowMinutes * 60 * 1000
+    : Date.now() + config.windowMinutes * 60 * 1000;
+  const retryAfterSeconds = Math.max(1, Math.ceil((windowEnd - Date.now()) / 1000));
+
+  console.log(`Rate limit hit for ${feature} by user ${userId}, retry after ${retryAfterSeconds}s`);
+
+  return { allowed: false, retryAfterSeconds };
+}
+
+// Reads a Retry-After header given in seconds, falling back when it is absent
+export function parseRetryAfter(headers: Headers, fallbackSeconds = DEFAULT_RETRY_AFTER_SECONDS): number {
+  const seconds = parseInt(headers.get("Retry-After") ?? "", 10);
+  return Number.isFinite(seconds) && seconds > 0 ? seconds : fallbackSeconds;
+}
+
+export function rateLimitResponse(retryAfterSeconds: number, corsHeaders: Record<string, string>): Response {
+  return new Response(
+    JSON.stringify({
+      error: "Rate limit exceeded",
+      message: `Too many requests. Please try again in ${retryAfterSeconds} seconds.`,
+      retryAfter: retryAfterSeconds,
+    }),
+    {
+      status: 429,
+      headers: {
+        ...corsHeaders,
+        "Content-Type": "application/json",
+        "Retry-After": String(retryAfterSeconds),
+        "Access-Control-Expose-Headers": "Retry-After",
+      },
+    }
+  );
+}
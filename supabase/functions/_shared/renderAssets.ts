@@ -0,0 +1,78 @@
+/**
+ * Render Asset URLs
+ *
+ * The render worker downloads every file named in an export manifest, so only
+ * public URLs of this deployment's own storage are accepted, and only for
+ * objects that belong to the project being rendered:
+ *
+ *   project-assets/<scene_id>/...                    generated scene assets
+ *   project-assets/<user_id>/scenes/<scene_id>/...   the owner's scene uploads
+ *   project-assets/<user_id>/music/<project_id>-...  the owner's uploaded music
+ *   music-library/...                                bundled music tracks
+ *
+ * export-video checks this when it writes the manifest, and the worker checks
+ * it again before each download.
+ */
+
+export type RenderAssetKind = "scene" | "music";
+
+export interface RenderAssetScope {
+  userId: string;
+  projectId: string;
+  sceneIds: string[];
+}
+
+const PUBLIC_OBJECT_PATH = "/storage/v1/object/public/";
+
+// Bucket and decoded path segments of a public storage URL, or null for anything else
+function parsePublicObjectUrl(url: string, supabaseUrl: string): { bucket: string; path: string[] } | null {
+  let parsed: URL;
+  let base: URL;
+  try {
+    parsed = new URL(url);
+    base = new URL(supabaseUrl);
+  } catch {
+    return null;
+  }
+
+  if (parsed.origin !== base.origin || parsed.username || parsed.password || parsed.search || parsed.hash) {
+    return null;
+  }
+  if (!parsed.pathname.startsWith(PUBLIC_OBJECT_PATH)) return null;
+
+  let segments: string[];
+  try {
+    segments = parsed.pathname.slice(PUBLIC_OBJECT_PATH.length).split("/").map(decodeURIComponent);
+  } catch {
+    return null;
+  }
+  if (segments.length < 2 || segments.some((s) => !s || s === "." || s === ".." || /[/\\]/.test(s))) {
+    return null;
+  }
+
+  return { bucket: segments[0], path: segments.slice(1) };
+}
+
+export function isRenderAssetUrl(
+  url: unknown,
+  kind: RenderAssetKind,
+  scope: RenderAssetScope,
+  supabaseUrl: string
+): boolean {
+  if (typeof url !== "string") return false;
+
+  const object = parsePublicObjectUrl(url, supabaseUrl);
+  if (!object) return false;
+
+  if (object.bucket === "music-library") return kind === "music";
+  if (object.bucket !== "project-assets") return false;
+
+  const [first, second, third] = object.path;
+  if (kind === "music") {
+    return object.path.length === 3 && first === scope.userId && second === "music" && third.startsWith(`${scope.projectId}-`);
+  }
+  if (object.path.length === 2) {
+    return scope.sceneIds.includes(first);
+  }
+  return object.path.length === 4 && first === scope.userId && second === "scenes" && scope.sceneIds.includes(third);
+}
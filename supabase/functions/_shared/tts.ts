@@ -0,0 +1,258 @@
+import { parseRetryAfter } from "./rateLimit.ts";
+import { concatMp3, getMp3DurationMs } from "./mp3.ts";
+import { concatWav, getWavDurationMs } from "./wav.ts";
+
+/**
+ * Text-to-Speech Providers
+ *
+ * generate-voiceover talks to TTS engines through this interface, so the
+ * hosted ElevenLabs API and a self-hosted Piper server are interchangeable.
+ * Piper needs no API key or internet access: it is the fallback when
+ * ElevenLabs is unavailable and lets the whole pipeline run offline.
+ */
+
+export type TtsProviderName = "elevenlabs" | "piper";
+
+export interface WordTiming {
+  text: string;
+  start_ms: number;
+  end_ms: number;
+}
+
+export interface VoiceSettings {
+  stability: number;
+  similarity_boost: number;
+  style: number;
+}
+
+export interface TtsVoice {
+  id: string;
+  name: string;
+  language: string | null;
+}
+
+export interface SynthesisRequest {
+  voiceId: string;
+  text: string;
+  settings: VoiceSettings;
+  // Neighbouring segments, for providers that keep intonation continuous across them
+  previousText?: string;
+  nextText?: string;
+}
+
+export interface SynthesisResult {
+  audio: Uint8Array;
+  durationMs: number | null;
+  // Empty when the provider has no alignment support
+  wordTimings: WordTiming[];
+}
+
+export interface TtsProvider {
+  name: TtsProviderName;
+  model: string;
+  // USD, for api_usage_logs
+  costPer1kChars: number;
+  supportsAlignment: boolean;
+  contentType: string;
+  fileExtension: string;
+  // Used when the voice catalogue has nothing for the language and type
+  defaultVoiceId: string;
+  isConfigured(): boolean;
+  listVoices(): Promise<TtsVoice[]>;
+  synthesize(request: SynthesisRequest): Promise<SynthesisResult>;
+  // Joins separately synthesized segments into one file
+  concat(parts: Uint8Array[]): Uint8Array;
+}
+
+export class TtsError extends Error {
+  constructor(message: string, public status: number, public retryAfterSeconds: number | null = null) {
+    super(message);
+  }
+}
+
+async function toTtsError(provider: string, response: Response): Promise<TtsError> {
+  const errorText = await response.text();
+  console.error(`${provider} error:`, response.status, errorText);
+  if (response.status === 429) {
+    return new TtsError("Rate limit exceeded", 429, parseRetryAfter(response.headers));
+  }
+  return new TtsError(`${provider} API error: ${response.status}`, response.status);
+}
+
+// ============================================
+// ElevenLabs
+// ============================================
+
+interface ElevenLabsAlignment {
+  characters: string[];
+  character_start_times_seconds: number[];
+  character_end_times_seconds: number[];
+}
+
+// Collapses ElevenLabs' per-character alignment into per-word timings
+function toWordTimings(alignment: ElevenLabsAlignment | null | undefined): WordTiming[] {
+  if (!alignment?.characters?.length) return [];
+
+  const words: WordTiming[] = [];
+  let current: WordTiming | null = null;
+
+  alignment.characters.forEach((char, i) => {
+    if (/\s/.test(char)) {
+      current = null;
+      return;
+    }
+    const startMs = Math.round(alignment.character_start_times_seconds[i] * 1000);
+    const endMs = Math.round(alignment.character_end_times_seconds[i] * 1000);
+    if (!current) {
+      current = { text: char, start_ms: startMs, end_ms: endMs };
+      words.push(current);
+    } else {
+      current.text += char;
+      current.end_ms = endMs;
+    }
+  });
+
+  return words;
+}
+
+// Decodes the base64 audio returned by the timestamped endpoint
+function decodeBase64(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+const elevenLabs: TtsProvider = {
+  name: "elevenlabs",
+  model: "eleven_multilingual_v2",
+  costPer1kChars: 0.30,
+  supportsAlignment: true,
+  contentType: "audio/mpeg",
+  fileExtension: "mp3",
+  defaultVoiceId: "EXAVITQu4vr4xnSDxMaL",
+
+  isConfigured: () => !!Deno.env.get("ELEVENLABS_API_KEY"),
+
+  async listVoices() {
+    const response = await fetch("https://api.elevenlabs.io/v1/voices", {
+      headers: { "xi-api-key": Deno.env.get("ELEVENLABS_API_KEY")! },
+    });
+    if (!response.ok) throw await toTtsError("ElevenLabs", response);
+
+    const data = await response.json();
+    return (data.voices ?? []).map((voice: { voice_id: string; name: string; labels?: { language?: string } }) => ({
+      id: voice.voice_id,
+      name: voice.name,
+      language: voice.labels?.language ?? null,
+    }));
+  },
+
+  async synthesize({ voiceId, text, settings, previousText, nextText }) {
+    const response = await fetch(
+      `https://api.elevenlabs.io/v1/text-to-speech/${voiceId}/with-timestamps?output_format=mp3_44100_128`,
+      {
+        method: "POST",
+        headers: {
+          "xi-api-key": Deno.env.get("ELEVENLABS_API_KEY")!,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          text,
+          model_id: "eleven_multilingual_v2",
+          previous_text: previousText,
+          next_text: nextText,
+          voice_settings: {
+            ...settings,
+            use_speaker_boost: true,
+          },
+        }),
+      }
+    );
+    if (!response.ok) throw await toTtsError("ElevenLabs", response);
+
+    // The timestamped endpoint returns the audio alongside character alignment
+    const result = await response.json();
+    if (!result.audio_base64) {
+      throw new TtsError("No audio returned from TTS", 502);
+    }
+    const audio = decodeBase64(result.audio_base64);
+    return { audio, durationMs: getMp3DurationMs(audio), wordTimings: toWordTimings(result.alignment) };
+  },
+
+  // Parts share one output format, so their frames can be joined directly
+  concat(parts) {
+    const joined = concatMp3(parts);
+    if (!joined) throw new TtsError("Failed to join MP3 segments", 500);
+    return joined;
+  },
+};
+
+// ============================================
+// Piper (self-hosted)
+// ============================================
+// Piper's HTTP server (python -m piper.http_server) at PIPER_URL, with the
+// catalogue's voice models downloaded into its data directory. It has no
+// word alignment, so captions are timed by character count instead.
+
+const piper: TtsProvider = {
+  name: "piper",
+  model: "piper",
+  costPer1kChars: 0,
+  supportsAlignment: false,
+  contentType: "audio/wav",
+  fileExtension: "wav",
+  defaultVoiceId: "en_US-lessac-medium",
+
+  isConfigured: () => !!Deno.env.get("PIPER_URL"),
+
+  async listVoices() {
+    const response = await fetch(`${Deno.env.get("PIPER_URL")}/voices`);
+    if (!response.ok) throw await toTtsError("Piper", response);
+
+    const voices: Record<string, { language?: { code?: string } }> = await response.json();
+    return Object.entries(voices).map(([id, config]) => ({
+      id,
+      name: id,
+      language: config.language?.code ?? null,
+    }));
+  },
+
+  async synthesize({ voiceId, text }) {
+    const response = await fetch(`${Deno.env.get("PIPER_URL")}/`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ text, voice: voiceId }),
+    });
+    if (!response.ok) throw await toTtsError("Piper", response);
+
+    const audio = new Uint8Array(await response.arrayBuffer());
+    const durationMs = getWavDurationMs(audio);
+    if (durationMs === null) {
+      throw new TtsError("Piper returned audio that is not a WAV file", 502);
+    }
+    return { audio, durationMs, wordTimings: [] };
+  },
+
+  concat(parts) {
+    const joined = concatWav(parts);
+    if (!joined) throw new TtsError("Failed to join WAV segments", 500);
+    return joined;
+  },
+};
+
+export const TTS_PROVIDERS: Record<TtsProviderName, TtsProvider> = {
+  elevenlabs: elevenLabs,
+  piper,
+};
+
+/**
+ * Configured providers in the order to try them: the project's choice
+ * first (ElevenLabs by default), then the other as a fallback.
+ */
+export function getTtsProviders(preferred: string | null): TtsProvider[] {
+  const order: TtsProviderName[] = preferred === "piper" ? ["piper", "elevenlabs"] : ["elevenlabs", "piper"];
+  return order.map((name) => TTS_PROVIDERS[name]).filter((provider) => provider.isConfigured());
+}
@@ -0,0 +1,91 @@
+/**
+ * WAV Helpers
+ *
+ * Duration and concatenation for the PCM WAV files produced by local TTS
+ * engines, the counterpart of mp3.ts for ElevenLabs output.
+ */
+
+interface WavLayout {
+  fmt: Uint8Array;
+  data: Uint8Array;
+  byteRate: number;
+}
+
+function readTag(bytes: Uint8Array, offset: number): string {
+  return String.fromCharCode(...bytes.subarray(offset, offset + 4));
+}
+
+// Finds the fmt and data chunks, skipping any LIST or other chunks between them
+function parseWav(bytes: Uint8Array): WavLayout | null {
+  if (bytes.length < 12 || readTag(bytes, 0) !== "RIFF" || readTag(bytes, 8) !== "WAVE") return null;
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let fmt: Uint8Array | null = null;
+  let offset = 12;
+
+  while (offset + 8 <= bytes.length) {
+    const id = readTag(bytes, offset);
+    // Streaming encoders leave the data size at 0 or 0xFFFFFFFF; it then runs to the end
+    let size = view.getUint32(offset + 4, true);
+    if (id === "data" && (size === 0 || size === 0xffffffff || offset + 8 + size > bytes.length)) {
+      size = bytes.length - offset - 8;
+    }
+
+    const body = bytes.subarray(offset + 8, offset + 8 + size);
+    if (id === "fmt ") fmt = body;
+    if (id === "data" && fmt) {
+      const byteRate = new DataView(fmt.buffer, fmt.byteOffset, fmt.byteLength).getUint32(8, true);
+      return { fmt, data: body, byteRate };
+    }
+
+    // Chunks are padded to an even length
+    offset += 8 + size + (size % 2);
+  }
+
+  return null;
+}
+
+/**
+ * Returns the playback duration of a WAV in milliseconds, or null when the
+ * file has no readable fmt and data chunks.
+ */
+export function getWavDurationMs(bytes: Uint8Array): number | null {
+  const wav = parseWav(bytes);
+  if (!wav || wav.byteRate === 0) return null;
+  return Math.round((wav.data.length * 1000) / wav.byteRate);
+}
+
+/**
+ * Joins WAV files that share one format into a single file, using the
+ * first file's fmt chunk. Returns null if any part isn't a readable WAV.
+ */
+export function concatWav(parts: Uint8Array[]): Uint8Array | null {
+  const layouts = parts.map(parseWav);
+  if (layouts.length === 0 || layouts.some((layout) => !layout)) return null;
+
+  const fmt = layouts[0]!.fmt;
+  const dataSize = layouts.reduce((sum, layout) => sum + layout!.data.length, 0);
+  const result = new Uint8Array(12 + 8 + fmt.length + 8 + dataSize);
+  const view = new DataView(result.buffer);
+  const writeTag = (offset: number, tag: string) => {
+    for (let i = 0; i < 4; i++) result[offset + i] = tag.charCodeAt(i);
+  };
+
+  writeTag(0, "RIFF");
+  view.setUint32(4, result.length - 8, true);
+  writeTag(8, "WAVE");
+  writeTag(12, "fmt ");
+  view.setUint32(16, fmt.length, true);
+  result.set(fmt, 20);
+
+  let offset = 20 + fmt.length;
+  writeTag(offset, "data");
+  view.setUint32(offset + 4, dataSize, true);
+  offset += 8;
+  for (const layout of layouts) {
+    result.set(layout!.data, offset);
+    offset += layout!.data.length;
+  }
+
+  return result;
+}
@@ -1,25 +1,35 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { resolveUserId } from "../_shared/auth.ts";
+import { checkRateLimit, rateLimitResponse } from "../_shared/rateLimit.ts";
+import { reserveCredits, commitCredits, refundCredits, insufficientCreditsMessage } from "../_shared/credits.ts";
+import { AiError, calculateCost, getAiProvider, getFeatureModel } from "../_shared/ai.ts";
+import type { AiModel, ImageResult } from "../_shared/ai.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
-const LOVABLE_AI_URL = "https://ai.gateway.lovable.dev/v1/chat/completions";
-
 const VALID_STYLES = ["cartoon", "storybook", "kids_illustration"];
 const VALID_MOODS = ["calm", "emotional", "dramatic", "happy", "tense", "sad", "exciting"];
+const VALID_ASPECT_RATIOS = ["16:9", "9:16"];
+
+const ASPECT_PROMPTS: Record<string, string> = {
+  "16:9": "Horizontal 16:9 landscape composition, 1920x1080.",
+  "9:16": "Vertical 9:16 portrait composition, 1080x1920, main subject centred with room above and below.",
+};
 
 const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
 const MAX_DESCRIPTION_LENGTH = 2000;
+const MAX_REFERENCE_IMAGES = 3;
 
-// Cost pricing configuration (USD)
-const AI_PRICING = {
-  "gemini-image": {
-    per_image: 0.04,
-  },
-};
+interface SceneCharacter {
+  name: string;
+  description: string;
+  reference_image_url: string | null;
+  style_token: string | null;
+}
 
 const USD_TO_INR = 83;
 
@@ -27,27 +37,37 @@ function sanitizeText(text: string): string {
   return text.replace(/[\x00-\x08\x0B\x0C\x0E-\x1F\x7F]/g, '').trim();
 }
 
+// Canonical character descriptions, repeated verbatim so every scene draws them the same way
+function buildCharacterPrompt(characters: SceneCharacter[]): string {
+  if (characters.length === 0) return "";
+  const entries = characters.map((c) => {
+    const description = c.description ? `: ${sanitizeText(c.description)}` : "";
+    const token = c.style_token ? ` (${sanitizeText(c.style_token)})` : "";
+    return `${sanitizeText(c.name)}${description}${token}`;
+  });
+  return ` Characters, drawn exactly as described in every scene: ${entries.join("; ")}.`;
+}
+
 async function logUsage(
   supabase: any,
   userId: string,
   projectId: string | null,
   sceneId: string | null,
   feature: string,
-  provider: string,
-  model: string,
+  model: AiModel,
   status: "success" | "failed",
   errorMessage?: string
 ) {
   try {
-    const costUsd = AI_PRICING["gemini-image"].per_image;
+    const costUsd = calculateCost(model, { inputTokens: 0, outputTokens: 0, images: 1 });
     const costInr = costUsd * USD_TO_INR;
 
     await supabase.from('api_usage_logs').insert({
       user_id: userId,
       project_id: projectId,
       scene_id: sceneId,
-      provider,
-      model,
+      provider: model.vendor,
+      model: model.name,
       feature,
       input_tokens: 0,
       output_tokens: 0,
@@ -71,7 +91,6 @@ serve(async (req) => {
   }
 
   const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
-  const SUPABASE_ANON_KEY = Deno.env.get("SUPABASE_ANON_KEY")!;
   const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
 
   const serviceSupabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
@@ -79,6 +98,8 @@ serve(async (req) => {
   let userId: string | null = null;
   let projectId: string | null = null;
   let sceneId: string | null = null;
+  let ledgerId: string | null = null;
+  let model: AiModel | null = null;
 
   try {
     const authHeader = req.headers.get('Authorization');
@@ -89,23 +110,24 @@ serve(async (req) => {
       );
     }
 
-    const userSupabase = createClient(SUPABASE_URL, SUPABASE_ANON_KEY, {
-      global: { headers: { Authorization: authHeader } }
-    });
-
-    const { data: { user }, error: authError } = await userSupabase.auth.getUser();
-    if (authError || !user) {
+    const authenticatedUserId = await resolveUserId(req);
+    if (!authenticatedUserId) {
       return new Response(
         JSON.stringify({ error: "Invalid or expired token" }),
         { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
 
-    userId = user.id;
-    console.log(`Authenticated user: ${user.id}`);
+    userId = authenticatedUserId;
+    console.log(`Authenticated user: ${userId}`);
+
+    const rateLimit = await checkRateLimit(serviceSupabase, userId, "generate-image");
+    if (!rateLimit.allowed) {
+      return rateLimitResponse(rateLimit.retryAfterSeconds, corsHeaders);
+    }
 
     const body = await req.json();
-    const { sceneId: reqSceneId, visualDescription, style, mood } = body;
+    const { sceneId: reqSceneId, visualDescription, style, mood, aspectRatio, reframe } = body;
     sceneId = reqSceneId;
 
     if (!sceneId || typeof sceneId !== 'string' || !UUID_REGEX.test(sceneId)) {
@@ -132,10 +154,12 @@ serve(async (req) => {
 
     const validatedStyle = VALID_STYLES.includes(style) ? style : "cartoon";
     const validatedMood = VALID_MOODS.includes(mood) ? mood : "calm";
+    const validatedAspectRatio = VALID_ASPECT_RATIOS.includes(aspectRatio) ? aspectRatio : "16:9";
+    const isReframe = reframe === true;
 
     const { data: scene, error: sceneError } = await serviceSupabase
       .from('scenes')
-      .select('project_id, projects(user_id)')
+      .select('project_id, image_url, character_ids, projects(user_id)')
       .eq('id', sceneId)
       .single();
 
@@ -148,18 +172,27 @@ serve(async (req) => {
 
     projectId = scene.project_id;
     const projectUserId = (scene.projects as any)?.user_id;
-    if (projectUserId !== user.id) {
+    if (projectUserId !== userId) {
       return new Response(
         JSON.stringify({ error: "You don't have permission to access this scene" }),
         { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
 
-    const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
+    // Reframing recomposes the scene's current image, never a client-supplied URL
+    if (isReframe && !scene.image_url) {
+      return new Response(
+        JSON.stringify({ error: "Scene has no image to reframe" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
 
-    if (!LOVABLE_API_KEY) {
+    model = await getFeatureModel(serviceSupabase, "generate-image");
+    const provider = getAiProvider(model);
+
+    if (!provider.isConfigured()) {
       return new Response(
-        JSON.stringify({ error: "Lovable API key not configured" }),
+        JSON.stringify({ error: "AI provider not configured" }),
         { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
@@ -180,88 +213,86 @@ serve(async (req) => {
       exciting: "dynamic action, vibrant energy",
     };
 
-    const prompt = `${sanitizedDescription}. Style: ${stylePrompts[validatedStyle]}. Mood: ${moodPrompts[validatedMood]}. High quality, detailed illustration suitable for children's story video. 16:9 aspect ratio.`;
-
-    console.log(`Generating image for scene ${sceneId}`);
-
-    const response = await fetch(LOVABLE_AI_URL, {
-      method: "POST",
-      headers: {
-        "Authorization": `Bearer ${LOVABLE_API_KEY}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "google/gemini-2.5-flash-image-preview",
-        messages: [
-          { role: "user", content: prompt }
-        ],
-        modalities: ["image", "text"],
-      }),
-    });
-
-    if (response.status === 429) {
-      await logUsage(serviceSupabase, userId, projectId, sceneId, "generate-image", "google", "gemini-2.5-flash-image-preview", "failed", "Rate limit exceeded");
-      return new Response(
-        JSON.stringify({ error: "Rate limit exceeded. Please wait a moment and try again." }),
-        { status: 429, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+    let characters: SceneCharacter[] = [];
+    if (scene.character_ids?.length > 0) {
+      const { data: characterRows } = await serviceSupabase
+        .from('characters')
+        .select('name, description, reference_image_url, style_token')
+        .eq('project_id', projectId)
+        .in('id', scene.character_ids);
+      characters = characterRows ?? [];
     }
 
-    if (response.status === 402) {
-      await logUsage(serviceSupabase, userId, projectId, sceneId, "generate-image", "google", "gemini-2.5-flash-image-preview", "failed", "Credits exhausted");
+    const referenceImageUrls = characters
+      .map((c) => c.reference_image_url)
+      .filter((url): url is string => !!url)
+      .slice(0, MAX_REFERENCE_IMAGES);
+
+    const referencePrompt = referenceImageUrls.length > 0
+      ? " Match the characters' appearance to the attached reference images."
+      : "";
+
+    const reframePrompt = isReframe
+      ? `Recompose the first attached illustration for a ${validatedAspectRatio} frame. Keep the characters, art style, colours and lighting identical and extend the background naturally instead of stretching or cropping the subject. `
+      : "";
+
+    const prompt = `${reframePrompt}${sanitizedDescription}.${buildCharacterPrompt(characters)}${referencePrompt} Style: ${stylePrompts[validatedStyle]}. Mood: ${moodPrompts[validatedMood]}. High quality, detailed illustration suitable for children's story video. ${ASPECT_PROMPTS[validatedAspectRatio]}`;
+
+    const inputImageUrls = isReframe ? [scene.image_url, ...referenceImageUrls] : referenceImageUrls;
+
+    const reservation = await reserveCredits(serviceSupabase, userId, "generate-image", { projectId, sceneId });
+    if (!reservation.ledgerId) {
       return new Response(
-        JSON.stringify({ error: "AI credits exhausted. Please add credits to continue." }),
+        JSON.stringify({ error: insufficientCreditsMessage(reservation) }),
         { status: 402, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
+    ledgerId = reservation.ledgerId;
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error("Lovable AI error:", response.status, errorText);
-      await logUsage(serviceSupabase, userId, projectId, sceneId, "generate-image", "google", "gemini-2.5-flash-image-preview", "failed", `API error: ${response.status}`);
-      return new Response(
-        JSON.stringify({ error: `AI service error: ${response.status}` }),
-        { status: response.status, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
-    }
+    console.log(
+      `${isReframe ? "Reframing" : "Generating"} ${validatedAspectRatio} image for scene ${sceneId} with ${characters.length} character(s)`
+    );
 
-    const data = await response.json();
-    
-    const images = data.choices?.[0]?.message?.images;
-    let imageData: string | null = null;
-
-    if (images && images.length > 0) {
-      const imageUrl = images[0]?.image_url?.url;
-      if (imageUrl?.startsWith('data:image/')) {
-        const base64Match = imageUrl.match(/data:image\/[^;]+;base64,(.+)/);
-        if (base64Match) {
-          imageData = base64Match[1];
-        }
+    let result: ImageResult;
+    try {
+      result = await provider.generateImage(model, { prompt, imageUrls: inputImageUrls });
+    } catch (error) {
+      if (!(error instanceof AiError)) throw error;
+      await logUsage(serviceSupabase, userId, projectId, sceneId, "generate-image", model, "failed", error.message);
+
+      if (error.status === 429 && error.retryAfterSeconds !== null) {
+        await refundCredits(serviceSupabase, ledgerId, "Rate limit exceeded");
+        return rateLimitResponse(error.retryAfterSeconds, corsHeaders);
       }
-    }
 
-    if (!imageData) {
-      console.error("No image in response:", JSON.stringify(data).substring(0, 500));
-      await logUsage(serviceSupabase, userId, projectId, sceneId, "generate-image", "google", "gemini-2.5-flash-image-preview", "failed", "No image generated");
+      if (error.status === 402) {
+        await refundCredits(serviceSupabase, ledgerId, "Provider credits exhausted");
+        return new Response(
+          JSON.stringify({ error: "AI credits exhausted. Please add credits to continue." }),
+          { status: 402, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      await refundCredits(serviceSupabase, ledgerId, error.message);
       return new Response(
-        JSON.stringify({ error: "No image generated" }),
-        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        JSON.stringify({ error: error.message }),
+        { status: error.status, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
 
-    const imageBuffer = Uint8Array.from(atob(imageData), c => c.charCodeAt(0));
-    const fileName = `${sceneId}/${Date.now()}.png`;
+    const fileName = `${sceneId}/${Date.now()}${isReframe ? `-${validatedAspectRatio.replace(":", "x")}` : ""}.png`;
 
     const { error: uploadError } = await serviceSupabase.storage
       .from('project-assets')
-      .upload(fileName, imageBuffer, {
-        contentType: 'image/png',
+      .upload(fileName, result.image, {
+        contentType: result.contentType,
         upsert: true,
       });
 
     if (uploadError) {
       console.error("Upload error:", uploadError);
-      await logUsage(serviceSupabase, userId, projectId, sceneId, "generate-image", "google", "gemini-2.5-flash-image-preview", "failed", "Failed to upload image");
+      await logUsage(serviceSupabase, userId, projectId, sceneId, "generate-image", model, "failed", "Failed to upload image");
+      await refundCredits(serviceSupabase, ledgerId, "Failed to upload image");
       return new Response(
         JSON.stringify({ error: "Failed to upload image" }),
         { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
@@ -272,8 +303,10 @@ serve(async (req) => {
       .from('project-assets')
       .getPublicUrl(fileName);
 
+    await commitCredits(serviceSupabase, ledgerId);
+
     // Log successful usage
-    await logUsage(serviceSupabase, userId, projectId, sceneId, "generate-image", "google", "gemini-2.5-flash-image-preview", "success");
+    await logUsage(serviceSupabase, userId, projectId, sceneId, "generate-image", model, "success");
 
     console.log(`Image generated for scene ${sceneId}: ${urlData.publicUrl}`);
 
@@ -284,9 +317,11 @@ serve(async (req) => {
   } catch (error) {
     console.error("Generate image error:", error);
     
-    if (userId) {
-      await logUsage(serviceSupabase, userId, projectId, sceneId, "generate-image", "google", "gemini-2.5-flash-image-preview", "failed", error instanceof Error ? error.message : "Unknown error");
+    if (userId && model) {
+      await logUsage(serviceSupabase, userId, projectId, sceneId, "generate-image", model, "failed", error instanceof Error ? error.message : "Unknown error");
     }
+
+    await refundCredits(serviceSupabase, ledgerId, error instanceof Error ? error.message : "Unknown error");
     
     return new Response(
       JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }),
@@ -1,34 +1,322 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { resolveUserId } from "../_shared/auth.ts";
+import { checkRateLimit, rateLimitResponse } from "../_shared/rateLimit.ts";
+import { reserveCredits, commitCredits, refundCredits, insufficientCreditsMessage } from "../_shared/credits.ts";
+import { AiError, calculateCost, getAiProvider, getFeatureModel } from "../_shared/ai.ts";
+import type { AiModel, ChatMessage, ChatResult } from "../_shared/ai.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
-const LOVABLE_AI_URL = "https://ai.gateway.lovable.dev/v1/chat/completions";
-
 const VALID_LANGUAGES = ["hindi", "hinglish", "english"];
 const VALID_STORY_TYPES = ["kids", "bedtime", "moral"];
 const VALID_TONES = ["calm", "emotional", "dramatic"];
+const VALID_MOODS = ["calm", "emotional", "dramatic", "happy", "tense", "sad", "exciting"];
 
 const MAX_SCRIPT_LENGTH = 10000;
 const MIN_SCRIPT_LENGTH = 10;
-
-// Cost pricing configuration (USD)
-const AI_PRICING = {
-  "gemini-2.5-flash": {
-    input_per_1k: 0.00035,
-    output_per_1k: 0.00105,
-  },
-};
+const MAX_CHARACTERS = 20;
+const MAX_CHARACTER_NAME_LENGTH = 80;
+const MAX_CHARACTER_DESCRIPTION_LENGTH = 1000;
+const MAX_EXISTING_SCENES = 50;
+
+// Bounds the model's scenes are checked and clamped to
+const MIN_SCENES = 1;
+const MAX_SCENES = 12;
+const MIN_SCENE_DURATION = 2;
+const MAX_SCENE_DURATION = 60;
+const MAX_TITLE_LENGTH = 100;
+const MAX_VISUAL_DESCRIPTION_LENGTH = 2000;
+// Share of the script's words the narration must contain; allows for small
+// rewordings while catching dropped or summarised passages
+const MIN_SCRIPT_COVERAGE = 0.9;
+const MAX_REPAIR_ATTEMPTS = 1;
 
 const USD_TO_INR = 83;
 
+const CACHE_TTL_DAYS = 30;
+// Bumped whenever the response shape changes so stale cache entries are skipped
+const PROMPT_VERSION = 3;
+
+interface KnownCharacter {
+  name: string;
+  description: string;
+}
+
+// Mirrors SceneGenerationResult in src/lib/types.ts
+interface GeneratedSegment {
+  speaker: string;
+  text: string;
+}
+
+interface GeneratedScene {
+  title: string;
+  narration_text: string;
+  visual_description: string;
+  estimated_duration: number;
+  mood: string;
+  characters: string[];
+  segments: GeneratedSegment[];
+}
+
+interface SceneGenerationResult {
+  scenes: GeneratedScene[];
+  characters: KnownCharacter[];
+}
+
+interface SceneValidation {
+  result: SceneGenerationResult | null;
+  errors: string[];
+}
+
+// Scenes 1-based and inclusive, rewritten in place of the project's current ones
+interface SceneRange {
+  start: number;
+  end: number;
+  scenes: ExistingScene[];
+}
+
+interface ExistingScene {
+  title: string;
+  narration_text: string;
+}
+
+interface CacheEntry {
+  scriptHash: string;
+  language: string;
+  storyType: string;
+  tone: string;
+}
+
 function sanitizeText(text: string): string {
   return text.replace(/[\x00-\x08\x0B\x0C\x0E-\x1F\x7F]/g, '').trim();
 }
 
+// Characters already in the project's bible, which the model must reuse by name
+function validateCharacters(characters: unknown): KnownCharacter[] {
+  if (!Array.isArray(characters)) return [];
+  return characters
+    .filter((c) => c && typeof c.name === 'string' && sanitizeText(c.name).length > 0)
+    .slice(0, MAX_CHARACTERS)
+    .map((c) => ({
+      name: sanitizeText(c.name).slice(0, MAX_CHARACTER_NAME_LENGTH),
+      description: typeof c.description === 'string'
+        ? sanitizeText(c.description).slice(0, MAX_CHARACTER_DESCRIPTION_LENGTH)
+        : "",
+    }));
+}
+
+// Collapse formatting-only differences so re-pasted scripts share a cache entry
+function normalizeScript(script: string): string {
+  return script
+    .normalize("NFC")
+    .replace(/\r\n?/g, "\n")
+    .replace(/[ \t]+/g, " ")
+    .replace(/ ?\n ?/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+// Cache key covers the script and every setting that shapes the prompt
+async function hashScript(
+  script: string,
+  language: string,
+  storyType: string,
+  tone: string,
+  characters: KnownCharacter[]
+): Promise<string> {
+  const characterKey = characters.map((c) => `${c.name}:${c.description}`).join(";");
+  const data = new TextEncoder().encode(
+    `v${PROMPT_VERSION}|${language}|${storyType}|${tone}|${characterKey}|${normalizeScript(script)}`
+  );
+  const digest = await crypto.subtle.digest("SHA-256", data);
+  return Array.from(new Uint8Array(digest)).map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+// Deterministic stand-in for the model's reply under the mock provider: the
+// script's paragraphs grouped into scenes, all read by the narrator
+function mockScenes(script: string, characters: KnownCharacter[]) {
+  const paragraphs = normalizeScript(script).split(/\n+/).filter((p) => p.trim());
+  const perScene = Math.ceil(paragraphs.length / MAX_SCENES);
+  const narrations: string[] = [];
+  for (let i = 0; i < paragraphs.length; i += perScene) {
+    narrations.push(paragraphs.slice(i, i + perScene).join(" "));
+  }
+
+  return {
+    characters,
+    scenes: narrations.map((narration, i) => ({
+      title: `Scene ${i + 1}`,
+      narration_text: narration,
+      visual_description: narration.split(/(?<=[.!?])\s/)[0],
+      estimated_duration: Math.max(3, Math.round(narration.split(/\s+/).length / 2.5)),
+      mood: "calm",
+      characters: characters.filter((c) => narration.includes(c.name)).map((c) => c.name),
+      segments: [{ speaker: "Narrator", text: narration }],
+    })),
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function cleanString(value: unknown, maxLength: number): string {
+  return typeof value === "string" ? sanitizeText(value).slice(0, maxLength) : "";
+}
+
+function countWords(text: string): string[] {
+  return text.normalize("NFC").toLowerCase().match(/[\p{L}\p{M}\p{N}]+/gu) ?? [];
+}
+
+// Fraction of the script's words, counted with repeats, found in the narration
+function scriptCoverage(script: string, narration: string): number {
+  const scriptWords = countWords(script);
+  if (scriptWords.length === 0) return 1;
+
+  const available = new Map<string, number>();
+  for (const word of countWords(narration)) {
+    available.set(word, (available.get(word) ?? 0) + 1);
+  }
+
+  let covered = 0;
+  for (const word of scriptWords) {
+    const count = available.get(word) ?? 0;
+    if (count > 0) {
+      covered++;
+      available.set(word, count - 1);
+    }
+  }
+  return covered / scriptWords.length;
+}
+
+// Clamps one scene to sane bounds; missing required text is reported separately
+function toGeneratedScene(scene: Record<string, unknown>): GeneratedScene {
+  const narration = cleanString(scene.narration_text, MAX_SCRIPT_LENGTH);
+  const duration = Number(scene.estimated_duration);
+  // Unusable durations are estimated at 2.5 words per second
+  const seconds = Number.isFinite(duration) && duration > 0 ? duration : countWords(narration).length / 2.5;
+  const mood = typeof scene.mood === "string" ? scene.mood.trim().toLowerCase() : "";
+
+  return {
+    title: cleanString(scene.title, MAX_TITLE_LENGTH),
+    narration_text: narration,
+    visual_description: cleanString(scene.visual_description, MAX_VISUAL_DESCRIPTION_LENGTH),
+    estimated_duration: Math.round(Math.min(MAX_SCENE_DURATION, Math.max(MIN_SCENE_DURATION, seconds))),
+    mood: VALID_MOODS.includes(mood) ? mood : "calm",
+    characters: (Array.isArray(scene.characters) ? scene.characters : [])
+      .filter((name): name is string => typeof name === "string" && name.trim().length > 0)
+      .map((name) => sanitizeText(name).slice(0, MAX_CHARACTER_NAME_LENGTH))
+      .slice(0, MAX_CHARACTERS),
+    // process-jobs falls back to a single narrator voice if these don't add up to the narration
+    segments: (Array.isArray(scene.segments) ? scene.segments : [])
+      .filter(isRecord)
+      .filter((segment) => typeof segment.speaker === "string" && typeof segment.text === "string")
+      .map((segment) => ({ speaker: sanitizeText(segment.speaker as string), text: sanitizeText(segment.text as string) })),
+  };
+}
+
+/**
+ * Parses the model's reply and checks it against the response schema.
+ * Returns the clamped result, or the problems to send back in a repair prompt.
+ * For a range rewrite the kept scenes count towards covering the script.
+ */
+function validateSceneResult(content: string, script: string, range: SceneRange | null = null): SceneValidation {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(content.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim());
+  } catch {
+    return { result: null, errors: ["The response is not valid JSON"] };
+  }
+
+  if (!isRecord(raw) || !Array.isArray(raw.scenes)) {
+    return { result: null, errors: ['The response must be an object with a "scenes" array'] };
+  }
+
+  const errors: string[] = [];
+  if (raw.scenes.length < MIN_SCENES || raw.scenes.length > MAX_SCENES) {
+    errors.push(`Return between ${MIN_SCENES} and ${MAX_SCENES} scenes, not ${raw.scenes.length}`);
+  }
+
+  const scenes = raw.scenes.map((value, i) => {
+    const scene = toGeneratedScene(isRecord(value) ? value : {});
+    for (const field of ["title", "narration_text", "visual_description"] as const) {
+      if (!scene[field]) errors.push(`Scene ${i + 1} is missing "${field}"`);
+    }
+    return scene;
+  });
+
+  const narration = [
+    range ? rangeNarration(range, 0, range.start - 1) : "",
+    ...scenes.map((scene) => scene.narration_text),
+    range ? rangeNarration(range, range.end, range.scenes.length) : "",
+  ].join(" ");
+  const coverage = scriptCoverage(script, narration);
+  if (coverage < MIN_SCRIPT_COVERAGE) {
+    errors.push(
+      range
+        ? `With the kept scenes, the narration_text covers only ${Math.round(coverage * 100)}% of the script; the new scenes must narrate their whole passage word for word`
+        : `The scenes' narration_text covers only ${Math.round(coverage * 100)}% of the script; together the scenes must narrate the entire script word for word`
+    );
+  }
+
+  if (errors.length > 0) {
+    return { result: null, errors };
+  }
+
+  return { result: { scenes, characters: validateCharacters(raw.characters) }, errors: [] };
+}
+
+function buildRepairPrompt(errors: string[]): string {
+  return `Your response could not be used:
+${errors.map((error) => `- ${error}`).join("\n")}
+
+Fix these problems and return the complete corrected JSON object for the same script, with exactly the structure described earlier. Return ONLY the JSON (no markdown, no code blocks).`;
+}
+
+// The project's current scenes and the span to replace; null if either is unusable
+function validateRange(range: unknown, scenes: unknown): SceneRange | null {
+  if (!isRecord(range) || !Array.isArray(scenes) || scenes.length > MAX_EXISTING_SCENES) return null;
+
+  const existing = scenes.filter(isRecord).map((scene) => ({
+    title: cleanString(scene.title, MAX_TITLE_LENGTH),
+    narration_text: cleanString(scene.narration_text, MAX_SCRIPT_LENGTH),
+  }));
+  const { start, end } = range;
+  if (
+    existing.length !== scenes.length ||
+    !Number.isInteger(start) || !Number.isInteger(end) ||
+    (start as number) < 1 || (start as number) > (end as number) || (end as number) > existing.length
+  ) {
+    return null;
+  }
+
+  return { start: start as number, end: end as number, scenes: existing };
+}
+
+function rangeNarration(range: SceneRange, from: number, to: number): string {
+  return range.scenes.slice(from, to).map((scene) => scene.narration_text).join(" ");
+}
+
+function buildRangePrompt(range: SceneRange): string {
+  const { start, end, scenes } = range;
+  const neighbours = [
+    start > 1 ? `scene ${start - 1}` : "the start of the script",
+    end < scenes.length ? `scene ${end + 1}` : "the end of the script",
+  ];
+
+  return `
+You are rewriting scenes ${start}-${end} of an existing breakdown of ${scenes.length} scenes; every other scene is kept as it is.
+- Return in "scenes" ONLY the replacement scenes for that range, as few or as many as the passage needs
+- Together they must narrate, word for word, the part of the script between ${neighbours[0]} and ${neighbours[1]}
+- Carry on naturally from the scene before and lead into the scene after, keeping characters, setting and mood continuous
+`;
+}
+
 // Estimate tokens (rough: 1 token ≈ 4 chars for English, 2-3 for Hindi)
 function estimateTokens(text: string, isOutput = false): number {
   const avgCharsPerToken = 4;
@@ -41,23 +329,23 @@ async function logUsage(
   projectId: string | null,
   feature: string,
   provider: string,
-  model: string,
+  model: AiModel,
   inputTokens: number,
   outputTokens: number,
   status: "success" | "failed",
-  errorMessage?: string
+  errorMessage?: string,
+  metadata?: Record<string, unknown>
 ) {
   try {
     const totalTokens = inputTokens + outputTokens;
-    const pricing = AI_PRICING["gemini-2.5-flash"];
-    const costUsd = (inputTokens / 1000) * pricing.input_per_1k + (outputTokens / 1000) * pricing.output_per_1k;
+    const costUsd = calculateCost(model, { inputTokens, outputTokens, images: 0 });
     const costInr = costUsd * USD_TO_INR;
 
     await supabase.from('api_usage_logs').insert({
       user_id: userId,
       project_id: projectId,
       provider,
-      model,
+      model: model.name,
       feature,
       input_tokens: inputTokens,
       output_tokens: outputTokens,
@@ -67,6 +355,7 @@ async function logUsage(
       cost_inr: costInr,
       status,
       error_message: errorMessage,
+      metadata,
     });
 
     console.log(`Usage logged: ${feature}, tokens: ${totalTokens}, cost: $${costUsd.toFixed(6)}`);
@@ -76,13 +365,299 @@ async function logUsage(
   }
 }
 
+// Response for a provider failure, after refunding the reservation
+async function aiErrorResponse(supabase: SupabaseClient, ledgerId: string | null, error: AiError): Promise<Response> {
+  if (error.status === 429 && error.retryAfterSeconds !== null) {
+    await refundCredits(supabase, ledgerId, "Rate limit exceeded");
+    return rateLimitResponse(error.retryAfterSeconds, corsHeaders);
+  }
+
+  if (error.status === 402) {
+    await refundCredits(supabase, ledgerId, "Provider credits exhausted");
+    return new Response(
+      JSON.stringify({ error: "AI credits exhausted. Please add credits to continue." }),
+      { status: 402, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+
+  await refundCredits(supabase, ledgerId, error.message);
+  return new Response(
+    JSON.stringify({ error: error.message }),
+    { status: error.status, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+  );
+}
+
+async function cacheScenes(supabase: SupabaseClient, entry: CacheEntry, result: SceneGenerationResult) {
+  const { error } = await supabase
+    .from('script_cache')
+    .upsert({
+      script_hash: entry.scriptHash,
+      language: entry.language,
+      story_type: entry.storyType,
+      tone: entry.tone,
+      cached_scenes: result,
+      hit_count: 0,
+      expires_at: new Date(Date.now() + CACHE_TTL_DAYS * 24 * 60 * 60 * 1000).toISOString(),
+    }, { onConflict: 'script_hash' });
+
+  if (error) {
+    console.error("Failed to cache scenes:", error.message);
+  }
+}
+
+// ============================================
+// Streaming
+// ============================================
+// With { stream: true } the reply is sent as server-sent events while the
+// model writes it: "characters" once, "scene" for each finished scene, then
+// "done" with any warnings and whether the credit was refunded, or "error".
+// process-jobs reads it to save each scene of a generate-scenes job as it
+// arrives.
+
+type SceneStreamEvent =
+  | { type: "characters"; value: unknown }
+  | { type: "scene"; value: unknown };
+
+/**
+ * Incremental reader for the model's JSON. Reports the top-level
+ * "characters" array and each element of "scenes" as soon as its closing
+ * bracket arrives; anything before the opening brace (such as a markdown
+ * fence) is skipped.
+ */
+function createSceneStreamParser(): (chunk: string) => SceneStreamEvent[] {
+  const stack: { open: "{" | "["; start: number; key: string | null }[] = [];
+  let buffer = "";
+  let position = 0;
+  let inString = false;
+  let escaped = false;
+  let stringStart = 0;
+  // Last string closed directly inside the top-level object, i.e. the key of the next value
+  let lastKey: string | null = null;
+
+  return (chunk) => {
+    buffer += chunk;
+    const events: SceneStreamEvent[] = [];
+
+    for (; position < buffer.length; position++) {
+      const char = buffer[position];
+
+      if (inString) {
+        if (escaped) {
+          escaped = false;
+        } else if (char === "\\") {
+          escaped = true;
+        } else if (char === '"') {
+          inString = false;
+          if (stack.length === 1) lastKey = buffer.slice(stringStart + 1, position);
+        }
+        continue;
+      }
+
+      if (stack.length === 0) {
+        if (char === "{") stack.push({ open: "{", start: position, key: null });
+      } else if (char === '"') {
+        inString = true;
+        stringStart = position;
+      } else if (char === "{" || char === "[") {
+        stack.push({ open: char, start: position, key: stack.length === 1 ? lastKey : null });
+      } else if (char === "}" || char === "]") {
+        const closed = stack.pop()!;
+        const parent = stack[stack.length - 1];
+        const text = buffer.slice(closed.start, position + 1);
+
+        try {
+          if (closed.open === "{" && stack.length === 2 && parent.key === "scenes") {
+            events.push({ type: "scene", value: JSON.parse(text) });
+          } else if (closed.open === "[" && stack.length === 1 && closed.key === "characters") {
+            events.push({ type: "characters", value: JSON.parse(text) });
+          }
+        } catch {
+          console.warn("Skipping unparseable streamed value:", text.substring(0, 200));
+        }
+      }
+    }
+
+    return events;
+  };
+}
+
+function eventStreamResponse(body: BodyInit): Response {
+  return new Response(body, {
+    headers: { ...corsHeaders, "Content-Type": "text/event-stream", "Cache-Control": "no-cache" },
+  });
+}
+
+function formatEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+// A cache hit sent in the same events as a live stream
+function replayScenes(result: SceneGenerationResult): Response {
+  const events = [
+    formatEvent("characters", result.characters ?? []),
+    ...result.scenes.map((scene, index) => formatEvent("scene", { index, scene })),
+    formatEvent("done", { scene_count: result.scenes.length, warnings: [], refunded: false, cached: true }),
+  ];
+  return eventStreamResponse(events.join(""));
+}
+
+interface SceneStreamContext {
+  supabase: SupabaseClient;
+  userId: string;
+  projectId: string | null;
+  ledgerId: string;
+  model: AiModel;
+  script: string;
+  inputTokens: number;
+  // Null when the output must not be cached
+  cacheEntry: CacheEntry | null;
+}
+
+/**
+ * Forwards scenes to the caller as the model finishes them, up to
+ * MAX_SCENES. Sent scenes can't be taken back, so a stream is never
+ * repaired: problems are reported as warnings instead. If the scenes sent
+ * don't cover the script as the non-stream path requires, the credit is
+ * refunded and "done" says so; the caller must then discard the scenes. A
+ * caller that cancels keeps what it received and is charged once a scene
+ * went out.
+ */
+async function runSceneStream(
+  ctx: SceneStreamContext,
+  deltas: AsyncIterable<string>,
+  signal: AbortSignal,
+  send: (event: string, data: unknown) => void
+) {
+  const parse = createSceneStreamParser();
+  const warnings: string[] = [];
+  const narrations: string[] = [];
+  let content = "";
+  let sent = 0;
+  let dropped = 0;
+  let streamError: string | null = null;
+
+  const handleEvent = (event: SceneStreamEvent) => {
+    if (event.type === "characters") {
+      send("characters", validateCharacters(event.value));
+      return;
+    }
+    if (sent === MAX_SCENES) {
+      dropped++;
+      return;
+    }
+    const scene = toGeneratedScene(isRecord(event.value) ? event.value : {});
+    if (!scene.title || !scene.narration_text || !scene.visual_description) {
+      warnings.push(`An incomplete scene after scene ${sent} was skipped`);
+      return;
+    }
+    send("scene", { index: sent, scene });
+    narrations.push(scene.narration_text);
+    sent++;
+  };
+
+  try {
+    for await (const delta of deltas) {
+      if (signal.aborted) break;
+      content += delta;
+      parse(delta).forEach(handleEvent);
+    }
+  } catch (error) {
+    if (!signal.aborted) {
+      console.error("Scene stream error:", error);
+      streamError = error instanceof Error ? error.message : "Unknown error";
+    }
+  }
+
+  if (dropped > 0) {
+    warnings.push(`Only the first ${MAX_SCENES} scenes were kept; ${dropped} more were left out`);
+  }
+
+  const outputTokens = estimateTokens(content, true);
+  const { supabase, userId, projectId, ledgerId, model, inputTokens } = ctx;
+
+  // Judged on the scenes the caller received, which is all it is charged for
+  const coverage = scriptCoverage(ctx.script, narrations.join(" "));
+  const incomplete = !signal.aborted && !streamError && sent > 0 && coverage < MIN_SCRIPT_COVERAGE;
+  const coverageWarning = `The scenes narrate only ${Math.round(coverage * 100)}% of the script, so this generation was not charged`;
+
+  if (sent > 0 && !incomplete) {
+    await commitCredits(supabase, ledgerId);
+  } else {
+    await refundCredits(
+      supabase,
+      ledgerId,
+      signal.aborted ? "Cancelled" : streamError ?? (incomplete ? coverageWarning : "No scenes generated")
+    );
+  }
+
+  if (signal.aborted) {
+    console.log(`Scene stream cancelled after ${sent} scene(s)`);
+    await logUsage(supabase, userId, projectId, "generate-scenes", model.vendor, model, inputTokens, outputTokens, "failed", `Cancelled after ${sent} scene(s)`);
+    return;
+  }
+
+  if (streamError || sent === 0) {
+    const message = streamError ?? "No scenes generated";
+    await logUsage(supabase, userId, projectId, "generate-scenes", model.vendor, model, inputTokens, outputTokens, "failed", message);
+    send("error", { error: message, scene_count: sent });
+    return;
+  }
+
+  if (incomplete) {
+    await logUsage(supabase, userId, projectId, "generate-scenes", model.vendor, model, inputTokens, outputTokens, "failed", coverageWarning, {
+      streamed: true,
+    });
+    console.warn(`Streamed ${sent} scenes for user ${userId} covering ${Math.round(coverage * 100)}% of the script; refunded`);
+    send("done", { scene_count: sent, warnings: [...warnings, coverageWarning], refunded: true });
+    return;
+  }
+
+  // Only a reply that passes the non-stream checks in full is cached
+  const validation = validateSceneResult(content, ctx.script);
+  if (validation.result && ctx.cacheEntry) {
+    await cacheScenes(supabase, ctx.cacheEntry, validation.result);
+  }
+
+  await logUsage(supabase, userId, projectId, "generate-scenes", model.vendor, model, inputTokens, outputTokens, "success", undefined, {
+    streamed: true,
+  });
+  console.log(`Streamed ${sent} scenes for user ${userId}`);
+
+  send("done", { scene_count: sent, warnings, refunded: false });
+}
+
+function streamScenes(ctx: SceneStreamContext, deltas: AsyncIterable<string>, abort: AbortController): Response {
+  const encoder = new TextEncoder();
+
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (event: string, data: unknown) => {
+        if (!abort.signal.aborted) controller.enqueue(encoder.encode(formatEvent(event, data)));
+      };
+      runSceneStream(ctx, deltas, abort.signal, send)
+        .catch((error) => {
+          console.error("Scene stream failed:", error);
+          send("error", { error: error instanceof Error ? error.message : "Unknown error" });
+        })
+        .finally(() => {
+          if (!abort.signal.aborted) controller.close();
+        });
+    },
+    // The caller went away or cancelled; stop reading from the model
+    cancel() {
+      abort.abort();
+    },
+  });
+
+  return eventStreamResponse(body);
+}
+
 serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
   }
 
   const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
-  const SUPABASE_ANON_KEY = Deno.env.get("SUPABASE_ANON_KEY")!;
   const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
 
   // Service role client for logging
@@ -92,6 +667,8 @@ serve(async (req) => {
   let projectId: string | null = null;
   let inputTokens = 0;
   let outputTokens = 0;
+  let ledgerId: string | null = null;
+  let model: AiModel | null = null;
 
   try {
     const authHeader = req.headers.get('Authorization');
@@ -102,24 +679,27 @@ serve(async (req) => {
       );
     }
 
-    const supabase = createClient(SUPABASE_URL, SUPABASE_ANON_KEY, {
-      global: { headers: { Authorization: authHeader } }
-    });
-
-    const { data: { user }, error: authError } = await supabase.auth.getUser();
-    if (authError || !user) {
+    const authenticatedUserId = await resolveUserId(req);
+    if (!authenticatedUserId) {
       return new Response(
         JSON.stringify({ error: "Invalid or expired token" }),
         { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
 
-    userId = user.id;
-    console.log(`Authenticated user: ${user.id}`);
+    userId = authenticatedUserId;
+    console.log(`Authenticated user: ${userId}`);
+
+    const rateLimit = await checkRateLimit(serviceSupabase, userId, "generate-scenes");
+    if (!rateLimit.allowed) {
+      return rateLimitResponse(rateLimit.retryAfterSeconds, corsHeaders);
+    }
 
     const body = await req.json();
-    const { script, language, storyType, tone, projectId: reqProjectId } = body;
+    const { script, language, storyType, tone, characters, projectId: reqProjectId, stream, range: reqRange, scenes } = body;
     projectId = reqProjectId || null;
+    // Range rewrites are small enough to return in one response
+    const isStreaming = stream === true && reqRange === undefined;
 
     if (!script || typeof script !== 'string') {
       return new Response(
@@ -146,12 +726,57 @@ serve(async (req) => {
     const validatedLanguage = VALID_LANGUAGES.includes(language) ? language : "english";
     const validatedStoryType = VALID_STORY_TYPES.includes(storyType) ? storyType : "kids";
     const validatedTone = VALID_TONES.includes(tone) ? tone : "calm";
+    const knownCharacters = validateCharacters(characters);
 
-    const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
+    const range = reqRange === undefined ? null : validateRange(reqRange, scenes);
+    if (reqRange !== undefined && !range) {
+      return new Response(
+        JSON.stringify({ error: "Invalid scene range" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
 
-    if (!LOVABLE_API_KEY) {
+    const scriptHash = await hashScript(sanitizedScript, validatedLanguage, validatedStoryType, validatedTone, knownCharacters);
+
+    model = await getFeatureModel(serviceSupabase, "generate-scenes");
+    const provider = getAiProvider(model);
+    // Mock output and range rewrites are never cached, nor served from the cache
+    const useCache = provider.name !== "mock" && !range;
+
+    const { data: cached } = await serviceSupabase
+      .from('script_cache')
+      .select('id, cached_scenes, hit_count')
+      .eq('script_hash', scriptHash)
+      .gt('expires_at', new Date().toISOString())
+      .maybeSingle();
+
+    if (cached && useCache) {
+      await serviceSupabase
+        .from('script_cache')
+        .update({ hit_count: cached.hit_count + 1 })
+        .eq('id', cached.id);
+
+      // Zero tokens means zero cost; the cache provider shows up as savings in analytics
+      await logUsage(serviceSupabase, userId, projectId, "generate-scenes", "cache", model, 0, 0, "success", undefined, {
+        cache_hit: true,
+        script_hash: scriptHash,
+        hit_count: cached.hit_count + 1,
+      });
+
+      console.log(`Script cache hit for user ${userId}: ${scriptHash}`);
+
+      if (isStreaming) {
+        return replayScenes(cached.cached_scenes as SceneGenerationResult);
+      }
+
+      return new Response(JSON.stringify(cached.cached_scenes), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    if (!provider.isConfigured()) {
       return new Response(
-        JSON.stringify({ error: "Lovable API key not configured" }),
+        JSON.stringify({ error: "AI provider not configured" }),
         { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
@@ -162,106 +787,153 @@ Guidelines:
 - Create 6-12 scenes maximum
 - Each scene should represent a distinct visual moment
 - Don't split sentence by sentence - group related content
+- narration_text is the script itself, copied word for word: together the scenes must narrate the entire script in order, with nothing left out, summarised or reworded
 - Include clear visual descriptions for image generation
 - Estimate duration based on narration length (avg 2-3 words per second)
+- List every recurring character (people, animals, named objects) once in "characters" with a fixed visual description: species, age, clothing, colours and distinguishing features
+- Tag each scene with the names of the characters visible in it, spelled exactly as in "characters"
+- Describe characters in visual_description by name and action only; their look comes from the character list
+- Split each scene's narration into "segments" in reading order: storytelling is spoken by "Narrator", every line of dialogue by the character who says it (spelled exactly as in "characters"). The segment texts joined with single spaces must equal narration_text exactly
 
 Language: ${validatedLanguage}
 Story Type: ${validatedStoryType}
 Tone: ${validatedTone}
-
-Return ONLY a valid JSON object with this exact structure (no markdown, no code blocks):
+${knownCharacters.length > 0 ? `
+Known characters (reuse these names and descriptions exactly):
+${knownCharacters.map((c) => `- ${c.name}: ${c.description}`).join("\n")}
+` : ""}${range ? buildRangePrompt(range) : ""}
+Return ONLY a valid JSON object with this exact structure, "characters" first (no markdown, no code blocks):
 {
+  "characters": [
+    {
+      "name": "Character name",
+      "description": "Fixed visual description"
+    }
+  ],
   "scenes": [
     {
       "title": "Scene title (short)",
-      "narration_text": "The exact text to be narrated",
+      "narration_text": "This scene's passage of the script, word for word",
       "visual_description": "Detailed visual description for AI image generation",
       "estimated_duration": 5,
-      "mood": "calm/happy/tense/sad/exciting"
+      "mood": "calm/happy/tense/sad/exciting",
+      "characters": ["Character name"],
+      "segments": [
+        { "speaker": "Narrator", "text": "Narrated part of narration_text" },
+        { "speaker": "Character name", "text": "Spoken line" }
+      ]
     }
   ]
 }`;
 
-    const userMessage = `Analyze this story script and create scenes:\n\n${sanitizedScript}`;
-    
-    // Estimate input tokens
-    inputTokens = estimateTokens(systemPrompt + userMessage);
-
-    console.log("Calling Lovable AI for scene generation...");
-
-    const response = await fetch(LOVABLE_AI_URL, {
-      method: "POST",
-      headers: {
-        "Authorization": `Bearer ${LOVABLE_API_KEY}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "google/gemini-2.5-flash",
-        messages: [
-          { role: "system", content: systemPrompt },
-          { role: "user", content: userMessage }
-        ],
-      }),
-    });
-
-    if (response.status === 429) {
-      await logUsage(serviceSupabase, userId, projectId, "generate-scenes", "google", "gemini-2.5-flash", inputTokens, 0, "failed", "Rate limit exceeded");
-      return new Response(
-        JSON.stringify({ error: "Rate limit exceeded. Please wait a moment and try again." }),
-        { status: 429, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
-    }
+    const userMessage = range
+      ? `Rewrite scenes ${range.start}-${range.end} of this story script:\n\n${sanitizedScript}\n\nCurrent scenes:\n${range.scenes
+          .map((scene, i) => `${i + 1}. ${i + 1 >= range.start && i + 1 <= range.end ? "[rewrite] " : ""}${scene.title}: ${scene.narration_text}`)
+          .join("\n")}`
+      : `Analyze this story script and create scenes:\n\n${sanitizedScript}`;
 
-    if (response.status === 402) {
-      await logUsage(serviceSupabase, userId, projectId, "generate-scenes", "google", "gemini-2.5-flash", inputTokens, 0, "failed", "Credits exhausted");
+    const reservation = await reserveCredits(serviceSupabase, userId, "generate-scenes", { projectId });
+    if (!reservation.ledgerId) {
       return new Response(
-        JSON.stringify({ error: "AI credits exhausted. Please add credits to continue." }),
+        JSON.stringify({ error: insufficientCreditsMessage(reservation) }),
         { status: 402, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error("Lovable AI error:", response.status, errorText);
-      await logUsage(serviceSupabase, userId, projectId, "generate-scenes", "google", "gemini-2.5-flash", inputTokens, 0, "failed", `API error: ${response.status}`);
-      return new Response(
-        JSON.stringify({ error: `AI service error: ${response.status}` }),
-        { status: response.status, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    ledgerId = reservation.ledgerId;
+    
+    const messages: ChatMessage[] = [
+      { role: "system", content: systemPrompt },
+      { role: "user", content: userMessage }
+    ];
+    const mockContent = () =>
+      JSON.stringify(mockScenes(range ? rangeNarration(range, range.start - 1, range.end) : sanitizedScript, knownCharacters));
+    const cacheEntry = useCache
+      ? { scriptHash, language: validatedLanguage, storyType: validatedStoryType, tone: validatedTone }
+      : null;
+
+    if (isStreaming) {
+      inputTokens = estimateTokens(systemPrompt + userMessage);
+      const abort = new AbortController();
+
+      let deltas: AsyncIterable<string>;
+      try {
+        deltas = await provider.streamChat(model, { messages, mockContent, signal: abort.signal });
+      } catch (error) {
+        if (!(error instanceof AiError)) throw error;
+        await logUsage(serviceSupabase, userId, projectId, "generate-scenes", model.vendor, model, inputTokens, 0, "failed", error.message);
+        return aiErrorResponse(serviceSupabase, ledgerId, error);
+      }
+
+      console.log(`Streaming scenes from ${model.id}...`);
+      return streamScenes(
+        { supabase: serviceSupabase, userId, projectId, ledgerId, model, script: sanitizedScript, inputTokens, cacheEntry },
+        deltas,
+        abort
       );
     }
 
-    const data = await response.json();
-    const content = data.choices?.[0]?.message?.content;
-
-    // Extract token usage from response if available
-    const usage = data.usage;
-    if (usage) {
-      inputTokens = usage.prompt_tokens || inputTokens;
-      outputTokens = usage.completion_tokens || estimateTokens(content || "", true);
-    } else {
-      outputTokens = estimateTokens(content || "", true);
+    let parsed: SceneGenerationResult;
+
+    // Replies that fail validation are sent back once with the problems found
+    for (let attempt = 0; ; attempt++) {
+      // Estimate input tokens
+      inputTokens = estimateTokens(messages.map((m) => typeof m.content === "string" ? m.content : "").join(""));
+      outputTokens = 0;
+
+      console.log(`Calling ${model.id} for scene generation${attempt > 0 ? " (repair)" : ""}...`);
+
+      let result: ChatResult;
+      try {
+        result = await provider.chat(model, { messages, mockContent });
+      } catch (error) {
+        if (!(error instanceof AiError)) throw error;
+        await logUsage(serviceSupabase, userId, projectId, "generate-scenes", model.vendor, model, inputTokens, 0, "failed", error.message);
+        return aiErrorResponse(serviceSupabase, ledgerId, error);
+      }
+
+      const content = result.content;
+
+      // Token usage from the provider when it reports it, otherwise estimated
+      inputTokens = result.inputTokens || inputTokens;
+      outputTokens = result.outputTokens || estimateTokens(content || "", true);
+
+      // Logged and refunded by the outer catch
+      if (!content) {
+        console.error("No content in response from", model.id);
+        throw new Error("No content in AI response");
+      }
+
+      const validation = validateSceneResult(content, sanitizedScript, range);
+      if (validation.result) {
+        parsed = validation.result;
+        break;
+      }
+
+      const problems = validation.errors.join("; ");
+      console.warn(`Invalid scenes from ${model.id}:`, problems);
+      if (attempt >= MAX_REPAIR_ATTEMPTS) {
+        throw new Error(`AI returned invalid scenes: ${problems}`);
+      }
+
+      // Each attempt is billed, so the rejected one is logged on its own
+      await logUsage(serviceSupabase, userId, projectId, "generate-scenes", model.vendor, model, inputTokens, outputTokens, "failed", `Invalid scenes: ${problems}`);
+      messages.push(
+        { role: "assistant", content },
+        { role: "user", content: buildRepairPrompt(validation.errors) }
+      );
     }
 
-    if (!content) {
-      console.error("No content in response:", JSON.stringify(data));
-      await logUsage(serviceSupabase, userId, projectId, "generate-scenes", "google", "gemini-2.5-flash", inputTokens, outputTokens, "failed", "No content in response");
-      throw new Error("No content in AI response");
-    }
+    await commitCredits(serviceSupabase, ledgerId);
 
-    let parsed;
-    try {
-      const cleanContent = content.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
-      parsed = JSON.parse(cleanContent);
-    } catch (parseError) {
-      console.error("Failed to parse AI response:", content);
-      await logUsage(serviceSupabase, userId, projectId, "generate-scenes", "google", "gemini-2.5-flash", inputTokens, outputTokens, "failed", "Invalid JSON response");
-      throw new Error("Invalid JSON response from AI");
+    if (cacheEntry) {
+      await cacheScenes(serviceSupabase, cacheEntry, parsed);
     }
 
     // Log successful usage
-    await logUsage(serviceSupabase, userId, projectId, "generate-scenes", "google", "gemini-2.5-flash", inputTokens, outputTokens, "success");
+    await logUsage(serviceSupabase, userId, projectId, "generate-scenes", model.vendor, model, inputTokens, outputTokens, "success", undefined,
+      range ? { range: { start: range.start, end: range.end } } : undefined);
 
-    console.log(`Generated ${parsed.scenes?.length || 0} scenes for user ${user.id}`);
+    console.log(`Generated ${parsed.scenes.length} scenes for user ${userId}${range ? ` (scenes ${range.start}-${range.end})` : ""}`);
 
     return new Response(JSON.stringify(parsed), {
       headers: { ...corsHeaders, "Content-Type": "application/json" },
@@ -270,9 +942,11 @@ Return ONLY a valid JSON object with this exact structure (no markdown, no code
     console.error("Generate scenes error:", error);
     
     // Log failed usage
-    if (userId) {
-      await logUsage(serviceSupabase, userId, projectId, "generate-scenes", "google", "gemini-2.5-flash", inputTokens, outputTokens, "failed", error instanceof Error ? error.message : "Unknown error");
+    if (userId && model) {
+      await logUsage(serviceSupabase, userId, projectId, "generate-scenes", model.vendor, model, inputTokens, outputTokens, "failed", error instanceof Error ? error.message : "Unknown error");
     }
+
+    await refundCredits(serviceSupabase, ledgerId, error instanceof Error ? error.message : "Unknown error");
     
     return new Response(
       JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }),
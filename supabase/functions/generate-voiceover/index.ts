@@ -1,11 +1,20 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { resolveUserId } from "../_shared/auth.ts";
+import { checkRateLimit, rateLimitResponse } from "../_shared/rateLimit.ts";
+import { reserveCredits, commitCredits, refundCredits, insufficientCreditsMessage } from "../_shared/credits.ts";
+import { getTtsProviders, TtsError, TTS_PROVIDERS } from "../_shared/tts.ts";
+import type { TtsProvider, VoiceSettings, WordTiming } from "../_shared/tts.ts";
 
 /**
  * Generate Voiceover Edge Function
  * 
- * Uses ElevenLabs API for text-to-speech.
+ * Synthesizes scene narration through the project's TTS provider (see
+ * _shared/tts.ts), falling back to the next configured provider when it is
+ * unavailable, with voices from the voices catalogue.
  * Includes authentication, authorization, input validation, and usage tracking.
+ * Dialogue scenes arrive as speaker segments, each read in its own voice and
+ * joined into a single file with word timings on the combined timeline.
  */
 
 const corsHeaders = {
@@ -13,6 +22,36 @@ const corsHeaders = {
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
+// A segment with neither voice id nor type is the narrator, read in the project's voice.
+// The rank tells apart characters sharing a type without a picked voice.
+interface VoiceSegment {
+  text: string;
+  voiceId: string | null;
+  voiceType: string | null;
+  voiceRank: number;
+}
+
+interface CatalogueVoice {
+  id: string;
+  provider: string;
+  provider_voice_id: string;
+  language: string;
+  voice_type: string;
+  voice_settings: Partial<VoiceSettings> | null;
+}
+
+interface ProjectVoice {
+  tts_provider: string | null;
+  voice_id: string | null;
+  voice_stability: number | null;
+  voice_style: number | null;
+}
+
+interface ResolvedVoice {
+  voiceId: string;
+  settings: VoiceSettings;
+}
+
 const VALID_VOICE_TYPES = ["male", "female", "child"];
 const VALID_LANGUAGES = ["hindi", "hinglish", "english"];
 
@@ -20,38 +59,124 @@ const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12
 
 const MAX_TEXT_LENGTH = 5000;
 const MIN_TEXT_LENGTH = 1;
-
-// Cost pricing configuration (USD)
-const AI_PRICING = {
-  elevenlabs: {
-    per_1k_chars: 0.30,
-  },
-};
+const MAX_SEGMENTS = 40;
 
 const USD_TO_INR = 83;
 
-const voiceMap: Record<string, Record<string, string>> = {
-  hindi: {
-    female: "EXAVITQu4vr4xnSDxMaL",
-    male: "JBFqnCBsd6RMkjVDRZzb",
-    child: "pFZP5JQG7iQjIQuC4Bku",
-  },
-  hinglish: {
-    female: "EXAVITQu4vr4xnSDxMaL",
-    male: "JBFqnCBsd6RMkjVDRZzb",
-    child: "pFZP5JQG7iQjIQuC4Bku",
-  },
-  english: {
-    female: "EXAVITQu4vr4xnSDxMaL",
-    male: "JBFqnCBsd6RMkjVDRZzb",
-    child: "pFZP5JQG7iQjIQuC4Bku",
-  },
-};
+const DEFAULT_VOICE_SETTINGS: VoiceSettings = { stability: 0.6, similarity_boost: 0.75, style: 0.4 };
 
 function sanitizeText(text: string): string {
   return text.replace(/[\x00-\x08\x0B\x0C\x0E-\x1F\x7F]/g, '').trim();
 }
 
+// Speaker segments for dialogue; anything unusable falls back to one read of the full text
+function validateSegments(segments: unknown, text: string): VoiceSegment[] {
+  const singleRead = [{ text, voiceId: null, voiceType: null, voiceRank: 0 }];
+  if (!Array.isArray(segments) || segments.length === 0 || segments.length > MAX_SEGMENTS) {
+    return singleRead;
+  }
+
+  const validated = segments
+    .filter((s) => s && typeof s.text === 'string' && sanitizeText(s.text).length > 0)
+    .map((s) => ({
+      text: sanitizeText(s.text),
+      voiceId: typeof s.voiceId === 'string' && UUID_REGEX.test(s.voiceId) ? s.voiceId : null,
+      voiceType: VALID_VOICE_TYPES.includes(s.voiceType) ? s.voiceType : null,
+      voiceRank: Number.isInteger(s.voiceRank) && s.voiceRank >= 0 ? s.voiceRank : 0,
+    }));
+
+  return validated.length > 0 ? validated : singleRead;
+}
+
+/**
+ * Builds a voice lookup over the provider's part of the catalogue. The
+ * narrator is the project's picked voice, or else the first voice of the
+ * project's type in its language. Characters get their picked voice when it
+ * belongs to this provider; otherwise the voice of their type at their rank,
+ * skipping the narrator's voice unless it is the only one of that type.
+ * Project stability and style apply to every voice, over the voice's own
+ * defaults.
+ */
+function createVoiceResolver(
+  provider: TtsProvider,
+  allVoices: CatalogueVoice[],
+  language: string,
+  narratorType: string,
+  project: ProjectVoice
+) {
+  const catalogue = allVoices.filter((v) => v.provider === provider.name);
+  const byType = (type: string) =>
+    catalogue.find((v) => v.language === language && v.voice_type === type) ??
+    catalogue.find((v) => v.language === "english" && v.voice_type === type);
+
+  const narrator = catalogue.find((v) => v.id === project.voice_id) ?? byType(narratorType);
+
+  const byRank = (type: string, rank: number) => {
+    const inLanguage = catalogue.filter((v) => v.language === language && v.voice_type === type);
+    const candidates = inLanguage.length > 0
+      ? inLanguage
+      : catalogue.filter((v) => v.language === "english" && v.voice_type === type);
+    const others = candidates.filter((v) => v !== narrator);
+    const pool = others.length > 0 ? others : candidates;
+    return pool[rank % pool.length] as CatalogueVoice | undefined;
+  };
+
+  return (segment: VoiceSegment): ResolvedVoice => {
+    const voice =
+      (segment.voiceId ? catalogue.find((v) => v.id === segment.voiceId) : undefined) ??
+      (segment.voiceType ? byRank(segment.voiceType, segment.voiceRank) : undefined) ??
+      narrator;
+    const defaults = { ...DEFAULT_VOICE_SETTINGS, ...(voice?.voice_settings ?? {}) };
+    return {
+      voiceId: voice?.provider_voice_id ?? provider.defaultVoiceId,
+      settings: {
+        stability: project.voice_stability ?? defaults.stability,
+        similarity_boost: defaults.similarity_boost,
+        style: project.voice_style ?? defaults.style,
+      },
+    };
+  };
+}
+
+/**
+ * Reads every segment with one provider and joins them, shifting each
+ * segment's word timings by the length of the audio before it. Throws a
+ * TtsError if any segment fails, so the caller can try another provider.
+ */
+async function synthesizeSegments(
+  provider: TtsProvider,
+  segments: VoiceSegment[],
+  voiceFor: (segment: VoiceSegment) => ResolvedVoice
+): Promise<{ audio: Uint8Array; durationMs: number; wordTimings: WordTiming[] }> {
+  const parts: Uint8Array[] = [];
+  const wordTimings: WordTiming[] = [];
+  let offsetMs = 0;
+
+  for (let i = 0; i < segments.length; i++) {
+    const { voiceId, settings } = voiceFor(segments[i]);
+    const result = await provider.synthesize({
+      voiceId,
+      text: segments[i].text,
+      settings,
+      previousText: segments[i - 1]?.text,
+      nextText: segments[i + 1]?.text,
+    });
+
+    parts.push(result.audio);
+    wordTimings.push(
+      ...result.wordTimings.map((word) => ({
+        ...word,
+        start_ms: word.start_ms + offsetMs,
+        end_ms: word.end_ms + offsetMs,
+      }))
+    );
+    // Later segments start where this one's audio ends, including trailing silence
+    offsetMs += result.durationMs || (result.wordTimings[result.wordTimings.length - 1]?.end_ms ?? 0);
+  }
+
+  return { audio: provider.concat(parts), durationMs: offsetMs, wordTimings };
+}
+
 async function logUsage(
   supabase: any,
   userId: string,
@@ -65,7 +190,8 @@ async function logUsage(
   errorMessage?: string
 ) {
   try {
-    const costUsd = (charCount / 1000) * AI_PRICING.elevenlabs.per_1k_chars;
+    const costPer1kChars = TTS_PROVIDERS[provider as keyof typeof TTS_PROVIDERS]?.costPer1kChars ?? 0;
+    const costUsd = (charCount / 1000) * costPer1kChars;
     const costInr = costUsd * USD_TO_INR;
 
     await supabase.from('api_usage_logs').insert({
@@ -98,7 +224,6 @@ serve(async (req) => {
   }
 
   const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
-  const SUPABASE_ANON_KEY = Deno.env.get("SUPABASE_ANON_KEY")!;
   const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
 
   const serviceSupabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
@@ -107,6 +232,8 @@ serve(async (req) => {
   let projectId: string | null = null;
   let sceneId: string | null = null;
   let charCount = 0;
+  let ledgerId: string | null = null;
+  let activeProvider: TtsProvider | null = null;
 
   try {
     const authHeader = req.headers.get('Authorization');
@@ -118,24 +245,24 @@ serve(async (req) => {
       );
     }
 
-    const userSupabase = createClient(SUPABASE_URL, SUPABASE_ANON_KEY, {
-      global: { headers: { Authorization: authHeader } }
-    });
-
-    const { data: { user }, error: authError } = await userSupabase.auth.getUser();
-    if (authError || !user) {
-      console.error("Authentication failed:", authError?.message);
+    const authenticatedUserId = await resolveUserId(req);
+    if (!authenticatedUserId) {
       return new Response(
         JSON.stringify({ error: "Unauthorized", message: "Invalid or expired token" }),
         { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
 
-    userId = user.id;
-    console.log(`Authenticated user: ${user.id}`);
+    userId = authenticatedUserId;
+    console.log(`Authenticated user: ${userId}`);
+
+    const rateLimit = await checkRateLimit(serviceSupabase, userId, "generate-voiceover");
+    if (!rateLimit.allowed) {
+      return rateLimitResponse(rateLimit.retryAfterSeconds, corsHeaders);
+    }
 
     const body = await req.json();
-    const { sceneId: reqSceneId, text, voiceType, language } = body;
+    const { sceneId: reqSceneId, text, voiceType, language, segments } = body;
     sceneId = reqSceneId;
 
     if (!sceneId || typeof sceneId !== 'string' || !UUID_REGEX.test(sceneId)) {
@@ -171,10 +298,19 @@ serve(async (req) => {
 
     const validatedVoiceType = VALID_VOICE_TYPES.includes(voiceType) ? voiceType : "female";
     const validatedLanguage = VALID_LANGUAGES.includes(language) ? language : "english";
+    const voiceSegments = validateSegments(segments, sanitizedText);
+    charCount = voiceSegments.reduce((sum, segment) => sum + segment.text.length, 0);
+
+    if (charCount > MAX_TEXT_LENGTH) {
+      return new Response(
+        JSON.stringify({ error: "Bad Request", message: `Text must be less than ${MAX_TEXT_LENGTH} characters` }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
 
     const { data: scene, error: sceneError } = await serviceSupabase
       .from('scenes')
-      .select('project_id, projects(user_id)')
+      .select('project_id, projects(user_id, tts_provider, voice_id, voice_stability, voice_style)')
       .eq('id', sceneId)
       .single();
 
@@ -188,97 +324,134 @@ serve(async (req) => {
 
     projectId = scene.project_id;
     const projectUserId = (scene.projects as any)?.user_id;
-    if (projectUserId !== user.id) {
-      console.error(`User ${user.id} attempted to access scene owned by ${projectUserId}`);
+    if (projectUserId !== userId) {
+      console.error(`User ${userId} attempted to access scene owned by ${projectUserId}`);
       return new Response(
         JSON.stringify({ error: "Forbidden", message: "You don't have permission to access this scene" }),
         { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
 
-    const ELEVENLABS_API_KEY = Deno.env.get("ELEVENLABS_API_KEY");
+    const projectVoice = scene.projects as unknown as ProjectVoice;
+    const providers = getTtsProviders(projectVoice.tts_provider);
 
-    if (!ELEVENLABS_API_KEY) {
-      console.error("ELEVENLABS_API_KEY is not configured");
+    if (providers.length === 0) {
+      console.error("No TTS provider is configured (set ELEVENLABS_API_KEY or PIPER_URL)");
       return new Response(
-        JSON.stringify({ error: "API key not configured", message: "ElevenLabs API key is not configured" }),
+        JSON.stringify({ error: "TTS not configured", message: "No text-to-speech provider is configured" }),
         { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
 
-    const voiceId = voiceMap[validatedLanguage]?.[validatedVoiceType] || voiceMap.english.female;
-
-    console.log(`Generating voiceover for scene ${sceneId} with voice ${voiceId}`);
-
-    const response = await fetch(
-      `https://api.elevenlabs.io/v1/text-to-speech/${voiceId}?output_format=mp3_44100_128`,
-      {
-        method: "POST",
-        headers: {
-          "xi-api-key": ELEVENLABS_API_KEY,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          text: sanitizedText,
-          model_id: "eleven_multilingual_v2",
-          voice_settings: {
-            stability: 0.6,
-            similarity_boost: 0.75,
-            style: 0.4,
-            use_speaker_boost: true,
-          },
-        }),
-      }
-    );
+    const { data: catalogue, error: catalogueError } = await serviceSupabase
+      .from('voices')
+      .select('id, provider, provider_voice_id, language, voice_type, voice_settings')
+      .eq('is_active', true)
+      .order('sort_order', { ascending: true });
+
+    if (catalogueError) {
+      console.error("Failed to load voice catalogue:", catalogueError.message);
+    }
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error("ElevenLabs error:", response.status, errorText);
-      await logUsage(serviceSupabase, userId, projectId, sceneId, "generate-voiceover", "elevenlabs", "eleven_multilingual_v2", charCount, "failed", `API error: ${response.status}`);
+    const reservation = await reserveCredits(serviceSupabase, userId, "generate-voiceover", {
+      projectId,
+      sceneId,
+      metadata: { char_count: charCount },
+    });
+    if (!reservation.ledgerId) {
       return new Response(
-        JSON.stringify({ error: "TTS API error", message: `ElevenLabs API error: ${response.status}` }),
-        { status: response.status, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        JSON.stringify({ error: "Insufficient credits", message: insufficientCreditsMessage(reservation) }),
+        { status: 402, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
+    ledgerId = reservation.ledgerId;
+
+    let speech: Awaited<ReturnType<typeof synthesizeSegments>> | null = null;
+    let lastError: TtsError | null = null;
+
+    for (const provider of providers) {
+      activeProvider = provider;
+      console.log(`Generating voiceover for scene ${sceneId} with ${provider.name} in ${voiceSegments.length} segment(s)`);
+      try {
+        const voiceFor = createVoiceResolver(
+          provider,
+          (catalogue ?? []) as CatalogueVoice[],
+          validatedLanguage,
+          validatedVoiceType,
+          projectVoice
+        );
+        speech = await synthesizeSegments(provider, voiceSegments, voiceFor);
+        break;
+      } catch (error) {
+        lastError = error instanceof TtsError
+          ? error
+          : new TtsError(error instanceof Error ? error.message : "Unknown error", 500);
+        await logUsage(serviceSupabase, userId, projectId, sceneId, "generate-voiceover", provider.name, provider.model, charCount, "failed", lastError.message);
+
+        // Rate limits are waited out by the job queue rather than switching to another voice
+        if (lastError.status === 429 && lastError.retryAfterSeconds !== null) {
+          await refundCredits(serviceSupabase, ledgerId, "Rate limit exceeded");
+          return rateLimitResponse(lastError.retryAfterSeconds, corsHeaders);
+        }
+        console.warn(`${provider.name} failed for scene ${sceneId}: ${lastError.message}`);
+      }
+    }
 
-    const audioBuffer = await response.arrayBuffer();
-    const audioData = new Uint8Array(audioBuffer);
+    if (!speech || !activeProvider) {
+      const message = lastError?.message ?? "Text-to-speech failed";
+      await refundCredits(serviceSupabase, ledgerId, message);
+      return new Response(
+        JSON.stringify({ error: "TTS API error", message }),
+        { status: lastError?.status ?? 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
 
-    const fileName = `${sceneId}/${Date.now()}.mp3`;
+    const fileName = `${sceneId}/${Date.now()}.${activeProvider.fileExtension}`;
 
     const { error: uploadError } = await serviceSupabase.storage
       .from("project-assets")
-      .upload(fileName, audioData, { contentType: "audio/mpeg", upsert: true });
+      .upload(fileName, speech.audio, { contentType: activeProvider.contentType, upsert: true });
 
     if (uploadError) {
       console.error("Upload error:", uploadError);
-      await logUsage(serviceSupabase, userId, projectId, sceneId, "generate-voiceover", "elevenlabs", "eleven_multilingual_v2", charCount, "failed", "Failed to upload audio");
       throw new Error("Failed to upload audio");
     }
 
     const { data: urlData } = serviceSupabase.storage.from("project-assets").getPublicUrl(fileName);
 
-    const wordCount = sanitizedText.split(/\s+/).filter(Boolean).length;
-    const estimatedDuration = Math.max(3, Math.round(wordCount / 2.5));
+    // Measured from the decoded audio; the word-count estimate is only a fallback
+    let durationMs = speech.durationMs;
+    if (!durationMs) {
+      const wordCount = sanitizedText.split(/\s+/).filter(Boolean).length;
+      durationMs = Math.max(3, Math.round(wordCount / 2.5)) * 1000;
+      console.warn(`Could not measure audio for scene ${sceneId}, using estimated duration`);
+    }
+
+    await commitCredits(serviceSupabase, ledgerId);
 
     // Log successful usage
-    await logUsage(serviceSupabase, userId, projectId, sceneId, "generate-voiceover", "elevenlabs", "eleven_multilingual_v2", charCount, "success");
+    await logUsage(serviceSupabase, userId, projectId, sceneId, "generate-voiceover", activeProvider.name, activeProvider.model, charCount, "success");
 
-    console.log(`Audio uploaded for user ${user.id}: ${urlData.publicUrl}, estimated duration: ${estimatedDuration}s`);
+    console.log(`Audio uploaded for user ${userId}: ${urlData.publicUrl}, duration: ${durationMs}ms`);
 
     return new Response(
       JSON.stringify({ 
         audioUrl: urlData.publicUrl,
-        duration: estimatedDuration,
+        duration: Math.round(durationMs / 10) / 100,
+        durationMs,
+        wordTimings: speech.wordTimings,
+        provider: activeProvider.name,
       }),
       { headers: { ...corsHeaders, "Content-Type": "application/json" } }
     );
   } catch (error) {
     console.error("Generate voiceover error:", error);
     
-    if (userId) {
-      await logUsage(serviceSupabase, userId, projectId, sceneId, "generate-voiceover", "elevenlabs", "eleven_multilingual_v2", charCount, "failed", error instanceof Error ? error.message : "Unknown error");
+    if (userId && activeProvider) {
+      await logUsage(serviceSupabase, userId, projectId, sceneId, "generate-voiceover", activeProvider.name, activeProvider.model, charCount, "failed", error instanceof Error ? error.message : "Unknown error");
     }
+
+    await refundCredits(serviceSupabase, ledgerId, error instanceof Error ? error.message : "Unknown error");
     
     return new Response(
       JSON.stringify({ error: error instanceof Error ? error.message : "Failed to generate voiceover" }),
@@ -0,0 +1,991 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { JOB_USER_HEADER, resolveUserId } from "../_shared/auth.ts";
+import { parseRetryAfter } from "../_shared/rateLimit.ts";
+import { getMp3DurationMs } from "../_shared/mp3.ts";
+import { getWavDurationMs } from "../_shared/wav.ts";
+
+/**
+ * Process Jobs Edge Function
+ *
+ * Background worker for the generation_jobs queue. Called every minute by
+ * pg_cron (service role, drains every user's jobs) and by the editor right
+ * after it enqueues work (user JWT, drains only that user's jobs).
+ * Failed jobs are retried with exponential backoff until max_retries.
+ */
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const CLAIM_BATCH_SIZE = 3;
+const TIME_BUDGET_MS = 100_000;
+const STALE_JOB_MINUTES = 10;
+const MAX_IMAGE_CANDIDATES = 4;
+// generate-scenes stops after this many scenes; used to report progress
+const MAX_GENERATED_SCENES = 12;
+// Opening words used to find where a scene's narration starts in the script
+const PASSAGE_ANCHOR_WORDS = 4;
+
+// render-video jobs need ffmpeg and are claimed by the render worker instead
+const EDGE_JOB_TYPES = ["generate-scenes", "generate-image", "generate-voiceover", "measure-audio", "reframe-image"];
+
+interface GenerationJob {
+  id: string;
+  user_id: string;
+  project_id: string;
+  scene_id: string | null;
+  job_type: "generate-scenes" | "generate-image" | "generate-voiceover" | "measure-audio" | "reframe-image";
+  payload: Record<string, unknown>;
+  script_content: string | null;
+}
+
+// Scene column marked failed when a job gives up. A failed measure-audio
+// backfill leaves the scene's audio untouched, so it has none.
+const SCENE_STATUS_COLUMNS: Partial<Record<GenerationJob["job_type"], string>> = {
+  "generate-image": "image_status",
+  "reframe-image": "reframed_image_status",
+  "generate-voiceover": "audio_status",
+};
+
+// Asset input hashes (mirrors src/lib/assetInputs.ts): the text an asset was
+// made from, so the editor can flag it once the scene is edited
+function hashAssetInput(text: string): string {
+  const normalized = text.replace(/\s+/g, " ").trim();
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < normalized.length; i++) {
+    hash ^= normalized.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+}
+
+interface GeneratedScene {
+  title: string;
+  narration_text: string;
+  visual_description: string;
+  estimated_duration?: number;
+  mood?: string;
+  characters?: string[];
+  segments?: { speaker?: string; text?: string }[];
+}
+
+interface NarrationSegment {
+  character_id: string | null;
+  text: string;
+}
+
+interface GeneratedCharacter {
+  name: string;
+  description?: string;
+}
+
+// Final event of a streamed generate-scenes reply
+interface SceneStreamDone {
+  scene_count: number;
+  warnings: string[];
+  refunded: boolean;
+}
+
+interface ServerSentEvent {
+  event: string;
+  data: unknown;
+}
+
+// The generate-scenes request shared by full generations and range rewrites
+interface SceneRequest {
+  script: string;
+  language: unknown;
+  storyType: unknown;
+  tone: unknown;
+  characters: { name: string; description: string }[];
+  projectId: string;
+}
+
+interface JobOutcome {
+  result: Record<string, unknown>;
+  scenesGenerated?: number;
+}
+
+class JobError extends Error {
+  constructor(message: string, public retryable: boolean, public retryAfterSeconds: number | null = null) {
+    super(message);
+  }
+}
+
+// Calls another edge function as the job's user; failures become JobErrors
+async function callFunction(name: string, userId: string, body: Record<string, unknown>): Promise<Response> {
+  const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
+  const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+  const response = await fetch(`${SUPABASE_URL}/functions/v1/${name}`, {
+    method: "POST",
+    headers: {
+      "Authorization": `Bearer ${SUPABASE_SERVICE_ROLE_KEY}`,
+      "Content-Type": "application/json",
+      [JOB_USER_HEADER]: userId,
+    },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    const message = data.message || data.error || `${name} failed with status ${response.status}`;
+    // Rate-limited jobs wait for the window to reopen
+    if (response.status === 429) {
+      throw new JobError(message, true, parseRetryAfter(response.headers));
+    }
+    // Client errors (bad input, no credits, no access) will not succeed on retry
+    throw new JobError(message, response.status >= 500);
+  }
+
+  return response;
+}
+
+async function invokeFunction(name: string, userId: string, body: Record<string, unknown>) {
+  const response = await callFunction(name, userId, body);
+  return await response.json().catch(() => ({}));
+}
+
+// Server-sent events of a streamed reply. Stopping early cancels the stream,
+// which tells the sender to stop too.
+async function* readEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<ServerSentEvent> {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) return;
+      buffer += value;
+
+      const blocks = buffer.split("\n\n");
+      buffer = blocks.pop() ?? "";
+      for (const block of blocks) {
+        let event = "message";
+        let data = "";
+        for (const line of block.split("\n")) {
+          if (line.startsWith("event:")) event = line.slice(6).trim();
+          else if (line.startsWith("data:")) data += line.slice(5).trim();
+        }
+        if (data) yield { event, data: JSON.parse(data) };
+      }
+    }
+  } finally {
+    await reader.cancel().catch(() => {});
+  }
+}
+
+async function setProgress(supabase: SupabaseClient, jobId: string, progress: number) {
+  await supabase.from('generation_jobs').update({ progress }).eq('id', jobId);
+}
+
+/**
+ * Adds characters the model found that the project's bible doesn't have yet
+ * and returns every character id keyed by lower-cased name. Existing entries
+ * are never overwritten, so user edits to the bible win.
+ */
+async function syncCharacters(
+  supabase: SupabaseClient,
+  projectId: string,
+  existing: { id: string; name: string }[],
+  generated: unknown
+): Promise<Map<string, string>> {
+  const idsByName = new Map(existing.map((c) => [c.name.toLowerCase(), c.id]));
+
+  const newCharacters = (Array.isArray(generated) ? generated as GeneratedCharacter[] : [])
+    .filter((c) => typeof c?.name === "string" && c.name.trim() && !idsByName.has(c.name.trim().toLowerCase()))
+    .map((c) => ({
+      project_id: projectId,
+      name: c.name.trim().slice(0, 80),
+      description: typeof c.description === "string" ? c.description.trim().slice(0, 1000) : "",
+    }))
+    .filter((c, i, all) => all.findIndex((other) => other.name.toLowerCase() === c.name.toLowerCase()) === i);
+
+  if (newCharacters.length > 0) {
+    const { data, error } = await supabase.from('characters').insert(newCharacters).select('id, name');
+    if (error) {
+      // Scenes are still useful without tags, so this doesn't fail the job
+      console.error("Failed to save generated characters:", error.message);
+    }
+    for (const character of data ?? []) {
+      idsByName.set(character.name.toLowerCase(), character.id);
+    }
+  }
+
+  return idsByName;
+}
+
+// Segments are only trusted while they still spell out the scene's narration
+function segmentsMatchNarration(segments: NarrationSegment[], narration: string): boolean {
+  const collapse = (text: string) => text.replace(/\s+/g, " ").trim();
+  return collapse(segments.map((s) => s.text).join(" ")) === collapse(narration);
+}
+
+/**
+ * Maps the model's speaker-tagged narration onto character ids. Unknown
+ * speakers and "Narrator" become the narrator (null). Returns null when
+ * nobody but the narrator speaks or the segments don't add up to the
+ * narration, so the scene is voiced as a single read.
+ */
+function toNarrationSegments(scene: GeneratedScene, characterIds: Map<string, string>): NarrationSegment[] | null {
+  if (!Array.isArray(scene.segments)) return null;
+
+  const segments = scene.segments
+    .filter((s) => typeof s?.text === "string" && s.text.trim())
+    .map((s) => ({
+      character_id: typeof s.speaker === "string" ? characterIds.get(s.speaker.trim().toLowerCase()) ?? null : null,
+      text: s.text!.trim(),
+    }));
+
+  if (!segments.some((s) => s.character_id) || !segmentsMatchNarration(segments, scene.narration_text)) {
+    return null;
+  }
+  return segments;
+}
+
+// Words of a text with where each starts, compared ignoring case and punctuation
+function toPassageWords(text: string): { key: string; start: number }[] {
+  return [...text.matchAll(/\S+/g)]
+    .map((match) => ({
+      key: match[0].normalize("NFC").toLowerCase().replace(/[^\p{L}\p{M}\p{N}]/gu, ""),
+      start: match.index!,
+    }))
+    .filter((word) => word.key);
+}
+
+// Index of the first run of `keys` in `words` at or after `from`, or -1
+function findWords(words: { key: string }[], keys: string[], from: number): number {
+  if (keys.length === 0) return -1;
+  for (let i = Math.max(from, 0); i + keys.length <= words.length; i++) {
+    if (keys.every((key, k) => words[i + k].key === key)) return i;
+  }
+  return -1;
+}
+
+/**
+ * Where each scene's passage of the script starts, as character offsets.
+ * Scenes narrate the script word for word, so each one is found by its
+ * opening words, searching on from the previous scene; a scene whose opening
+ * was reworded starts where the previous scene's narration ends. Each
+ * passage runs to the next one's start, so together they cover the script
+ * and the editor can diff them against later edits (see src/lib/scriptDiff.ts).
+ * With `fromScriptStart` the first passage starts at the top of the script;
+ * otherwise it is searched for too, and null is returned if it isn't found.
+ */
+function passageStarts(script: string, narrations: string[], fromScriptStart: boolean): number[] | null {
+  const words = toPassageWords(script);
+  const starts: number[] = [];
+  let previous = -1;
+  let expected = 0;
+
+  for (const narration of narrations) {
+    const keys = toPassageWords(narration).map((word) => word.key);
+    const first = previous < 0;
+    let index = findWords(words, keys.slice(0, PASSAGE_ANCHOR_WORDS), previous + 1);
+    if (index < 0) {
+      if (first && !fromScriptStart) return null;
+      index = first ? 0 : Math.max(expected, previous + 1);
+    }
+
+    starts.push(first && fromScriptStart ? 0 : words[index]?.start ?? script.length);
+    previous = index;
+    expected = index + keys.length;
+  }
+  return starts;
+}
+
+// The row a generated scene is saved as, with its characters resolved to ids
+function toSceneRow(
+  projectId: string,
+  sceneOrder: number,
+  scene: GeneratedScene,
+  characterIds: Map<string, string>,
+  scriptPassage: string | null
+) {
+  return {
+    project_id: projectId,
+    scene_order: sceneOrder,
+    title: scene.title,
+    narration_text: scene.narration_text,
+    script_passage: scriptPassage,
+    visual_description: scene.visual_description,
+    estimated_duration: scene.estimated_duration || 5,
+    mood: scene.mood,
+    character_ids: [
+      ...new Set(
+        (Array.isArray(scene.characters) ? scene.characters : [])
+          .map((name) => typeof name === "string" ? characterIds.get(name.trim().toLowerCase()) : undefined)
+          .filter((id): id is string => !!id)
+      ),
+    ],
+    narration_segments: toNarrationSegments(scene, characterIds),
+  };
+}
+
+async function isJobCancelled(supabase: SupabaseClient, jobId: string): Promise<boolean> {
+  const { data } = await supabase.from('generation_jobs').select('status').eq('id', jobId).single();
+  return data?.status === "cancelled";
+}
+
+async function discardDraftScenes(supabase: SupabaseClient, jobId: string) {
+  const { error } = await supabase.from('scenes').delete().eq('generation_job_id', jobId);
+  if (error) {
+    // publish_generated_scenes clears leftover drafts on the next generation
+    console.error(`Failed to discard draft scenes of job ${jobId}:`, error.message);
+  }
+}
+
+async function runSceneJob(supabase: SupabaseClient, job: GenerationJob): Promise<JobOutcome> {
+  const { data: project, error: projectError } = await supabase
+    .from('projects')
+    .select('user_id, language, story_type, tone')
+    .eq('id', job.project_id)
+    .single();
+
+  if (projectError || !project) {
+    throw new JobError("Project not found", false);
+  }
+
+  if (project.user_id !== job.user_id) {
+    throw new JobError("You don't have permission to access this project", false);
+  }
+
+  if (!job.script_content) {
+    throw new JobError("Script is required", false);
+  }
+
+  const { data: characters } = await supabase
+    .from('characters')
+    .select('id, name, description')
+    .eq('project_id', job.project_id)
+    .order('created_at', { ascending: true });
+
+  await setProgress(supabase, job.id, 10);
+
+  const request: SceneRequest = {
+    script: job.script_content,
+    language: job.payload.language ?? project.language,
+    storyType: job.payload.storyType ?? project.story_type,
+    tone: job.payload.tone ?? project.tone,
+    characters: (characters ?? []).map(({ name, description }) => ({ name, description })),
+    projectId: job.project_id,
+  };
+
+  return job.payload.range
+    ? runSceneRewrite(supabase, job, request, characters ?? [])
+    : runSceneGeneration(supabase, job, request, characters ?? []);
+}
+
+/**
+ * Streams a new set of scenes from generate-scenes and saves each one as a
+ * draft of this job as soon as it is parsed. Every save updates the job's
+ * progress, which the editor follows over realtime. The drafts replace the
+ * project's scenes once the set is complete, or once the user cancels with
+ * some already saved. On failure, or when generate-scenes refunded the set
+ * for not covering the script, they are discarded and the old scenes stay.
+ */
+async function runSceneGeneration(
+  supabase: SupabaseClient,
+  job: GenerationJob,
+  request: SceneRequest,
+  characters: { id: string; name: string }[]
+): Promise<JobOutcome> {
+  // Drafts left by an earlier attempt of this job
+  await discardDraftScenes(supabase, job.id);
+
+  let saved = 0;
+  let cancelled = false;
+  let done: SceneStreamDone | null = null;
+  // Each draft's passage runs to the end of the script until the next scene shows where it stops
+  const narrations: string[] = [];
+  let previousDraftId: string | null = null;
+
+  try {
+    const response = await callFunction("generate-scenes", job.user_id, { ...request, stream: true });
+    let characterIds = new Map(characters.map((c) => [c.name.toLowerCase(), c.id]));
+
+    for await (const { event, data } of readEvents(response.body!)) {
+      if (event === "characters") {
+        characterIds = await syncCharacters(supabase, job.project_id, characters, data);
+      } else if (event === "scene") {
+        if (await isJobCancelled(supabase, job.id)) {
+          cancelled = true;
+          break;
+        }
+
+        const { scene } = data as { scene: GeneratedScene };
+        narrations.push(scene.narration_text);
+        const starts = passageStarts(request.script, narrations, true)!;
+        const passageStart = starts[starts.length - 1];
+
+        if (previousDraftId) {
+          const { error } = await supabase
+            .from('scenes')
+            .update({ script_passage: request.script.slice(starts[starts.length - 2], passageStart) })
+            .eq('id', previousDraftId);
+          if (error) {
+            throw new JobError(`Failed to save scenes: ${error.message}`, true);
+          }
+        }
+
+        const { data: draft, error } = await supabase
+          .from('scenes')
+          .insert({
+            ...toSceneRow(job.project_id, saved + 1, scene, characterIds, request.script.slice(passageStart)),
+            generation_job_id: job.id,
+          })
+          .select('id')
+          .single();
+        if (error || !draft) {
+          throw new JobError(`Failed to save scenes: ${error?.message}`, true);
+        }
+        previousDraftId = draft.id;
+
+        saved++;
+        await setProgress(supabase, job.id, 10 + Math.round((Math.min(saved, MAX_GENERATED_SCENES) / MAX_GENERATED_SCENES) * 80));
+      } else if (event === "done") {
+        done = data as SceneStreamDone;
+      } else if (event === "error") {
+        throw new JobError((data as { error?: string }).error || "Scene generation failed", true);
+      }
+    }
+  } catch (error) {
+    // A job cancelled mid-stream keeps its scenes rather than being retried
+    cancelled = await isJobCancelled(supabase, job.id);
+    if (!cancelled) {
+      await discardDraftScenes(supabase, job.id);
+      throw error;
+    }
+  }
+
+  if (cancelled && saved === 0) {
+    await discardDraftScenes(supabase, job.id);
+    return { result: { scene_count: 0, cancelled: true } };
+  }
+
+  if (!cancelled && !done) {
+    await discardDraftScenes(supabase, job.id);
+    throw new JobError("Scene generation stopped before it finished", true);
+  }
+
+  // Scenes that leave out part of the script weren't charged for, so they aren't kept either
+  if (done?.refunded) {
+    await discardDraftScenes(supabase, job.id);
+    throw new JobError(done.warnings.join("; ") || "The scenes left out part of the script", true);
+  }
+
+  const { data: published, error: publishError } = await supabase.rpc('publish_generated_scenes', { p_job_id: job.id });
+  if (publishError) {
+    throw new JobError(`Failed to replace scenes: ${publishError.message}`, true);
+  }
+
+  const result = { scene_count: published, warnings: done?.warnings ?? [], ...(cancelled && { cancelled: true }) };
+  if (cancelled) {
+    // complete_generation_job leaves cancelled jobs alone; this update also
+    // tells the editor that the kept scenes are in
+    await supabase.from('generation_jobs').update({ result, scenes_generated: published }).eq('id', job.id);
+  }
+
+  return { result, scenesGenerated: published };
+}
+
+/**
+ * Rewrites a run of scenes from the script, leaving the scenes around it
+ * (and their images and audio) untouched. The replacement may have more or
+ * fewer scenes than the range; later scenes are renumbered to fit.
+ */
+async function runSceneRewrite(
+  supabase: SupabaseClient,
+  job: GenerationJob,
+  request: SceneRequest,
+  characters: { id: string; name: string }[]
+): Promise<JobOutcome> {
+  const { data: scenes, error: scenesError } = await supabase
+    .from('scenes')
+    .select('id, title, narration_text, scene_order')
+    .eq('project_id', job.project_id)
+    .is('generation_job_id', null)
+    .order('scene_order', { ascending: true });
+
+  if (scenesError || !scenes) {
+    throw new JobError(`Failed to load scenes: ${scenesError?.message}`, true);
+  }
+
+  // 1-based and inclusive, matching the scene numbers shown in the editor
+  const range = job.payload.range as { start?: unknown; end?: unknown };
+  const start = Number(range.start);
+  const end = Number(range.end);
+  if (!Number.isInteger(start) || !Number.isInteger(end) || start < 1 || start > end || end > scenes.length) {
+    throw new JobError("Invalid scene range", false);
+  }
+
+  const data = await invokeFunction("generate-scenes", job.user_id, {
+    ...request,
+    range: { start, end },
+    scenes: scenes.map(({ title, narration_text }) => ({ title, narration_text })),
+  });
+
+  if (!data?.scenes || !Array.isArray(data.scenes) || data.scenes.length === 0) {
+    throw new JobError("Invalid response from AI", true);
+  }
+
+  await setProgress(supabase, job.id, 70);
+
+  const characterIds = await syncCharacters(supabase, job.project_id, characters, data.characters);
+  const newScenes = data.scenes as GeneratedScene[];
+
+  // The scene after the range marks where the last new passage ends
+  const next = scenes[end];
+  const starts = passageStarts(
+    request.script,
+    [...newScenes.map((scene) => scene.narration_text), ...(next ? [next.narration_text] : [])],
+    start === 1
+  );
+  const passageOf = (i: number) =>
+    starts ? request.script.slice(starts[i], i + 1 < starts.length ? starts[i + 1] : undefined) : null;
+
+  // New scenes go in before the old ones are removed, so a failure never leaves a gap
+  const { error: insertError } = await supabase
+    .from('scenes')
+    .insert(newScenes.map((scene, i) => toSceneRow(job.project_id, start + i, scene, characterIds, passageOf(i))));
+  if (insertError) {
+    throw new JobError(`Failed to save scenes: ${insertError.message}`, true);
+  }
+
+  const replaced = scenes.slice(start - 1, end).map((scene) => scene.id);
+  const { error: deleteError } = await supabase.from('scenes').delete().in('id', replaced);
+  if (deleteError) {
+    throw new JobError(`Failed to replace scenes: ${deleteError.message}`, false);
+  }
+
+  // Kept scenes are numbered around the new ones; orders can also have gaps from deleted scenes
+  const kept = [
+    ...scenes.slice(0, start - 1).map((scene, i) => ({ scene, order: i + 1 })),
+    ...scenes.slice(end).map((scene, i) => ({ scene, order: start + newScenes.length + i })),
+  ];
+  await Promise.all(
+    kept
+      .filter(({ scene, order }) => scene.scene_order !== order)
+      .map(({ scene, order }) => supabase.from('scenes').update({ scene_order: order }).eq('id', scene.id))
+  );
+
+  return {
+    result: { scene_count: newScenes.length, range: { start, end } },
+    scenesGenerated: newScenes.length,
+  };
+}
+
+// History entry for a generated asset; a failure here never fails the job
+async function recordAsset(
+  supabase: SupabaseClient,
+  job: GenerationJob,
+  assetType: "image" | "audio",
+  url: string,
+  metadata: Record<string, unknown> = {}
+) {
+  const { error } = await supabase.from('scene_assets').insert({
+    scene_id: job.scene_id,
+    asset_type: assetType,
+    url,
+    job_id: job.id,
+    metadata,
+  });
+  if (error) {
+    console.error(`Failed to record ${assetType} history:`, error.message);
+  }
+}
+
+async function loadScene(supabase: SupabaseClient, job: GenerationJob) {
+  const { data: scene, error } = await supabase
+    .from('scenes')
+    .select('id, project_id, title, narration_text, narration_segments, visual_description, mood, image_url, projects(user_id, visual_style, tone, voice_type, language, aspect_ratio)')
+    .eq('id', job.scene_id)
+    .single();
+
+  if (error || !scene) {
+    throw new JobError("Scene not found", false);
+  }
+
+  if (scene.projects?.user_id !== job.user_id) {
+    throw new JobError("You don't have permission to access this scene", false);
+  }
+
+  return scene;
+}
+
+async function runImageJob(supabase: SupabaseClient, job: GenerationJob): Promise<JobOutcome> {
+  const scene = await loadScene(supabase, job);
+
+  await supabase.from('scenes').update({ image_status: 'generating' }).eq('id', scene.id);
+  await setProgress(supabase, job.id, 10);
+
+  const candidates = Math.min(Math.max(Math.floor(Number(job.payload.candidates) || 1), 1), MAX_IMAGE_CANDIDATES);
+  const imageUrls: string[] = [];
+  const visualDescription = scene.visual_description || scene.narration_text;
+  const inputHash = hashAssetInput(visualDescription);
+
+  for (let i = 0; i < candidates; i++) {
+    try {
+      const data = await invokeFunction("generate-image", job.user_id, {
+        sceneId: scene.id,
+        visualDescription,
+        style: scene.projects.visual_style,
+        mood: scene.mood || scene.projects.tone,
+        aspectRatio: scene.projects.aspect_ratio,
+      });
+      imageUrls.push(data.imageUrl);
+      await recordAsset(supabase, job, "image", data.imageUrl, { input_hash: inputHash });
+    } catch (error) {
+      // Keep the candidates already paid for instead of regenerating them all on retry
+      if (imageUrls.length === 0) throw error;
+      console.error(`Candidate ${i + 1} of ${candidates} failed:`, error instanceof Error ? error.message : error);
+      break;
+    }
+    await setProgress(supabase, job.id, 10 + Math.round(((i + 1) / candidates) * 80));
+  }
+
+  // The first candidate is shown until the user picks another from the history.
+  // A reframe of the previous image no longer matches, so it is dropped.
+  const { error } = await supabase
+    .from('scenes')
+    .update({
+      image_url: imageUrls[0],
+      image_status: 'completed',
+      image_source: 'generated',
+      image_input_hash: inputHash,
+      reframed_image_url: null,
+      reframed_image_status: 'pending',
+    })
+    .eq('id', scene.id);
+
+  if (error) {
+    throw new JobError(`Failed to save image: ${error.message}`, true);
+  }
+
+  return { result: { image_url: imageUrls[0], candidates: imageUrls } };
+}
+
+// Recomposes the scene image for the orientation the project wasn't drawn in
+async function runReframeJob(supabase: SupabaseClient, job: GenerationJob): Promise<JobOutcome> {
+  const scene = await loadScene(supabase, job);
+
+  if (!scene.image_url) {
+    throw new JobError("Scene has no image to reframe", false);
+  }
+
+  const targetAspectRatio = scene.projects.aspect_ratio === "9:16" ? "16:9" : "9:16";
+
+  await supabase.from('scenes').update({ reframed_image_status: 'generating' }).eq('id', scene.id);
+  await setProgress(supabase, job.id, 10);
+
+  const data = await invokeFunction("generate-image", job.user_id, {
+    sceneId: scene.id,
+    visualDescription: scene.visual_description || scene.narration_text,
+    style: scene.projects.visual_style,
+    mood: scene.mood || scene.projects.tone,
+    aspectRatio: targetAspectRatio,
+    reframe: true,
+  });
+
+  const { error } = await supabase
+    .from('scenes')
+    .update({ reframed_image_url: data.imageUrl, reframed_image_status: 'completed' })
+    .eq('id', scene.id);
+
+  if (error) {
+    throw new JobError(`Failed to save reframed image: ${error.message}`, true);
+  }
+
+  return { result: { reframed_image_url: data.imageUrl, aspect_ratio: targetAspectRatio } };
+}
+
+interface SpeakerVoice {
+  voiceId: string | null;
+  voiceType: string | null;
+  voiceRank: number;
+}
+
+const NARRATOR_VOICE: SpeakerVoice = { voiceId: null, voiceType: null, voiceRank: 0 };
+
+/**
+ * Resolves each narration segment to its speaker's voice, merging neighbours
+ * read by the same voice. Characters with a picked catalogue voice keep it;
+ * the rest of a type are ranked in bible order so generate-voiceover can give
+ * each a different voice of that type. The narrator, and characters without
+ * a voice of their own, read in the project's voice. Returns null when the
+ * whole scene ends up in one voice, which generate-voiceover handles as a
+ * plain single read.
+ */
+async function resolveVoiceSegments(
+  supabase: SupabaseClient,
+  projectId: string,
+  segments: NarrationSegment[] | null,
+  narration: string
+): Promise<({ text: string } & SpeakerVoice)[] | null> {
+  if (!segments?.length || !segmentsMatchNarration(segments, narration)) return null;
+
+  const { data: characters } = await supabase
+    .from('characters')
+    .select('id, voice_id, voice_type')
+    .eq('project_id', projectId)
+    .order('created_at', { ascending: true });
+
+  const speakers = new Map<string, SpeakerVoice>();
+  const typeRanks = new Map<string, number>();
+  for (const character of characters ?? []) {
+    if (character.voice_id) {
+      speakers.set(character.id, { voiceId: character.voice_id, voiceType: character.voice_type, voiceRank: 0 });
+    } else if (character.voice_type) {
+      const voiceRank = typeRanks.get(character.voice_type) ?? 0;
+      typeRanks.set(character.voice_type, voiceRank + 1);
+      speakers.set(character.id, { voiceId: null, voiceType: character.voice_type, voiceRank });
+    }
+  }
+
+  const resolved: ({ text: string } & SpeakerVoice)[] = [];
+  for (const segment of segments) {
+    const voice = (segment.character_id && speakers.get(segment.character_id)) || NARRATOR_VOICE;
+    const previous = resolved[resolved.length - 1];
+    if (
+      previous &&
+      previous.voiceId === voice.voiceId &&
+      previous.voiceType === voice.voiceType &&
+      previous.voiceRank === voice.voiceRank
+    ) {
+      previous.text += ` ${segment.text}`;
+    } else {
+      resolved.push({ text: segment.text, ...voice });
+    }
+  }
+
+  return resolved.length > 1 ? resolved : null;
+}
+
+async function runVoiceoverJob(supabase: SupabaseClient, job: GenerationJob): Promise<JobOutcome> {
+  const scene = await loadScene(supabase, job);
+
+  await supabase.from('scenes').update({ audio_status: 'generating' }).eq('id', scene.id);
+  await setProgress(supabase, job.id, 10);
+
+  const segments = await resolveVoiceSegments(
+    supabase,
+    scene.project_id,
+    scene.narration_segments as NarrationSegment[] | null,
+    scene.narration_text
+  );
+
+  const data = await invokeFunction("generate-voiceover", job.user_id, {
+    sceneId: scene.id,
+    text: scene.narration_text,
+    voiceType: scene.projects.voice_type,
+    language: scene.projects.language,
+    ...(segments && { segments }),
+  });
+
+  const { error } = await supabase
+    .from('scenes')
+    .update({
+      audio_url: data.audioUrl,
+      actual_duration: data.duration,
+      audio_duration_ms: data.durationMs ?? null,
+      word_timings: data.wordTimings?.length ? data.wordTimings : null,
+      audio_status: 'completed',
+      audio_source: 'generated',
+      audio_input_hash: hashAssetInput(scene.narration_text),
+    })
+    .eq('id', scene.id);
+
+  if (error) {
+    throw new JobError(`Failed to save voiceover: ${error.message}`, true);
+  }
+
+  await recordAsset(supabase, job, "audio", data.audioUrl, {
+    duration_ms: data.durationMs ?? null,
+    word_timings: data.wordTimings?.length ? data.wordTimings : null,
+    provider: data.provider,
+    input_hash: hashAssetInput(scene.narration_text),
+  });
+
+  return {
+    result: { audio_url: data.audioUrl, duration: data.duration, duration_ms: data.durationMs, provider: data.provider },
+  };
+}
+
+// Backfills the measured duration of voiceovers generated before it was stored
+async function runMeasureAudioJob(supabase: SupabaseClient, job: GenerationJob): Promise<JobOutcome> {
+  const { data: scene, error: sceneError } = await supabase
+    .from('scenes')
+    .select('id, audio_url, projects(user_id)')
+    .eq('id', job.scene_id)
+    .single();
+
+  if (sceneError || !scene) {
+    throw new JobError("Scene not found", false);
+  }
+
+  if (scene.projects?.user_id !== job.user_id) {
+    throw new JobError("You don't have permission to access this scene", false);
+  }
+
+  if (!scene.audio_url) {
+    return { result: { skipped: "no audio" } };
+  }
+
+  const response = await fetch(scene.audio_url);
+  if (!response.ok) {
+    throw new JobError(`Failed to download audio: ${response.status}`, response.status >= 500);
+  }
+
+  // Offline TTS voiceovers are WAV rather than MP3
+  const bytes = new Uint8Array(await response.arrayBuffer());
+  const durationMs = getWavDurationMs(bytes) ?? getMp3DurationMs(bytes);
+  if (!durationMs) {
+    throw new JobError("Audio is not a readable MP3 or WAV", false);
+  }
+
+  const duration = Math.round(durationMs / 10) / 100;
+  const { error } = await supabase
+    .from('scenes')
+    .update({ actual_duration: duration, audio_duration_ms: durationMs })
+    .eq('id', scene.id);
+
+  if (error) {
+    throw new JobError(`Failed to save duration: ${error.message}`, true);
+  }
+
+  return { result: { duration, duration_ms: durationMs } };
+}
+
+async function processJob(supabase: SupabaseClient, job: GenerationJob): Promise<string> {
+  console.log(`Processing ${job.job_type} job ${job.id} for user ${job.user_id}`);
+
+  try {
+    let outcome: JobOutcome;
+    switch (job.job_type) {
+      case "generate-scenes":
+        outcome = await runSceneJob(supabase, job);
+        break;
+      case "generate-image":
+        outcome = await runImageJob(supabase, job);
+        break;
+      case "generate-voiceover":
+        outcome = await runVoiceoverJob(supabase, job);
+        break;
+      case "measure-audio":
+        outcome = await runMeasureAudioJob(supabase, job);
+        break;
+      case "reframe-image":
+        outcome = await runReframeJob(supabase, job);
+        break;
+      default:
+        throw new JobError(`Unknown job type: ${job.job_type}`, false);
+    }
+
+    await supabase.rpc('complete_generation_job', {
+      p_job_id: job.id,
+      p_result: outcome.result,
+      p_scenes_generated: outcome.scenesGenerated ?? 0,
+    });
+
+    return "completed";
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    const retryable = error instanceof JobError ? error.retryable : true;
+    const retryAfterSeconds = error instanceof JobError ? error.retryAfterSeconds : null;
+    console.error(`Job ${job.id} failed (retryable: ${retryable}):`, message);
+
+    const { data: status } = await supabase.rpc('fail_generation_job', {
+      p_job_id: job.id,
+      p_error: message,
+      p_retryable: retryable,
+      p_retry_after_seconds: retryAfterSeconds,
+    });
+
+    const statusColumn = SCENE_STATUS_COLUMNS[job.job_type];
+    if (status === "failed" && job.scene_id && statusColumn) {
+      await supabase.from('scenes').update({ [statusColumn]: 'failed' }).eq('id', job.scene_id);
+    }
+
+    return status || "failed";
+  }
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
+  const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+  const serviceSupabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: "Authentication required" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // The scheduler drains every queue; a signed-in user only drains their own
+    let ownerId: string | null = null;
+    if (authHeader !== `Bearer ${SUPABASE_SERVICE_ROLE_KEY}`) {
+      ownerId = await resolveUserId(req);
+      if (!ownerId) {
+        return new Response(
+          JSON.stringify({ error: "Invalid or expired token" }),
+          { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+    }
+
+    const { data: recovered } = await serviceSupabase.rpc('recover_stale_jobs', {
+      p_timeout_minutes: STALE_JOB_MINUTES,
+    });
+    if (recovered) {
+      console.log(`Recovered ${recovered} stale jobs`);
+    }
+
+    const startedAt = Date.now();
+    const counts: Record<string, number> = { completed: 0, queued: 0, failed: 0 };
+
+    while (Date.now() - startedAt < TIME_BUDGET_MS) {
+      const { data: jobs, error: claimError } = await serviceSupabase.rpc('claim_generation_jobs', {
+        p_limit: CLAIM_BATCH_SIZE,
+        p_user_id: ownerId,
+        p_job_types: EDGE_JOB_TYPES,
+      });
+
+      if (claimError) {
+        throw new Error(`Failed to claim jobs: ${claimError.message}`);
+      }
+
+      if (!jobs || jobs.length === 0) break;
+
+      const statuses = await Promise.all(
+        (jobs as GenerationJob[]).map((job) => processJob(serviceSupabase, job))
+      );
+      for (const status of statuses) {
+        counts[status] = (counts[status] || 0) + 1;
+      }
+    }
+
+    console.log(`Job run finished: ${JSON.stringify(counts)}`);
+
+    return new Response(
+      JSON.stringify({ recovered: recovered || 0, ...counts }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("Process jobs error:", error);
+
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : "Failed to process jobs" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
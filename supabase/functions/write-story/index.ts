@@ -0,0 +1,393 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { resolveUserId } from "../_shared/auth.ts";
+import { checkRateLimit, rateLimitResponse } from "../_shared/rateLimit.ts";
+import { reserveCredits, commitCredits, refundCredits, insufficientCreditsMessage } from "../_shared/credits.ts";
+import { AiError, calculateCost, getAiProvider, getFeatureModel } from "../_shared/ai.ts";
+import type { AiModel, ChatMessage, ChatResult } from "../_shared/ai.ts";
+
+/**
+ * Write Story Edge Function
+ *
+ * Drafts a narration script from a premise, moral, main characters, target
+ * age band and length, in the project's language, story type and tone.
+ * With a variation it revises a draft instead ("make it shorter", "add a
+ * twist", ...). The script is returned for review, never saved: the editor
+ * puts it in the script box, where scenes are generated from it as usual.
+ */
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Mirrors StoryAgeBand and StoryVariation in src/lib/types.ts
+const VALID_AGE_BANDS = ["3-5", "6-8", "9-12"];
+const VALID_VARIATIONS = ["shorter", "twist", "simplify", "custom"];
+
+const MAX_PREMISE_LENGTH = 500;
+const MAX_MORAL_LENGTH = 300;
+const MAX_CHARACTERS_LENGTH = 1000;
+const MAX_INSTRUCTION_LENGTH = 300;
+const MIN_LENGTH_MINUTES = 1;
+const MAX_LENGTH_MINUTES = 8;
+// 2.5 words a second, the pace generate-scenes estimates scene durations at
+const WORDS_PER_MINUTE = 150;
+// generate-scenes rejects longer scripts
+const MAX_SCRIPT_LENGTH = 10000;
+
+const USD_TO_INR = 83;
+
+const LANGUAGE_PROMPTS: Record<string, string> = {
+  english: "Simple, warm English",
+  hindi: "Hindi in Devanagari script, in everyday spoken words rather than formal Sanskritised Hindi",
+  hinglish: "Hinglish: conversational Hindi written in Latin script, mixed with common English words the way families speak",
+};
+
+const STORY_TYPE_PROMPTS: Record<string, string> = {
+  kids: "a lively children's story with a clear adventure or problem to solve",
+  bedtime: "a soothing bedtime story that slows down towards a peaceful, sleepy ending",
+  moral: "a moral story where the characters' choices teach the lesson, stated gently in the last lines",
+};
+
+interface StoryBrief {
+  premise: string;
+  moral: string;
+  characters: string;
+  ageBand: string;
+  lengthMinutes: number;
+}
+
+// Control characters other than tabs and line breaks
+function sanitizeText(text: string): string {
+  return text.replace(/[^\P{Cc}\t\n\r]/gu, '').trim();
+}
+
+function cleanField(value: unknown, maxLength: number): string {
+  return typeof value === "string" ? sanitizeText(value).slice(0, maxLength) : "";
+}
+
+function variationPrompt(variation: string, instruction: string, ageBand: string): string {
+  switch (variation) {
+    case "shorter":
+      return "Make the story about a third shorter. Keep the opening, the turning point and the ending; cut side details and repetition.";
+    case "twist":
+      return "Add one surprising but gentle, age-appropriate twist that still leads to the same moral and ending.";
+    case "simplify":
+      // The youngest listeners in the band set the vocabulary
+      return `Simplify the vocabulary and sentences so a ${ageBand.split("-")[0]}-year-old can follow every line. Keep the plot.`;
+    default:
+      return instruction;
+  }
+}
+
+// Model replies sometimes arrive fenced or padded; the script box wants plain paragraphs
+function cleanScript(content: string): string {
+  const script = content
+    .replace(/```[a-z]*\n?/gi, "")
+    .replace(/\r\n?/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+  if (script.length <= MAX_SCRIPT_LENGTH) return script;
+
+  // Over-long drafts are cut at the last paragraph that fits
+  const cut = script.lastIndexOf("\n\n", MAX_SCRIPT_LENGTH);
+  return script.slice(0, cut > 0 ? cut : MAX_SCRIPT_LENGTH).trim();
+}
+
+// Deterministic stand-in for the model's reply under the mock provider
+function mockStory(brief: StoryBrief, draft: string | null, variation: string | null): string {
+  if (draft && variation) {
+    return variation === "shorter"
+      ? draft.split(/\n{2,}/).filter((_, i, paragraphs) => i === 0 || i >= paragraphs.length / 2).join("\n\n")
+      : `${draft}\n\nAnd that is how the story changed (${variation}).`;
+  }
+
+  const characters = brief.characters || "a curious little fox";
+  return [
+    `Once upon a time, there lived ${characters}.`,
+    `One day, ${brief.premise}`,
+    "There were worries along the way, but friends helped each other and found a way through.",
+    brief.moral ? `And so everyone learned: ${brief.moral}` : "And everyone went home happy.",
+  ].join("\n\n");
+}
+
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+async function logUsage(
+  supabase: SupabaseClient,
+  userId: string,
+  projectId: string,
+  model: AiModel,
+  inputTokens: number,
+  outputTokens: number,
+  status: "success" | "failed",
+  errorMessage?: string,
+  metadata?: Record<string, unknown>
+) {
+  try {
+    const costUsd = calculateCost(model, { inputTokens, outputTokens, images: 0 });
+
+    await supabase.from('api_usage_logs').insert({
+      user_id: userId,
+      project_id: projectId,
+      provider: model.vendor,
+      model: model.name,
+      feature: "write-story",
+      input_tokens: inputTokens,
+      output_tokens: outputTokens,
+      total_tokens: inputTokens + outputTokens,
+      api_calls: 1,
+      cost_usd: costUsd,
+      cost_inr: costUsd * USD_TO_INR,
+      status,
+      error_message: errorMessage,
+      metadata,
+    });
+
+    console.log(`Usage logged: write-story, tokens: ${inputTokens + outputTokens}, cost: $${costUsd.toFixed(6)}`);
+  } catch (err) {
+    console.error("Failed to log usage:", err);
+  }
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
+  const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+  const serviceSupabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+  let userId: string | null = null;
+  let projectId: string | null = null;
+  let ledgerId: string | null = null;
+  let model: AiModel | null = null;
+  let inputTokens = 0;
+  let outputTokens = 0;
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: "Authentication required" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const authenticatedUserId = await resolveUserId(req);
+    if (!authenticatedUserId) {
+      return new Response(
+        JSON.stringify({ error: "Invalid or expired token" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    userId = authenticatedUserId;
+    console.log(`Authenticated user: ${userId}`);
+
+    const rateLimit = await checkRateLimit(serviceSupabase, userId, "write-story");
+    if (!rateLimit.allowed) {
+      return rateLimitResponse(rateLimit.retryAfterSeconds, corsHeaders);
+    }
+
+    const body = await req.json();
+    const { projectId: reqProjectId, ageBand, lengthMinutes, variation, instruction, draft } = body;
+
+    if (!reqProjectId || typeof reqProjectId !== 'string' || !UUID_REGEX.test(reqProjectId)) {
+      return new Response(
+        JSON.stringify({ error: "Valid project ID is required" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    projectId = reqProjectId;
+
+    const brief: StoryBrief = {
+      premise: cleanField(body.premise, MAX_PREMISE_LENGTH),
+      moral: cleanField(body.moral, MAX_MORAL_LENGTH),
+      characters: cleanField(body.characters, MAX_CHARACTERS_LENGTH),
+      ageBand: VALID_AGE_BANDS.includes(ageBand) ? ageBand : "3-5",
+      lengthMinutes: Math.min(
+        MAX_LENGTH_MINUTES,
+        Math.max(MIN_LENGTH_MINUTES, Math.round(Number(lengthMinutes)) || MIN_LENGTH_MINUTES)
+      ),
+    };
+
+    if (!brief.premise) {
+      return new Response(
+        JSON.stringify({ error: "A premise is required" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // A variation revises the draft sent with it
+    const isRevision = variation !== undefined && variation !== null;
+    const revisionDraft = isRevision ? cleanField(draft, MAX_SCRIPT_LENGTH) : "";
+    const revisionInstruction = cleanField(instruction, MAX_INSTRUCTION_LENGTH);
+    if (isRevision) {
+      if (!VALID_VARIATIONS.includes(variation) || (variation === "custom" && !revisionInstruction)) {
+        return new Response(
+          JSON.stringify({ error: "Invalid variation" }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+      if (!revisionDraft) {
+        return new Response(
+          JSON.stringify({ error: "A draft is required to make a variation" }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+    }
+
+    const { data: project, error: projectError } = await serviceSupabase
+      .from('projects')
+      .select('user_id, language, story_type, tone')
+      .eq('id', projectId)
+      .single();
+
+    if (projectError || !project) {
+      return new Response(
+        JSON.stringify({ error: "Project not found" }),
+        { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (project.user_id !== userId) {
+      return new Response(
+        JSON.stringify({ error: "You don't have permission to access this project" }),
+        { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    model = await getFeatureModel(serviceSupabase, "write-story");
+    const provider = getAiProvider(model);
+
+    if (!provider.isConfigured()) {
+      return new Response(
+        JSON.stringify({ error: "AI provider not configured" }),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const targetWords = brief.lengthMinutes * WORDS_PER_MINUTE;
+
+    const systemPrompt = `You are a children's story writer for narrated story videos. Write a script that is read aloud by a narrator over illustrated scenes.
+
+Guidelines:
+- Language: ${LANGUAGE_PROMPTS[project.language] ?? LANGUAGE_PROMPTS.english}
+- Story: ${STORY_TYPE_PROMPTS[project.story_type] ?? STORY_TYPE_PROMPTS.kids}
+- Tone: ${project.tone}
+- Audience: children aged ${brief.ageBand}; use words, sentence lengths and themes that suit them, and nothing frightening or unsafe to imitate
+- Length: about ${targetWords} words (${brief.lengthMinutes} minute${brief.lengthMinutes !== 1 ? "s" : ""} read aloud), never more than ${MAX_SCRIPT_LENGTH} characters
+- Write short paragraphs, each a distinct visual moment, so the script splits cleanly into scenes
+- Put dialogue in quotes and name who speaks, so each character can be voiced
+- Let the moral come out of what the characters do rather than lecturing
+
+Return ONLY the story text as plain paragraphs separated by blank lines: no title, no headings, no markdown.`;
+
+    const briefMessage = `Write the story.
+
+Premise: ${brief.premise}${brief.moral ? `\nMoral: ${brief.moral}` : ""}${brief.characters ? `\nMain characters: ${brief.characters}` : ""}`;
+
+    const messages: ChatMessage[] = [
+      { role: "system", content: systemPrompt },
+      { role: "user", content: briefMessage },
+    ];
+    if (isRevision) {
+      messages.push(
+        { role: "assistant", content: revisionDraft },
+        {
+          role: "user",
+          content: `${variationPrompt(variation, revisionInstruction, brief.ageBand)}\n\nReturn the complete revised story, following the same guidelines.`,
+        }
+      );
+    }
+    inputTokens = estimateTokens(messages.map((m) => typeof m.content === "string" ? m.content : "").join(""));
+
+    const reservation = await reserveCredits(serviceSupabase, userId, "write-story", {
+      projectId,
+      metadata: isRevision ? { variation } : {},
+    });
+    if (!reservation.ledgerId) {
+      return new Response(
+        JSON.stringify({ error: insufficientCreditsMessage(reservation) }),
+        { status: 402, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    ledgerId = reservation.ledgerId;
+
+    console.log(`Calling ${model.id} to ${isRevision ? `revise a story (${variation})` : "write a story"}...`);
+
+    let result: ChatResult;
+    try {
+      result = await provider.chat(model, {
+        messages,
+        mockContent: () => mockStory(brief, revisionDraft || null, isRevision ? variation : null),
+      });
+    } catch (error) {
+      if (!(error instanceof AiError)) throw error;
+      await logUsage(serviceSupabase, userId, projectId, model, inputTokens, 0, "failed", error.message);
+
+      if (error.status === 429 && error.retryAfterSeconds !== null) {
+        await refundCredits(serviceSupabase, ledgerId, "Rate limit exceeded");
+        return rateLimitResponse(error.retryAfterSeconds, corsHeaders);
+      }
+
+      if (error.status === 402) {
+        await refundCredits(serviceSupabase, ledgerId, "Provider credits exhausted");
+        return new Response(
+          JSON.stringify({ error: "AI credits exhausted. Please add credits to continue." }),
+          { status: 402, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      await refundCredits(serviceSupabase, ledgerId, error.message);
+      return new Response(
+        JSON.stringify({ error: error.message }),
+        { status: error.status, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    inputTokens = result.inputTokens || inputTokens;
+    outputTokens = result.outputTokens || estimateTokens(result.content || "");
+
+    const script = cleanScript(result.content || "");
+    if (!script) {
+      throw new Error("No story in AI response");
+    }
+
+    await commitCredits(serviceSupabase, ledgerId);
+
+    await logUsage(serviceSupabase, userId, projectId, model, inputTokens, outputTokens, "success", undefined, {
+      variation: isRevision ? variation : null,
+      age_band: brief.ageBand,
+      length_minutes: brief.lengthMinutes,
+    });
+
+    console.log(`Wrote a ${script.length}-character story for user ${userId}`);
+
+    return new Response(JSON.stringify({ script }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    console.error("Write story error:", error);
+
+    if (userId && projectId && model) {
+      await logUsage(serviceSupabase, userId, projectId, model, inputTokens, outputTokens, "failed", error instanceof Error ? error.message : "Unknown error");
+    }
+
+    await refundCredits(serviceSupabase, ledgerId, error instanceof Error ? error.message : "Unknown error");
+
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -0,0 +1,189 @@
+-- ============================================
+-- CREDIT LEDGER
+-- ============================================
+-- Every change to profiles.credits_balance is recorded here. Edge functions
+-- reserve credits before calling an AI provider, then commit the reservation
+-- on success or refund it on failure.
+CREATE TABLE public.credit_ledger (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  project_id UUID REFERENCES public.projects(id) ON DELETE SET NULL,
+  scene_id UUID REFERENCES public.scenes(id) ON DELETE SET NULL,
+  feature TEXT NOT NULL, -- generate-scenes | generate-image | generate-voiceover | export-video | purchase
+  amount INTEGER NOT NULL, -- negative for debits, positive for purchases
+  balance_after INTEGER NOT NULL,
+  status TEXT NOT NULL DEFAULT 'reserved' CHECK (status IN ('reserved', 'committed', 'refunded')),
+  reason TEXT,
+  metadata JSONB DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_credit_ledger_user_date ON public.credit_ledger(user_id, created_at DESC);
+CREATE INDEX idx_credit_ledger_reserved ON public.credit_ledger(created_at) WHERE status = 'reserved';
+
+ALTER TABLE public.credit_ledger ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own credit ledger"
+ON public.credit_ledger
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all credit ledger entries"
+ON public.credit_ledger
+FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Service role full access to credit ledger"
+ON public.credit_ledger
+FOR ALL
+USING ((auth.jwt() ->> 'role'::text) = 'service_role'::text);
+
+CREATE TRIGGER update_credit_ledger_updated_at
+BEFORE UPDATE ON public.credit_ledger
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Reserve credits atomically. Returns a NULL ledger_id when the balance is too low.
+CREATE OR REPLACE FUNCTION public.reserve_credits(
+  p_user_id UUID,
+  p_amount INTEGER,
+  p_feature TEXT,
+  p_project_id UUID DEFAULT NULL,
+  p_scene_id UUID DEFAULT NULL,
+  p_metadata JSONB DEFAULT '{}'
+)
+RETURNS TABLE (
+  ledger_id UUID,
+  balance INTEGER
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_balance INTEGER;
+  v_ledger_id UUID;
+BEGIN
+  IF p_amount <= 0 THEN
+    RAISE EXCEPTION 'Reservation amount must be positive';
+  END IF;
+
+  -- Lock the profile row so concurrent reservations cannot overdraw
+  SELECT credits_balance INTO v_balance
+  FROM public.profiles
+  WHERE user_id = p_user_id
+  FOR UPDATE;
+
+  IF v_balance IS NULL THEN
+    RAISE EXCEPTION 'Profile not found';
+  END IF;
+
+  IF v_balance < p_amount THEN
+    RETURN QUERY SELECT NULL::UUID, v_balance;
+    RETURN;
+  END IF;
+
+  UPDATE public.profiles
+  SET credits_balance = credits_balance - p_amount
+  WHERE user_id = p_user_id;
+
+  INSERT INTO public.credit_ledger (user_id, project_id, scene_id, feature, amount, balance_after, status, metadata)
+  VALUES (p_user_id, p_project_id, p_scene_id, p_feature, -p_amount, v_balance - p_amount, 'reserved', COALESCE(p_metadata, '{}'))
+  RETURNING id INTO v_ledger_id;
+
+  RETURN QUERY SELECT v_ledger_id, v_balance - p_amount;
+END;
+$$;
+
+-- Mark a reservation as spent
+CREATE OR REPLACE FUNCTION public.commit_credits(p_ledger_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  UPDATE public.credit_ledger
+  SET status = 'committed'
+  WHERE id = p_ledger_id
+  AND status = 'reserved';
+
+  RETURN FOUND;
+END;
+$$;
+
+-- Return reserved credits to the user. Safe to call more than once.
+CREATE OR REPLACE FUNCTION public.refund_credits(p_ledger_id UUID, p_reason TEXT DEFAULT NULL)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_entry public.credit_ledger%ROWTYPE;
+BEGIN
+  SELECT * INTO v_entry
+  FROM public.credit_ledger
+  WHERE id = p_ledger_id
+  AND status = 'reserved'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN FALSE;
+  END IF;
+
+  UPDATE public.profiles
+  SET credits_balance = credits_balance - v_entry.amount
+  WHERE user_id = v_entry.user_id;
+
+  UPDATE public.credit_ledger
+  SET status = 'refunded', reason = p_reason
+  WHERE id = p_ledger_id;
+
+  RETURN TRUE;
+END;
+$$;
+
+-- Only edge functions (service role) may move credits
+REVOKE EXECUTE ON FUNCTION public.reserve_credits(UUID, INTEGER, TEXT, UUID, UUID, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.commit_credits(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.refund_credits(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.reserve_credits(UUID, INTEGER, TEXT, UUID, UUID, JSONB) TO service_role;
+GRANT EXECUTE ON FUNCTION public.commit_credits(UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION public.refund_credits(UUID, TEXT) TO service_role;
+
+-- Record purchases in the ledger as well
+CREATE OR REPLACE FUNCTION public.add_credits_after_payment()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_balance INTEGER;
+BEGIN
+  UPDATE public.profiles
+  SET credits_balance = COALESCE(credits_balance, 0) + NEW.credits_added
+  WHERE user_id = NEW.user_id
+  RETURNING credits_balance INTO v_balance;
+
+  INSERT INTO public.credit_ledger (user_id, feature, amount, balance_after, status, metadata)
+  VALUES (NEW.user_id, 'purchase', NEW.credits_added, COALESCE(v_balance, NEW.credits_added), 'committed',
+          jsonb_build_object('payment_transaction_id', NEW.id));
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Users can update their own profile, but not their credit balance
+CREATE OR REPLACE FUNCTION public.protect_credits_balance()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF (auth.jwt() ->> 'role') = 'authenticated' AND NEW.credits_balance IS DISTINCT FROM OLD.credits_balance THEN
+    NEW.credits_balance = OLD.credits_balance;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER protect_profiles_credits_balance
+BEFORE UPDATE ON public.profiles
+FOR EACH ROW
+EXECUTE FUNCTION public.protect_credits_balance();
@@ -0,0 +1,215 @@
+-- ============================================
+-- GENERATION JOB QUEUE
+-- ============================================
+-- generation_jobs now holds scene, image and voiceover jobs. The process-jobs
+-- edge function claims queued jobs, runs them and retries failures with
+-- exponential backoff until max_retries is reached.
+
+ALTER TABLE public.generation_jobs
+ADD COLUMN IF NOT EXISTS job_type TEXT NOT NULL DEFAULT 'generate-scenes'
+  CHECK (job_type IN ('generate-scenes', 'generate-image', 'generate-voiceover')),
+ADD COLUMN IF NOT EXISTS scene_id UUID REFERENCES public.scenes(id) ON DELETE CASCADE,
+ADD COLUMN IF NOT EXISTS payload JSONB NOT NULL DEFAULT '{}',
+ADD COLUMN IF NOT EXISTS result JSONB;
+
+-- Image and voiceover jobs have no script
+ALTER TABLE public.generation_jobs ALTER COLUMN script_content DROP NOT NULL;
+ALTER TABLE public.generation_jobs ALTER COLUMN script_hash DROP NOT NULL;
+
+-- At most one active job per scene and job type
+CREATE UNIQUE INDEX IF NOT EXISTS idx_generation_jobs_active_scene
+ON public.generation_jobs (scene_id, job_type)
+WHERE status IN ('queued', 'processing') AND scene_id IS NOT NULL;
+
+-- Enable realtime so the editor can follow job progress
+ALTER TABLE public.generation_jobs REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.generation_jobs;
+
+-- The active-job lock only applies to script (scene) generation
+CREATE OR REPLACE FUNCTION public.has_active_job(p_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  RETURN EXISTS (
+    SELECT 1 FROM public.generation_jobs
+    WHERE user_id = p_user_id
+    AND job_type = 'generate-scenes'
+    AND status IN ('queued', 'processing')
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_active_job(p_user_id uuid)
+RETURNS TABLE (
+  job_id uuid,
+  status text,
+  updated_at timestamp with time zone,
+  project_id uuid
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  RETURN QUERY
+  SELECT gj.id, gj.status, gj.updated_at, gj.project_id
+  FROM public.generation_jobs gj
+  WHERE gj.user_id = p_user_id
+  AND gj.job_type = 'generate-scenes'
+  AND gj.status IN ('queued', 'processing')
+  ORDER BY gj.created_at DESC
+  LIMIT 1;
+END;
+$function$;
+
+-- Claim due jobs for a worker. SKIP LOCKED lets several workers run at once.
+CREATE OR REPLACE FUNCTION public.claim_generation_jobs(p_limit INTEGER DEFAULT 5, p_user_id UUID DEFAULT NULL)
+RETURNS SETOF public.generation_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE public.generation_jobs gj
+  SET
+    status = 'processing',
+    started_at = now(),
+    progress = GREATEST(gj.progress, 5),
+    error_message = NULL
+  WHERE gj.id IN (
+    SELECT q.id FROM public.generation_jobs q
+    WHERE q.status = 'queued'
+    AND q.scheduled_at <= now()
+    AND (p_user_id IS NULL OR q.user_id = p_user_id)
+    ORDER BY q.scheduled_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING gj.*;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.complete_generation_job(p_job_id UUID, p_result JSONB DEFAULT NULL, p_scenes_generated INTEGER DEFAULT 0)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  UPDATE public.generation_jobs
+  SET
+    status = 'completed',
+    progress = 100,
+    result = p_result,
+    scenes_generated = p_scenes_generated,
+    completed_at = now()
+  WHERE id = p_job_id
+  AND status = 'processing';
+
+  RETURN FOUND;
+END;
+$$;
+
+-- Record a failure. Retryable jobs are requeued with exponential backoff
+-- (30s, 60s, 120s, ... capped at 15 minutes). Returns the new status.
+CREATE OR REPLACE FUNCTION public.fail_generation_job(p_job_id UUID, p_error TEXT, p_retryable BOOLEAN DEFAULT true)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_job public.generation_jobs%ROWTYPE;
+BEGIN
+  SELECT * INTO v_job
+  FROM public.generation_jobs
+  WHERE id = p_job_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  IF p_retryable AND v_job.retry_count < v_job.max_retries THEN
+    UPDATE public.generation_jobs
+    SET
+      status = 'queued',
+      retry_count = v_job.retry_count + 1,
+      error_message = p_error,
+      started_at = NULL,
+      scheduled_at = now() + LEAST(power(2, v_job.retry_count) * INTERVAL '30 seconds', INTERVAL '15 minutes')
+    WHERE id = p_job_id;
+    RETURN 'queued';
+  END IF;
+
+  UPDATE public.generation_jobs
+  SET
+    status = 'failed',
+    error_message = p_error,
+    completed_at = now()
+  WHERE id = p_job_id;
+  RETURN 'failed';
+END;
+$$;
+
+-- Requeue (or fail) jobs whose worker stopped reporting progress
+CREATE OR REPLACE FUNCTION public.recover_stale_jobs(p_timeout_minutes INTEGER DEFAULT 10)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_job_id UUID;
+  v_count INTEGER := 0;
+BEGIN
+  FOR v_job_id IN
+    SELECT id FROM public.generation_jobs
+    WHERE status = 'processing'
+    AND updated_at < now() - (p_timeout_minutes || ' minutes')::INTERVAL
+  LOOP
+    PERFORM public.fail_generation_job(v_job_id, 'Job timed out', true);
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_generation_jobs(INTEGER, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.complete_generation_job(UUID, JSONB, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.fail_generation_job(UUID, TEXT, BOOLEAN) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.recover_stale_jobs(INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_generation_jobs(INTEGER, UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION public.complete_generation_job(UUID, JSONB, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION public.fail_generation_job(UUID, TEXT, BOOLEAN) TO service_role;
+GRANT EXECUTE ON FUNCTION public.recover_stale_jobs(INTEGER) TO service_role;
+
+-- ============================================
+-- WORKER SCHEDULE
+-- ============================================
+-- Drain the queue every minute, even when no browser tab is open.
+-- Requires vault secrets named 'project_url' (the deployment's base URL, e.g.
+-- https://<ref>.supabase.co) and 'service_role_key', so each environment calls
+-- its own process-jobs function.
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'process-generation-jobs',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/process-jobs',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
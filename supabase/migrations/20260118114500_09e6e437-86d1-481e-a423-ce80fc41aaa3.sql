@@ -0,0 +1,131 @@
+-- ============================================
+-- PER-FEATURE RATE LIMITS
+-- ============================================
+-- Each edge function keeps its own request window per user instead of
+-- sharing a single counter.
+
+ALTER TABLE public.user_rate_limits
+ADD COLUMN IF NOT EXISTS feature TEXT NOT NULL DEFAULT 'default';
+
+ALTER TABLE public.user_rate_limits DROP CONSTRAINT IF EXISTS user_rate_limits_user_id_key;
+ALTER TABLE public.user_rate_limits
+ADD CONSTRAINT user_rate_limits_user_feature_key UNIQUE (user_id, feature);
+
+DROP FUNCTION IF EXISTS public.check_rate_limit(UUID, INTEGER, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.check_rate_limit(
+  p_user_id UUID,
+  p_max_requests INTEGER DEFAULT 5,
+  p_window_minutes INTEGER DEFAULT 1,
+  p_feature TEXT DEFAULT 'default'
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_window_start TIMESTAMP WITH TIME ZONE;
+  v_request_count INTEGER;
+  v_now TIMESTAMP WITH TIME ZONE := now();
+BEGIN
+  -- Get or create rate limit record
+  INSERT INTO public.user_rate_limits (user_id, feature, request_count, window_start)
+  VALUES (p_user_id, p_feature, 0, v_now)
+  ON CONFLICT (user_id, feature) DO NOTHING;
+
+  -- Lock the row so concurrent requests cannot both take the last slot
+  SELECT window_start, request_count INTO v_window_start, v_request_count
+  FROM public.user_rate_limits
+  WHERE user_id = p_user_id AND feature = p_feature
+  FOR UPDATE;
+
+  -- Check if window has expired
+  IF v_now > v_window_start + (p_window_minutes || ' minutes')::INTERVAL THEN
+    UPDATE public.user_rate_limits
+    SET window_start = v_now, request_count = 1, updated_at = v_now
+    WHERE user_id = p_user_id AND feature = p_feature;
+    RETURN TRUE;
+  END IF;
+
+  -- Check if under limit
+  IF v_request_count < p_max_requests THEN
+    UPDATE public.user_rate_limits
+    SET request_count = request_count + 1, updated_at = v_now
+    WHERE user_id = p_user_id AND feature = p_feature;
+    RETURN TRUE;
+  END IF;
+
+  RETURN FALSE;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.check_rate_limit(UUID, INTEGER, INTEGER, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.check_rate_limit(UUID, INTEGER, INTEGER, TEXT) TO service_role;
+
+-- ============================================
+-- JOB QUEUE: HONOUR RETRY-AFTER
+-- ============================================
+-- Rate-limited jobs are rescheduled for when the window reopens and do not
+-- use up one of their retries.
+
+DROP FUNCTION IF EXISTS public.fail_generation_job(UUID, TEXT, BOOLEAN);
+
+CREATE OR REPLACE FUNCTION public.fail_generation_job(
+  p_job_id UUID,
+  p_error TEXT,
+  p_retryable BOOLEAN DEFAULT true,
+  p_retry_after_seconds INTEGER DEFAULT NULL
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_job public.generation_jobs%ROWTYPE;
+BEGIN
+  SELECT * INTO v_job
+  FROM public.generation_jobs
+  WHERE id = p_job_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  IF p_retry_after_seconds IS NOT NULL THEN
+    UPDATE public.generation_jobs
+    SET
+      status = 'queued',
+      error_message = p_error,
+      started_at = NULL,
+      scheduled_at = now() + (p_retry_after_seconds || ' seconds')::INTERVAL
+    WHERE id = p_job_id;
+    RETURN 'queued';
+  END IF;
+
+  IF p_retryable AND v_job.retry_count < v_job.max_retries THEN
+    UPDATE public.generation_jobs
+    SET
+      status = 'queued',
+      retry_count = v_job.retry_count + 1,
+      error_message = p_error,
+      started_at = NULL,
+      scheduled_at = now() + LEAST(power(2, v_job.retry_count) * INTERVAL '30 seconds', INTERVAL '15 minutes')
+    WHERE id = p_job_id;
+    RETURN 'queued';
+  END IF;
+
+  UPDATE public.generation_jobs
+  SET
+    status = 'failed',
+    error_message = p_error,
+    completed_at = now()
+  WHERE id = p_job_id;
+  RETURN 'failed';
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.fail_generation_job(UUID, TEXT, BOOLEAN, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.fail_generation_job(UUID, TEXT, BOOLEAN, INTEGER) TO service_role;
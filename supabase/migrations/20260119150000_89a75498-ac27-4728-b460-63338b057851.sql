@@ -0,0 +1,111 @@
+-- ============================================
+-- MP4 RENDER JOBS
+-- ============================================
+-- export-video now queues a 'render-video' job. It is picked up by the ffmpeg
+-- render worker (workers/render-video), not by the process-jobs edge function.
+
+ALTER TABLE public.generation_jobs DROP CONSTRAINT IF EXISTS generation_jobs_job_type_check;
+ALTER TABLE public.generation_jobs
+ADD CONSTRAINT generation_jobs_job_type_check
+  CHECK (job_type IN ('generate-scenes', 'generate-image', 'generate-voiceover', 'render-video'));
+
+-- At most one render in flight per project
+CREATE UNIQUE INDEX IF NOT EXISTS idx_generation_jobs_active_render
+ON public.generation_jobs (project_id)
+WHERE job_type = 'render-video' AND status IN ('queued', 'processing');
+
+-- Workers only claim the job types they can run
+DROP FUNCTION IF EXISTS public.claim_generation_jobs(INTEGER, UUID);
+
+CREATE OR REPLACE FUNCTION public.claim_generation_jobs(
+  p_limit INTEGER DEFAULT 5,
+  p_user_id UUID DEFAULT NULL,
+  p_job_types TEXT[] DEFAULT NULL
+)
+RETURNS SETOF public.generation_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE public.generation_jobs gj
+  SET
+    status = 'processing',
+    started_at = now(),
+    progress = GREATEST(gj.progress, 5),
+    error_message = NULL
+  WHERE gj.id IN (
+    SELECT q.id FROM public.generation_jobs q
+    WHERE q.status = 'queued'
+    AND q.scheduled_at <= now()
+    AND (p_user_id IS NULL OR q.user_id = p_user_id)
+    AND (p_job_types IS NULL OR q.job_type = ANY(p_job_types))
+    ORDER BY q.scheduled_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING gj.*;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_generation_jobs(INTEGER, UUID, TEXT[]) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_generation_jobs(INTEGER, UUID, TEXT[]) TO service_role;
+
+-- ============================================
+-- CLIENT-QUEUED JOBS
+-- ============================================
+-- Render jobs carry export-video's credit reservation, so only the service
+-- role may queue them. Clients queue new image and voiceover jobs for scenes
+-- of their own projects and nothing else.
+DROP POLICY IF EXISTS "Users can create their own jobs" ON public.generation_jobs;
+
+CREATE POLICY "Users can create their own jobs"
+ON public.generation_jobs
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND job_type IN ('generate-image', 'generate-voiceover')
+  AND status = 'queued'
+  AND retry_count = 0
+  AND max_retries = 3
+  AND EXISTS (
+    SELECT 1 FROM public.scenes s
+    JOIN public.projects p ON p.id = s.project_id
+    WHERE s.id = generation_jobs.scene_id
+    AND s.project_id = generation_jobs.project_id
+    AND p.user_id = auth.uid()
+  )
+);
+
+-- ============================================
+-- STALE RENDERS
+-- ============================================
+-- A render whose worker stopped reporting is retried like any other job. Once
+-- it has failed for good, its reserved export credits are refunded.
+CREATE OR REPLACE FUNCTION public.recover_stale_jobs(p_timeout_minutes INTEGER DEFAULT 10)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_job RECORD;
+  v_count INTEGER := 0;
+BEGIN
+  FOR v_job IN
+    SELECT id, job_type, payload FROM public.generation_jobs
+    WHERE status = 'processing'
+    AND updated_at < now() - (p_timeout_minutes || ' minutes')::INTERVAL
+  LOOP
+    IF public.fail_generation_job(v_job.id, 'Job timed out', true) = 'failed'
+      AND v_job.job_type = 'render-video'
+      AND v_job.payload ? 'ledger_id' THEN
+      PERFORM public.refund_credits((v_job.payload->>'ledger_id')::UUID, 'Render timed out');
+    END IF;
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
@@ -0,0 +1,38 @@
+-- ============================================
+-- MEASURED AUDIO DURATION
+-- ============================================
+-- generate-voiceover now decodes the MP3 frame headers and returns the real
+-- length. Milliseconds are kept alongside actual_duration (seconds) so
+-- subtitle and word timings don't lose precision.
+
+ALTER TABLE public.scenes
+ADD COLUMN IF NOT EXISTS audio_duration_ms INTEGER;
+
+ALTER TABLE public.scenes DROP CONSTRAINT IF EXISTS scenes_audio_duration_ms_check;
+ALTER TABLE public.scenes
+ADD CONSTRAINT scenes_audio_duration_ms_check
+  CHECK (audio_duration_ms IS NULL OR audio_duration_ms > 0);
+
+-- ============================================
+-- BACKFILL
+-- ============================================
+-- Existing voiceovers only have the word-count estimate. Queue a
+-- 'measure-audio' job for each so process-jobs can download and measure it.
+
+ALTER TABLE public.generation_jobs DROP CONSTRAINT IF EXISTS generation_jobs_job_type_check;
+ALTER TABLE public.generation_jobs
+ADD CONSTRAINT generation_jobs_job_type_check
+  CHECK (job_type IN ('generate-scenes', 'generate-image', 'generate-voiceover', 'render-video', 'measure-audio'));
+
+INSERT INTO public.generation_jobs (user_id, project_id, scene_id, job_type)
+SELECT p.user_id, s.project_id, s.id, 'measure-audio'
+FROM public.scenes s
+JOIN public.projects p ON p.id = s.project_id
+WHERE s.audio_url IS NOT NULL
+AND s.audio_duration_ms IS NULL
+AND NOT EXISTS (
+  SELECT 1 FROM public.generation_jobs gj
+  WHERE gj.scene_id = s.id
+  AND gj.job_type = 'measure-audio'
+  AND gj.status IN ('queued', 'processing')
+);
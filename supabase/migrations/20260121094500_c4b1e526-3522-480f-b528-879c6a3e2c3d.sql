@@ -0,0 +1,14 @@
+-- ============================================
+-- WORD TIMINGS FOR READ-ALONG CAPTIONS
+-- ============================================
+-- generate-voiceover uses the ElevenLabs timestamped endpoint and stores the
+-- spoken time of each narration word: [{ "text", "start_ms", "end_ms" }].
+-- NULL for voiceovers generated before alignment was kept.
+
+ALTER TABLE public.scenes
+ADD COLUMN IF NOT EXISTS word_timings JSONB;
+
+ALTER TABLE public.scenes DROP CONSTRAINT IF EXISTS scenes_word_timings_check;
+ALTER TABLE public.scenes
+ADD CONSTRAINT scenes_word_timings_check
+  CHECK (word_timings IS NULL OR jsonb_typeof(word_timings) = 'array');
@@ -0,0 +1,13 @@
+-- ============================================
+-- SCENE MOTION AND TRANSITIONS
+-- ============================================
+-- Ken Burns motion and the transition into each scene. Both the browser
+-- downloader and the render worker read these (see src/lib/motion.ts).
+-- A scene's transition is ignored for the first scene.
+
+CREATE TYPE public.scene_motion AS ENUM ('none', 'zoom-in', 'zoom-out', 'pan-left', 'pan-right');
+CREATE TYPE public.scene_transition AS ENUM ('cut', 'crossfade', 'dip-to-black');
+
+ALTER TABLE public.scenes
+ADD COLUMN IF NOT EXISTS motion public.scene_motion NOT NULL DEFAULT 'none',
+ADD COLUMN IF NOT EXISTS transition public.scene_transition NOT NULL DEFAULT 'cut';
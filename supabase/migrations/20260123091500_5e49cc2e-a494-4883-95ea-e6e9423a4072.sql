@@ -0,0 +1,32 @@
+-- ============================================
+-- BACKGROUND MUSIC
+-- ============================================
+-- A project-level music bed, either uploaded by the user (project-assets) or
+-- picked from the bundled library (music-library bucket, see src/lib/music.ts).
+-- Both renderers fade it in and out and duck it under narration.
+
+ALTER TABLE public.projects
+ADD COLUMN IF NOT EXISTS music_url TEXT,
+ADD COLUMN IF NOT EXISTS music_source TEXT CHECK (music_source IN ('library', 'upload')),
+ADD COLUMN IF NOT EXISTS music_track_id TEXT,
+ADD COLUMN IF NOT EXISTS music_volume NUMERIC(3,2) NOT NULL DEFAULT 0.30 CHECK (music_volume BETWEEN 0 AND 1),
+ADD COLUMN IF NOT EXISTS music_fade_in_ms INTEGER NOT NULL DEFAULT 2000 CHECK (music_fade_in_ms BETWEEN 0 AND 10000),
+ADD COLUMN IF NOT EXISTS music_fade_out_ms INTEGER NOT NULL DEFAULT 3000 CHECK (music_fade_out_ms BETWEEN 0 AND 10000);
+
+-- ============================================
+-- MUSIC LIBRARY BUCKET
+-- ============================================
+-- Royalty-free tracks, uploaded under <tone>/<file>.mp3 by an admin.
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('music-library', 'music-library', true)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Anyone can view music-library"
+  ON storage.objects FOR SELECT
+  USING (bucket_id = 'music-library');
+
+CREATE POLICY "Admins can manage music-library"
+  ON storage.objects FOR ALL
+  USING (bucket_id = 'music-library' AND public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (bucket_id = 'music-library' AND public.has_role(auth.uid(), 'admin'));
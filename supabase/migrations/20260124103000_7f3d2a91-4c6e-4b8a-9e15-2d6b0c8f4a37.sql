@@ -0,0 +1,51 @@
+-- ============================================
+-- CHARACTER BIBLE
+-- ============================================
+-- Canonical look of each recurring character in a project. generate-image
+-- injects the description, style token and reference image of every
+-- character tagged on a scene so they look the same from scene to scene.
+
+CREATE TABLE public.characters (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID REFERENCES public.projects(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 80),
+  description TEXT NOT NULL DEFAULT '' CHECK (char_length(description) <= 1000),
+  reference_image_url TEXT,
+  -- Fixed phrase repeated verbatim in every prompt, e.g. "kaki-fox-v1, orange scarf"
+  style_token TEXT CHECK (char_length(style_token) <= 200),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- generate-scenes tags scenes by name, so names must be unique per project
+CREATE UNIQUE INDEX characters_project_name_key
+  ON public.characters (project_id, lower(name));
+
+ALTER TABLE public.characters ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage characters of their projects"
+  ON public.characters FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.projects
+      WHERE projects.id = characters.project_id
+      AND projects.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can view all characters"
+  ON public.characters FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_characters_updated_at
+  BEFORE UPDATE ON public.characters
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- ============================================
+-- SCENE CHARACTERS
+-- ============================================
+-- Characters appearing in a scene. Ids of deleted characters are ignored
+-- when the image prompt is built.
+
+ALTER TABLE public.scenes
+ADD COLUMN IF NOT EXISTS character_ids UUID[] NOT NULL DEFAULT '{}';
@@ -0,0 +1,51 @@
+-- ============================================
+-- SCENE ASSET HISTORY
+-- ============================================
+-- Every image and voiceover generated for a scene. scenes.image_url and
+-- scenes.audio_url point at the selected version; the rest stay available
+-- to compare and revert to. Candidates generated together share a job_id.
+
+CREATE TABLE public.scene_assets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  scene_id UUID REFERENCES public.scenes(id) ON DELETE CASCADE NOT NULL,
+  asset_type TEXT NOT NULL CHECK (asset_type IN ('image', 'audio')),
+  url TEXT NOT NULL,
+  source TEXT NOT NULL DEFAULT 'generated' CHECK (source IN ('generated')),
+  job_id UUID REFERENCES public.generation_jobs(id) ON DELETE SET NULL,
+  -- Audio: { "duration_ms", "word_timings" } so a revert restores timing too
+  metadata JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_scene_assets_scene ON public.scene_assets (scene_id, asset_type, created_at DESC);
+
+ALTER TABLE public.scene_assets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage assets of their scenes"
+  ON public.scene_assets FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.scenes
+      JOIN public.projects ON projects.id = scenes.project_id
+      WHERE scenes.id = scene_assets.scene_id
+      AND projects.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can view all scene assets"
+  ON public.scene_assets FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Keep the versions scenes already have
+INSERT INTO public.scene_assets (scene_id, asset_type, url, created_at)
+SELECT id, 'image', image_url, updated_at FROM public.scenes WHERE image_url IS NOT NULL;
+
+INSERT INTO public.scene_assets (scene_id, asset_type, url, metadata, created_at)
+SELECT
+  id,
+  'audio',
+  audio_url,
+  jsonb_strip_nulls(jsonb_build_object('duration_ms', audio_duration_ms, 'word_timings', word_timings)),
+  updated_at
+FROM public.scenes
+WHERE audio_url IS NOT NULL;
@@ -0,0 +1,37 @@
+-- ============================================
+-- REFRAMED SCENE IMAGES
+-- ============================================
+-- scenes.image_url is drawn in the project's aspect ratio. A 'reframe-image'
+-- job recomposes it for the other orientation (16:9 <-> 9:16) so the same
+-- project can be exported as both a YouTube video and a Short without
+-- cropping. Cleared whenever the source image changes.
+
+ALTER TABLE public.scenes
+ADD COLUMN IF NOT EXISTS reframed_image_url TEXT,
+ADD COLUMN IF NOT EXISTS reframed_image_status scene_status NOT NULL DEFAULT 'pending';
+
+ALTER TABLE public.generation_jobs DROP CONSTRAINT IF EXISTS generation_jobs_job_type_check;
+ALTER TABLE public.generation_jobs
+ADD CONSTRAINT generation_jobs_job_type_check
+  CHECK (job_type IN ('generate-scenes', 'generate-image', 'generate-voiceover', 'render-video', 'measure-audio', 'reframe-image'));
+
+-- The export panel queues reframes, so clients may create them too
+DROP POLICY IF EXISTS "Users can create their own jobs" ON public.generation_jobs;
+
+CREATE POLICY "Users can create their own jobs"
+ON public.generation_jobs
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND job_type IN ('generate-image', 'generate-voiceover', 'reframe-image')
+  AND status = 'queued'
+  AND retry_count = 0
+  AND max_retries = 3
+  AND EXISTS (
+    SELECT 1 FROM public.scenes s
+    JOIN public.projects p ON p.id = s.project_id
+    WHERE s.id = generation_jobs.scene_id
+    AND s.project_id = generation_jobs.project_id
+    AND p.user_id = auth.uid()
+  )
+);
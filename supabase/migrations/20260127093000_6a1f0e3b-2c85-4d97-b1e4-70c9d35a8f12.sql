@@ -0,0 +1,16 @@
+-- ============================================
+-- USER-UPLOADED SCENE ASSETS
+-- ============================================
+-- Illustrators and voice artists can supply a scene's image or narration
+-- directly. Files go to project-assets under <user_id>/scenes/<scene_id>/,
+-- which the existing storage policies already allow. The source column
+-- records where the selected version came from.
+
+ALTER TABLE public.scenes
+ADD COLUMN IF NOT EXISTS image_source TEXT NOT NULL DEFAULT 'generated' CHECK (image_source IN ('generated', 'uploaded')),
+ADD COLUMN IF NOT EXISTS audio_source TEXT NOT NULL DEFAULT 'generated' CHECK (audio_source IN ('generated', 'uploaded'));
+
+ALTER TABLE public.scene_assets DROP CONSTRAINT IF EXISTS scene_assets_source_check;
+ALTER TABLE public.scene_assets
+ADD CONSTRAINT scene_assets_source_check
+  CHECK (source IN ('generated', 'uploaded'));
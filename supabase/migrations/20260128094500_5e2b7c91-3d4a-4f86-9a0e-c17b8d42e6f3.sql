@@ -0,0 +1,15 @@
+-- ============================================
+-- MULTI-SPEAKER NARRATION
+-- ============================================
+-- Dialogue lines are voiced by the character who speaks them. A character
+-- without a voice of its own is read by the project's narrator voice.
+
+ALTER TABLE public.characters
+ADD COLUMN IF NOT EXISTS voice_type public.voice_type;
+
+-- Narration split into speaker-tagged segments by generate-scenes:
+-- [{ "character_id": uuid | null, "text": "..." }], null being the narrator.
+-- The joined segment texts equal narration_text; editing the narration
+-- clears the segments and the scene falls back to a single voice.
+ALTER TABLE public.scenes
+ADD COLUMN IF NOT EXISTS narration_segments JSONB;
@@ -0,0 +1,93 @@
+-- ============================================
+-- VOICE CATALOGUE
+-- ============================================
+-- Narration voices offered per language. generate-voiceover resolves the
+-- project's voice (or, without one, the first voice matching its language
+-- and voice type) through this table instead of a hard-coded map.
+
+CREATE TABLE public.voices (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  provider TEXT NOT NULL DEFAULT 'elevenlabs',
+  provider_voice_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  language public.story_language NOT NULL,
+  voice_type public.voice_type NOT NULL,
+  description TEXT NOT NULL DEFAULT '',
+  -- Absolute URL, or a path in the public voice-samples bucket
+  sample_url TEXT,
+  -- Provider settings used unless the project overrides them
+  voice_settings JSONB NOT NULL DEFAULT '{"stability": 0.6, "similarity_boost": 0.75, "style": 0.4}'::jsonb,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (provider, provider_voice_id, language)
+);
+
+CREATE INDEX voices_language_type_idx ON public.voices (language, voice_type, sort_order);
+
+ALTER TABLE public.voices ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view active voices"
+  ON public.voices FOR SELECT
+  USING (is_active OR public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can manage voices"
+  ON public.voices FOR ALL
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- Premade multilingual voices to start from; admins can swap in voices from
+-- the ElevenLabs voice library that suit each language better. They have no
+-- sample until an admin uploads one, so the picker's preview stays disabled.
+INSERT INTO public.voices (provider_voice_id, name, language, voice_type, description, sample_url, voice_settings, sort_order) VALUES
+  ('EXAVITQu4vr4xnSDxMaL', 'Sarah', 'english', 'female', 'Soft, warm storyteller', NULL, '{"stability": 0.6, "similarity_boost": 0.75, "style": 0.4}', 0),
+  ('XB0fDUnXU5powFXDhCwa', 'Charlotte', 'english', 'female', 'Gentle and calm', NULL, '{"stability": 0.65, "similarity_boost": 0.75, "style": 0.3}', 1),
+  ('JBFqnCBsd6RMkjVDRZzb', 'George', 'english', 'male', 'Deep, friendly narrator', NULL, '{"stability": 0.6, "similarity_boost": 0.75, "style": 0.4}', 0),
+  ('nPczCjzI2devNBz1zQrb', 'Brian', 'english', 'male', 'Resonant and dramatic', NULL, '{"stability": 0.5, "similarity_boost": 0.75, "style": 0.5}', 1),
+  ('pFZP5JQG7iQjIQuC4Bku', 'Lily', 'english', 'child', 'Bright and youthful', NULL, '{"stability": 0.5, "similarity_boost": 0.75, "style": 0.5}', 0),
+  ('9BWtsMINqrJLrRacOk9x', 'Aria', 'hindi', 'female', 'Expressive and clear', NULL, '{"stability": 0.6, "similarity_boost": 0.8, "style": 0.35}', 0),
+  ('onwK4e9ZLuTAKqWW03F9', 'Daniel', 'hindi', 'male', 'Measured and authoritative', NULL, '{"stability": 0.65, "similarity_boost": 0.8, "style": 0.3}', 0),
+  ('cgSgspJ2msm6clMCkdW9', 'Jessica', 'hindi', 'child', 'Playful and young', NULL, '{"stability": 0.5, "similarity_boost": 0.8, "style": 0.5}', 0),
+  ('FGY2WhTYpPnrIDTdsKH5', 'Laura', 'hinglish', 'female', 'Upbeat and conversational', NULL, '{"stability": 0.55, "similarity_boost": 0.75, "style": 0.45}', 0),
+  ('TX3LPaxmHKxFdv7VOQHJ', 'Liam', 'hinglish', 'male', 'Casual and energetic', NULL, '{"stability": 0.55, "similarity_boost": 0.75, "style": 0.45}', 0),
+  ('SAz9YHcvj6GT2YYXdXww', 'River', 'hinglish', 'child', 'Light and curious', NULL, '{"stability": 0.5, "similarity_boost": 0.75, "style": 0.5}', 0)
+ON CONFLICT (provider, provider_voice_id, language) DO NOTHING;
+
+-- ============================================
+-- VOICE SAMPLES BUCKET
+-- ============================================
+-- Short previews played by the voice picker. An admin uploads them under
+-- <provider>/<provider_voice_id>.mp3 and sets the voice's sample_url to that path.
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('voice-samples', 'voice-samples', true)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Anyone can view voice-samples"
+  ON storage.objects FOR SELECT
+  USING (bucket_id = 'voice-samples');
+
+CREATE POLICY "Admins can manage voice-samples"
+  ON storage.objects FOR ALL
+  USING (bucket_id = 'voice-samples' AND public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (bucket_id = 'voice-samples' AND public.has_role(auth.uid(), 'admin'));
+
+-- ============================================
+-- PROJECT VOICE
+-- ============================================
+-- The picked narrator voice and its tuning. Null settings fall back to the
+-- voice's own defaults; a null voice falls back to language + voice_type.
+
+ALTER TABLE public.projects
+ADD COLUMN IF NOT EXISTS voice_id UUID REFERENCES public.voices(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS voice_stability NUMERIC(3,2) CHECK (voice_stability BETWEEN 0 AND 1),
+ADD COLUMN IF NOT EXISTS voice_style NUMERIC(3,2) CHECK (voice_style BETWEEN 0 AND 1);
+
+-- ============================================
+-- CHARACTER VOICE
+-- ============================================
+-- The catalogue voice a character's dialogue is read in. voice_type stays as
+-- the fallback when the voice is missing or belongs to another provider.
+
+ALTER TABLE public.characters
+ADD COLUMN IF NOT EXISTS voice_id UUID REFERENCES public.voices(id) ON DELETE SET NULL;
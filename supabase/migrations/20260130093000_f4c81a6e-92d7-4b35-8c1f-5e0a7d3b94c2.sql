@@ -0,0 +1,24 @@
+-- ============================================
+-- TTS PROVIDERS
+-- ============================================
+-- Voiceovers can come from ElevenLabs or a self-hosted Piper server (see
+-- supabase/functions/_shared/tts.ts). A project may pick one; either way the
+-- other configured provider is tried when the first is unavailable.
+
+ALTER TABLE public.projects
+ADD COLUMN IF NOT EXISTS tts_provider TEXT CHECK (tts_provider IN ('elevenlabs', 'piper'));
+
+ALTER TABLE public.voices
+ADD CONSTRAINT voices_provider_check CHECK (provider IN ('elevenlabs', 'piper'));
+
+-- Piper voice models; the server at PIPER_URL must have them downloaded.
+-- There is no child model, so child characters fall back to the narrator.
+INSERT INTO public.voices (provider, provider_voice_id, name, language, voice_type, description, sample_url, voice_settings, sort_order) VALUES
+  ('piper', 'en_US-lessac-medium', 'Lessac (offline)', 'english', 'female', 'Clear American English', NULL, '{}', 10),
+  ('piper', 'en_US-amy-medium', 'Amy (offline)', 'english', 'female', 'Bright American English', NULL, '{}', 11),
+  ('piper', 'en_US-ryan-medium', 'Ryan (offline)', 'english', 'male', 'Steady American English', NULL, '{}', 10),
+  ('piper', 'hi_IN-priyamvada-medium', 'Priyamvada (offline)', 'hindi', 'female', 'Hindi', NULL, '{}', 10),
+  ('piper', 'hi_IN-pratham-medium', 'Pratham (offline)', 'hindi', 'male', 'Hindi', NULL, '{}', 10),
+  ('piper', 'hi_IN-priyamvada-medium', 'Priyamvada (offline)', 'hinglish', 'female', 'Hindi', NULL, '{}', 10),
+  ('piper', 'hi_IN-pratham-medium', 'Pratham (offline)', 'hinglish', 'male', 'Hindi', NULL, '{}', 10)
+ON CONFLICT (provider, provider_voice_id, language) DO NOTHING;
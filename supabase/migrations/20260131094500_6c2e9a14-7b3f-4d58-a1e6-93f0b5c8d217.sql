@@ -0,0 +1,29 @@
+-- ============================================
+-- AI MODEL SETTINGS
+-- ============================================
+-- The model each AI feature calls, chosen by an admin from the registry in
+-- supabase/functions/_shared/ai.ts. A missing row, or a model the registry
+-- doesn't know, falls back to the registry's default for the feature.
+
+CREATE TABLE public.ai_model_settings (
+  feature TEXT PRIMARY KEY CHECK (feature IN ('generate-scenes', 'generate-image')),
+  model_id TEXT NOT NULL,
+  updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.ai_model_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage AI model settings"
+  ON public.ai_model_settings FOR ALL
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_ai_model_settings_updated_at
+  BEFORE UPDATE ON public.ai_model_settings
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.ai_model_settings (feature, model_id) VALUES
+  ('generate-scenes', 'google/gemini-2.5-flash'),
+  ('generate-image', 'google/gemini-2.5-flash-image-preview')
+ON CONFLICT (feature) DO NOTHING;
@@ -0,0 +1,12 @@
+-- ============================================
+-- ASSET INPUT HASHES
+-- ============================================
+-- Hash of the text each scene asset was made from (src/lib/assetInputs.ts):
+-- the visual description (or narration) for the image, the narration for the
+-- voiceover. The editor flags an asset as outdated once the scene's text no
+-- longer hashes to the same value. NULL for assets made before this was
+-- tracked, which are never flagged.
+
+ALTER TABLE public.scenes
+  ADD COLUMN image_input_hash TEXT,
+  ADD COLUMN audio_input_hash TEXT;
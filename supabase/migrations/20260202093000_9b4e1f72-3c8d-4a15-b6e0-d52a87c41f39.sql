@@ -0,0 +1,14 @@
+-- ============================================
+-- STORY WRITER MODEL SETTING
+-- ============================================
+-- write-story drafts scripts from a premise and is configured like the
+-- other AI features.
+
+ALTER TABLE public.ai_model_settings
+  DROP CONSTRAINT ai_model_settings_feature_check,
+  ADD CONSTRAINT ai_model_settings_feature_check
+    CHECK (feature IN ('generate-scenes', 'generate-image', 'write-story'));
+
+INSERT INTO public.ai_model_settings (feature, model_id) VALUES
+  ('write-story', 'google/gemini-2.5-flash')
+ON CONFLICT (feature) DO NOTHING;
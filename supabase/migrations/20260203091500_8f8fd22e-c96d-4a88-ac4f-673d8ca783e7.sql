@@ -0,0 +1,123 @@
+-- ============================================
+-- QUEUED SCENE GENERATION
+-- ============================================
+-- 'generate-scenes' jobs stream the model's reply and save each scene as it
+-- is parsed. Until the whole set is in, the new scenes are drafts tagged with
+-- their job and the editor keeps showing the old scenes; the job then swaps
+-- them in with publish_generated_scenes. Range rewrites run as the same job
+-- type with payload.range set, and write their scenes directly.
+
+ALTER TABLE public.scenes
+ADD COLUMN IF NOT EXISTS generation_job_id UUID REFERENCES public.generation_jobs(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_scenes_generation_job
+ON public.scenes (generation_job_id)
+WHERE generation_job_id IS NOT NULL;
+
+-- Replaces the project's scenes with the job's drafts in one transaction.
+-- Drafts left behind by other, failed generations go with the old scenes.
+CREATE OR REPLACE FUNCTION public.publish_generated_scenes(p_job_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_project_id UUID;
+  v_count INTEGER;
+BEGIN
+  SELECT project_id INTO v_project_id
+  FROM public.generation_jobs
+  WHERE id = p_job_id;
+
+  IF NOT FOUND THEN
+    RETURN 0;
+  END IF;
+
+  DELETE FROM public.scenes
+  WHERE project_id = v_project_id
+  AND generation_job_id IS DISTINCT FROM p_job_id;
+
+  UPDATE public.scenes
+  SET generation_job_id = NULL
+  WHERE generation_job_id = p_job_id;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.publish_generated_scenes(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.publish_generated_scenes(UUID) TO service_role;
+
+-- ============================================
+-- CANCELLING SCENE GENERATION
+-- ============================================
+-- A cancelled job stops at the next scene; the scenes it already wrote
+-- replace the old ones, so cancelling keeps what was generated so far.
+
+ALTER TABLE public.generation_jobs DROP CONSTRAINT IF EXISTS generation_jobs_status_check;
+ALTER TABLE public.generation_jobs
+ADD CONSTRAINT generation_jobs_status_check
+  CHECK (status IN ('queued', 'processing', 'completed', 'failed', 'cancelled'));
+
+CREATE OR REPLACE FUNCTION public.cancel_generation_job(p_job_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  UPDATE public.generation_jobs
+  SET
+    status = 'cancelled',
+    completed_at = now()
+  WHERE id = p_job_id
+  AND user_id = auth.uid()
+  AND job_type = 'generate-scenes'
+  AND status IN ('queued', 'processing');
+
+  RETURN FOUND;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.cancel_generation_job(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.cancel_generation_job(UUID) TO authenticated;
+
+-- ============================================
+-- CLIENT-QUEUED JOBS
+-- ============================================
+-- Clients queue scene generation for their own projects again, alongside
+-- image, voiceover and reframe jobs for their own scenes.
+DROP POLICY IF EXISTS "Users can create their own jobs" ON public.generation_jobs;
+
+CREATE POLICY "Users can create their own jobs"
+ON public.generation_jobs
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND status = 'queued'
+  AND retry_count = 0
+  AND max_retries = 3
+  AND (
+    (
+      job_type = 'generate-scenes'
+      AND scene_id IS NULL
+      AND EXISTS (
+        SELECT 1 FROM public.projects p
+        WHERE p.id = generation_jobs.project_id
+        AND p.user_id = auth.uid()
+      )
+    )
+    OR (
+      job_type IN ('generate-image', 'generate-voiceover', 'reframe-image')
+      AND EXISTS (
+        SELECT 1 FROM public.scenes s
+        JOIN public.projects p ON p.id = s.project_id
+        WHERE s.id = generation_jobs.scene_id
+        AND s.project_id = generation_jobs.project_id
+        AND p.user_id = auth.uid()
+      )
+    )
+  )
+);
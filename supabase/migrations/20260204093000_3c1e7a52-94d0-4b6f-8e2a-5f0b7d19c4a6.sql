@@ -0,0 +1,9 @@
+-- ============================================
+-- SCENE SCRIPT PASSAGES
+-- ============================================
+-- The passage of the script each scene was generated from, recorded by the
+-- generate-scenes job. The script tab diffs these passages against the
+-- edited script to find the scenes an edit touches, so narration edited by
+-- hand is never mistaken for a script change. Scenes added by hand, or
+-- generated before this, have none.
+ALTER TABLE public.scenes ADD COLUMN IF NOT EXISTS script_passage TEXT;
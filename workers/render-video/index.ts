@@ -0,0 +1,619 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { commitCredits, refundCredits } from "../../supabase/functions/_shared/credits.ts";
+import { isRenderAssetUrl } from "../../supabase/functions/_shared/renderAssets.ts";
+import type { RenderAssetKind, RenderAssetScope } from "../../supabase/functions/_shared/renderAssets.ts";
+import { getIncomingTransition, MOTION_ZOOM, TRANSITION_MS } from "../../src/lib/motion.ts";
+import type { SceneMotion, SceneTransition } from "../../src/lib/motion.ts";
+import { MUSIC_DUCK_ATTACK_MS, MUSIC_DUCK_LEVEL, MUSIC_DUCK_RELEASE_MS } from "../../src/lib/music.ts";
+import type { MusicMix } from "../../src/lib/music.ts";
+
+/**
+ * Render Video Worker
+ *
+ * Claims 'render-video' jobs from generation_jobs and renders the export
+ * manifest into an H.264/AAC MP4 with ffmpeg, then stores it as the project's
+ * exported_video_url. Runs on any Linux machine with Deno and ffmpeg:
+ *
+ *   SUPABASE_URL=... SUPABASE_SERVICE_ROLE_KEY=... \
+ *     deno run --allow-net --allow-env --allow-run --allow-read --allow-write workers/render-video/index.ts
+ *
+ * Pass --once to drain the queue and exit (e.g. from cron).
+ *
+ * A job is only rendered when it carries export-video's credit reservation,
+ * and only files stored with the project are downloaded. ffmpeg is limited to
+ * local files and told each input's format, so no input is read as a playlist.
+ */
+
+const JOB_TYPES = ["render-video"];
+const POLL_INTERVAL_MS = 10_000;
+const PROGRESS_INTERVAL_MS = 5_000;
+const FRAME_RATE = 30;
+const WATERMARK_TEXT = "KakiStoryChannel";
+
+// Cost pricing configuration (USD)
+const EXPORT_PRICING = {
+  per_export: 0.01,
+  usd_to_inr: 83,
+};
+
+interface ManifestScene {
+  order: number;
+  imageUrl: string;
+  audioUrl: string;
+  duration: number;
+  motion?: SceneMotion;
+  transition?: SceneTransition;
+}
+
+interface VideoManifest {
+  projectId: string;
+  aspectRatio: string;
+  includeWatermark: boolean;
+  resolution: { width: number; height: number };
+  scenes: ManifestScene[];
+  music?: MusicMix | null;
+  totalDuration: number;
+  userId: string;
+}
+
+interface RenderJob {
+  id: string;
+  user_id: string;
+  project_id: string;
+  payload: { manifest_path?: string; ledger_id?: string };
+}
+
+interface MediaFormat {
+  demuxer: string;
+  extension: string;
+}
+
+interface DownloadedFile {
+  path: string;
+  demuxer: string;
+}
+
+interface RenderInput {
+  image: DownloadedFile;
+  audio: DownloadedFile;
+  duration: number;
+  // Seconds of actual speech, which the background music ducks under
+  narrationDuration: number;
+  motion: SceneMotion;
+  transition: SceneTransition;
+}
+
+class RenderError extends Error {
+  constructor(message: string, public retryable: boolean) {
+    super(message);
+  }
+}
+
+async function logUsage(
+  supabase: SupabaseClient,
+  userId: string,
+  projectId: string,
+  status: "success" | "failed",
+  sceneCount: number,
+  errorMessage?: string
+) {
+  try {
+    const costUsd = EXPORT_PRICING.per_export;
+    const costInr = costUsd * EXPORT_PRICING.usd_to_inr;
+
+    await supabase.from("api_usage_logs").insert({
+      user_id: userId,
+      project_id: projectId,
+      feature: "export-video",
+      provider: "internal",
+      model: "ffmpeg-h264",
+      api_calls: 1,
+      input_tokens: 0,
+      output_tokens: 0,
+      total_tokens: 0,
+      cost_usd: status === "success" ? costUsd : 0,
+      cost_inr: status === "success" ? costInr : 0,
+      status,
+      error_message: errorMessage,
+      metadata: { scene_count: sceneCount },
+    });
+  } catch (err) {
+    console.error("Failed to log usage:", err);
+  }
+}
+
+async function setProgress(supabase: SupabaseClient, jobId: string, progress: number) {
+  await supabase.from("generation_jobs").update({ progress: Math.round(progress) }).eq("id", jobId);
+}
+
+function hasBytes(data: Uint8Array, offset: number, bytes: string): boolean {
+  return [...bytes].every((char, i) => data[offset + i] === char.charCodeAt(0));
+}
+
+// The accepted image and audio types, told apart by their leading bytes
+function detectMediaFormat(data: Uint8Array, media: "image" | "audio"): MediaFormat | null {
+  if (media === "image") {
+    if (hasBytes(data, 0, "\x89PNG")) return { demuxer: "image2", extension: "png" };
+    if (data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) return { demuxer: "image2", extension: "jpg" };
+    if (hasBytes(data, 0, "RIFF") && hasBytes(data, 8, "WEBP")) return { demuxer: "image2", extension: "webp" };
+    return null;
+  }
+
+  if (hasBytes(data, 0, "ID3")) return { demuxer: "mp3", extension: "mp3" };
+  if (data[0] === 0xff && (data[1] & 0xe0) === 0xe0) {
+    // MPEG layer bits of 00 mark an ADTS AAC stream rather than MP3
+    return (data[1] & 0x06) === 0 ? { demuxer: "aac", extension: "aac" } : { demuxer: "mp3", extension: "mp3" };
+  }
+  if (hasBytes(data, 0, "RIFF") && hasBytes(data, 8, "WAVE")) return { demuxer: "wav", extension: "wav" };
+  if (hasBytes(data, 0, "OggS")) return { demuxer: "ogg", extension: "ogg" };
+  if (hasBytes(data, 4, "ftyp")) return { demuxer: "mov", extension: "m4a" };
+  return null;
+}
+
+// Only the project's own storage objects are fetched, whatever the manifest says
+async function downloadFile(
+  url: string,
+  kind: RenderAssetKind,
+  media: "image" | "audio",
+  scope: RenderAssetScope,
+  basePath: string
+): Promise<DownloadedFile> {
+  if (!isRenderAssetUrl(url, kind, scope, Deno.env.get("SUPABASE_URL")!)) {
+    throw new RenderError(`Refusing to download ${url}: not a file of this project`, false);
+  }
+
+  const response = await fetch(url, { redirect: "error" });
+  if (!response.ok) {
+    throw new RenderError(`Failed to download ${url}: ${response.status}`, response.status >= 500);
+  }
+
+  const data = new Uint8Array(await response.arrayBuffer());
+  const format = detectMediaFormat(data, media);
+  if (!format) {
+    throw new RenderError(`Unsupported ${media} file: ${url}`, false);
+  }
+
+  const path = `${basePath}.${format.extension}`;
+  await Deno.writeFile(path, data);
+  return { path, demuxer: format.demuxer };
+}
+
+// Input options that stop ffmpeg from probing the format or opening anything but the local file
+function inputArgs(file: DownloadedFile): string[] {
+  const args = ["-protocol_whitelist", "file", "-f", file.demuxer];
+  if (file.demuxer === "image2") {
+    args.push("-pattern_type", "none");
+  }
+  return args;
+}
+
+async function probeDuration(file: DownloadedFile): Promise<number | null> {
+  const output = await new Deno.Command("ffprobe", {
+    args: [
+      "-v", "error",
+      ...inputArgs(file),
+      "-show_entries", "format=duration",
+      "-of", "default=noprint_wrappers=1:nokey=1",
+      file.path,
+    ],
+    stdout: "piped",
+    stderr: "null",
+  }).output();
+
+  const duration = parseFloat(new TextDecoder().decode(output.stdout));
+  return output.success && Number.isFinite(duration) && duration > 0 ? duration : null;
+}
+
+// Whole frames, so each scene's audio is padded to exactly its video length
+function toFrameDuration(seconds: number): number {
+  return Math.ceil(seconds * FRAME_RATE) / FRAME_RATE;
+}
+
+/**
+ * zoompan expressions for a Ken Burns preset. These are getMotionWindow() from
+ * src/lib/motion.ts written in ffmpeg's expression language, with progress
+ * taken from the output frame number.
+ */
+function motionExpressions(motion: SceneMotion, frameCount: number): { z: string; x: string; y: string } {
+  const p = `min(1,on/${Math.max(1, frameCount - 1)})`;
+  const zoom = MOTION_ZOOM.toFixed(4);
+  const centerX = "(iw-iw/zoom)/2";
+  const centerY = "(ih-ih/zoom)/2";
+
+  switch (motion) {
+    case "zoom-in":
+      return { z: `1+(${zoom}-1)*${p}`, x: centerX, y: centerY };
+    case "zoom-out":
+      return { z: `${zoom}-(${zoom}-1)*${p}`, x: centerX, y: centerY };
+    case "pan-left":
+      return { z: zoom, x: `(iw-iw/zoom)*(1-${p})`, y: centerY };
+    case "pan-right":
+      return { z: zoom, x: `(iw-iw/zoom)*${p}`, y: centerY };
+    default:
+      return { z: "1", x: "0", y: "0" };
+  }
+}
+
+/**
+ * volume expression that dips the music under each scene's narration, with
+ * the same level, attack and release the browser recorder schedules.
+ */
+function duckExpression(inputs: RenderInput[], volume: number): string {
+  const attack = (MUSIC_DUCK_ATTACK_MS / 1000).toFixed(3);
+  const release = (MUSIC_DUCK_RELEASE_MS / 1000).toFixed(3);
+  const windows: string[] = [];
+  let offset = 0;
+
+  for (const input of inputs) {
+    const start = offset.toFixed(3);
+    const end = (offset + input.narrationDuration).toFixed(3);
+    windows.push(`clip((t-${start})/${attack},0,1)*clip((${end}+${release}-t)/${release},0,1)`);
+    offset += input.duration;
+  }
+
+  return `${volume.toFixed(3)}*(1-${(1 - MUSIC_DUCK_LEVEL).toFixed(3)}*min(1,${windows.join("+")}))`;
+}
+
+function buildFilterGraph(inputs: RenderInput[], manifest: VideoManifest, music: MusicMix | null): string {
+  const { width, height } = manifest.resolution;
+  const transitionSeconds = (TRANSITION_MS / 1000).toFixed(3);
+  const halfTransitionSeconds = (TRANSITION_MS / 2000).toFixed(3);
+  const filters: string[] = [];
+  let audioInputs = "";
+
+  inputs.forEach((input, i) => {
+    const duration = input.duration.toFixed(3);
+    const transition = getIncomingTransition(input.transition, i);
+    const nextTransition = i + 1 < inputs.length ? getIncomingTransition(inputs[i + 1].transition, i + 1) : "cut";
+
+    // Motion is rendered at twice the output size so slow pans don't step between pixels
+    let video: string;
+    if (input.motion === "none") {
+      video = `scale=${width}:${height}:force_original_aspect_ratio=increase,crop=${width}:${height},setsar=1`;
+    } else {
+      const { z, x, y } = motionExpressions(input.motion, Math.round(input.duration * FRAME_RATE));
+      video =
+        `scale=${width * 2}:${height * 2}:force_original_aspect_ratio=increase,crop=${width * 2}:${height * 2},setsar=1,` +
+        `zoompan=z='${z}':x='${x}':y='${y}':d=1:s=${width}x${height}:fps=${FRAME_RATE}`;
+    }
+
+    const fades: string[] = [];
+    if (transition === "dip-to-black") {
+      fades.push(`fade=t=in:st=0:d=${halfTransitionSeconds}`);
+    }
+    if (nextTransition === "dip-to-black") {
+      fades.push(`fade=t=out:st=${(input.duration - TRANSITION_MS / 2000).toFixed(3)}:d=${halfTransitionSeconds}`);
+    }
+
+    filters.push(
+      `[${i * 2}:v]${video},fps=${FRAME_RATE},trim=duration=${duration},setpts=PTS-STARTPTS,` +
+        `${fades.map((fade) => `${fade},`).join("")}format=yuv420p[v${i}]`
+    );
+    filters.push(
+      `[${i * 2 + 1}:a]aresample=48000,aformat=sample_fmts=fltp:channel_layouts=stereo,` +
+        `apad,atrim=duration=${duration},asetpts=PTS-STARTPTS[a${i}]`
+    );
+    audioInputs += `[a${i}]`;
+  });
+
+  // Join scenes one at a time. A crossfade holds the outgoing scene's last
+  // frame for the transition, so scene start times match the narration.
+  let joined = "v0";
+  let offset = inputs[0].duration;
+  for (let i = 1; i < inputs.length; i++) {
+    const label = `vj${i}`;
+    if (getIncomingTransition(inputs[i].transition, i) === "crossfade") {
+      filters.push(`[${joined}]tpad=stop_mode=clone:stop_duration=${transitionSeconds}[vp${i}]`);
+      filters.push(
+        `[vp${i}][v${i}]xfade=transition=fade:duration=${transitionSeconds}:offset=${offset.toFixed(3)}[${label}]`
+      );
+    } else {
+      filters.push(`[${joined}][v${i}]concat=n=2:v=1:a=0[${label}]`);
+    }
+    joined = label;
+    offset += inputs[i].duration;
+  }
+
+  if (music) {
+    const totalDuration = inputs.reduce((sum, input) => sum + input.duration, 0);
+    const fadeIn = music.fadeInMs / 1000;
+    const fadeOut = Math.min(music.fadeOutMs / 1000, totalDuration);
+    const fades: string[] = [];
+    if (fadeIn > 0) {
+      fades.push(`afade=t=in:st=0:d=${fadeIn.toFixed(3)}`);
+    }
+    if (fadeOut > 0) {
+      fades.push(`afade=t=out:st=${(totalDuration - fadeOut).toFixed(3)}:d=${fadeOut.toFixed(3)}`);
+    }
+
+    // The music input follows the image/audio pair of every scene
+    filters.push(`${audioInputs}concat=n=${inputs.length}:v=0:a=1[narration]`);
+    filters.push(
+      `[${inputs.length * 2}:a]aresample=48000,aformat=sample_fmts=fltp:channel_layouts=stereo,` +
+        `volume='${duckExpression(inputs, music.volume)}':eval=frame,` +
+        `${fades.map((fade) => `${fade},`).join("")}atrim=duration=${totalDuration.toFixed(3)}[music]`
+    );
+    filters.push(`[narration][music]amix=inputs=2:duration=first:dropout_transition=0:normalize=0[aout]`);
+  } else {
+    filters.push(`${audioInputs}concat=n=${inputs.length}:v=0:a=1[aout]`);
+  }
+
+  if (manifest.includeWatermark) {
+    const fontFile = Deno.env.get("RENDER_FONT_FILE");
+    filters.push(
+      `[${joined}]drawtext=text='${WATERMARK_TEXT}':${fontFile ? `fontfile='${fontFile}':` : ""}` +
+        `fontcolor=white@0.6:fontsize=h/30:x=w-tw-h/40:y=h-th-h/40,format=yuv420p[vout]`
+    );
+  } else {
+    filters.push(`[${joined}]format=yuv420p[vout]`);
+  }
+
+  return filters.join(";");
+}
+
+async function runFfmpeg(args: string[], totalDuration: number, onProgress: (fraction: number) => Promise<void>) {
+  const child = new Deno.Command("ffmpeg", {
+    args: ["-hide_banner", "-nostats", "-progress", "pipe:1", ...args],
+    stdout: "piped",
+    stderr: "piped",
+  }).spawn();
+
+  // Keep only the end of stderr for the error message
+  let stderrTail = "";
+  const stderrDone = (async () => {
+    for await (const chunk of child.stderr.pipeThrough(new TextDecoderStream())) {
+      stderrTail = (stderrTail + chunk).slice(-2000);
+    }
+  })();
+
+  let lastReport = 0;
+  for await (const chunk of child.stdout.pipeThrough(new TextDecoderStream())) {
+    const match = chunk.match(/out_time_us=(\d+)/g)?.pop()?.match(/\d+/);
+    if (match && Date.now() - lastReport > PROGRESS_INTERVAL_MS) {
+      lastReport = Date.now();
+      await onProgress(Math.min(1, parseInt(match[0], 10) / 1_000_000 / totalDuration));
+    }
+  }
+
+  const status = await child.status;
+  await stderrDone;
+
+  if (!status.success) {
+    throw new RenderError(`ffmpeg exited with code ${status.code}: ${stderrTail.trim()}`, true);
+  }
+}
+
+// Render jobs are only queued by export-video, which reserves the export credits first
+async function getReservedLedgerId(supabase: SupabaseClient, job: RenderJob): Promise<string> {
+  const ledgerId = job.payload.ledger_id;
+  if (!ledgerId) {
+    throw new RenderError("Render job has no credit reservation", false);
+  }
+
+  const { data: entry, error } = await supabase
+    .from("credit_ledger")
+    .select("user_id, project_id, feature, status")
+    .eq("id", ledgerId)
+    .maybeSingle();
+
+  if (error) {
+    throw new RenderError(`Failed to load credit reservation: ${error.message}`, true);
+  }
+  if (
+    !entry ||
+    entry.user_id !== job.user_id ||
+    entry.project_id !== job.project_id ||
+    entry.feature !== "export-video" ||
+    entry.status !== "reserved"
+  ) {
+    throw new RenderError("Render job has no reserved export credits", false);
+  }
+  return ledgerId;
+}
+
+async function loadAssetScope(supabase: SupabaseClient, job: RenderJob): Promise<RenderAssetScope> {
+  const { data: project, error } = await supabase
+    .from("projects")
+    .select("user_id, scenes(id)")
+    .eq("id", job.project_id)
+    .maybeSingle();
+
+  if (error) {
+    throw new RenderError(`Failed to load project: ${error.message}`, true);
+  }
+  if (!project || project.user_id !== job.user_id) {
+    throw new RenderError("Project does not belong to this job", false);
+  }
+
+  return {
+    userId: job.user_id,
+    projectId: job.project_id,
+    sceneIds: (project.scenes as { id: string }[]).map((scene) => scene.id),
+  };
+}
+
+async function renderJob(supabase: SupabaseClient, job: RenderJob, ledgerId: string): Promise<Record<string, unknown>> {
+  if (!job.payload.manifest_path) {
+    throw new RenderError("Render job has no manifest", false);
+  }
+
+  const { data: manifestBlob, error: manifestError } = await supabase.storage
+    .from("exported-videos")
+    .download(job.payload.manifest_path);
+
+  if (manifestError || !manifestBlob) {
+    throw new RenderError("Video manifest not found", false);
+  }
+
+  const manifest: VideoManifest = JSON.parse(await manifestBlob.text());
+  if (manifest.projectId !== job.project_id || manifest.userId !== job.user_id) {
+    throw new RenderError("Manifest does not belong to this job", false);
+  }
+
+  const scope = await loadAssetScope(supabase, job);
+
+  const workDir = await Deno.makeTempDir({ prefix: "render-video-" });
+
+  try {
+    const scenes = [...manifest.scenes].sort((a, b) => a.order - b.order);
+    const inputs: RenderInput[] = [];
+
+    for (const [i, scene] of scenes.entries()) {
+      const image = await downloadFile(scene.imageUrl, "scene", "image", scope, `${workDir}/scene-${i}-image`);
+      const audio = await downloadFile(scene.audioUrl, "scene", "audio", scope, `${workDir}/scene-${i}-audio`);
+
+      // The narration sets the scene length; the manifest value is only a fallback
+      const audioDuration = await probeDuration(audio);
+      const duration = toFrameDuration(audioDuration ?? scene.duration);
+      inputs.push({
+        image,
+        audio,
+        duration,
+        narrationDuration: Math.min(audioDuration ?? duration, duration),
+        motion: scene.motion ?? "none",
+        transition: scene.transition ?? "cut",
+      });
+
+      await setProgress(supabase, job.id, 5 + ((i + 1) / scenes.length) * 15);
+    }
+
+    let music: DownloadedFile | null = null;
+    if (manifest.music) {
+      music = await downloadFile(manifest.music.url, "music", "audio", scope, `${workDir}/music`);
+    }
+
+    const totalDuration = inputs.reduce((sum, input) => sum + input.duration, 0);
+    const outputPath = `${workDir}/output.mp4`;
+
+    const args: string[] = ["-y"];
+    for (const input of inputs) {
+      args.push(
+        ...inputArgs(input.image),
+        "-loop", "1", "-framerate", String(FRAME_RATE), "-t", input.duration.toFixed(3),
+        "-i", input.image.path,
+      );
+      args.push(...inputArgs(input.audio), "-i", input.audio.path);
+    }
+    if (music) {
+      args.push(...inputArgs(music), "-stream_loop", "-1", "-i", music.path);
+    }
+    args.push(
+      "-filter_complex", buildFilterGraph(inputs, manifest, music ? manifest.music : null),
+      "-map", "[vout]",
+      "-map", "[aout]",
+      "-c:v", "libx264",
+      "-preset", "medium",
+      "-crf", "20",
+      "-profile:v", "high",
+      "-pix_fmt", "yuv420p",
+      "-r", String(FRAME_RATE),
+      "-c:a", "aac",
+      "-b:a", "192k",
+      "-ar", "48000",
+      "-movflags", "+faststart",
+      outputPath,
+    );
+
+    console.log(`Rendering ${inputs.length} scenes (${totalDuration.toFixed(2)}s) for job ${job.id}`);
+    await runFfmpeg(args, totalDuration, (fraction) => setProgress(supabase, job.id, 20 + fraction * 70));
+
+    const videoData = await Deno.readFile(outputPath);
+    const videoFileName = `${job.project_id}/video-${Date.now()}.mp4`;
+
+    const { error: uploadError } = await supabase.storage
+      .from("exported-videos")
+      .upload(videoFileName, videoData, { contentType: "video/mp4", upsert: true });
+
+    if (uploadError) {
+      throw new RenderError(`Failed to upload video: ${uploadError.message}`, true);
+    }
+
+    const { data: urlData } = supabase.storage.from("exported-videos").getPublicUrl(videoFileName);
+
+    const { error: projectError } = await supabase
+      .from("projects")
+      .update({ exported_video_url: urlData.publicUrl, status: "exported" })
+      .eq("id", job.project_id);
+
+    if (projectError) {
+      throw new RenderError(`Failed to update project: ${projectError.message}`, true);
+    }
+
+    await commitCredits(supabase, ledgerId);
+    await logUsage(supabase, job.user_id, job.project_id, "success", inputs.length);
+
+    console.log(`Rendered job ${job.id}: ${urlData.publicUrl}`);
+
+    return { video_url: urlData.publicUrl, duration: totalDuration, size_bytes: videoData.length };
+  } finally {
+    await Deno.remove(workDir, { recursive: true }).catch(() => {});
+  }
+}
+
+async function processJob(supabase: SupabaseClient, job: RenderJob) {
+  // Set once the reservation is checked, so a job never refunds credits it doesn't own
+  let ledgerId: string | null = null;
+
+  try {
+    ledgerId = await getReservedLedgerId(supabase, job);
+    const result = await renderJob(supabase, job, ledgerId);
+    await supabase.rpc("complete_generation_job", { p_job_id: job.id, p_result: result });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    const retryable = error instanceof RenderError ? error.retryable : true;
+    console.error(`Render job ${job.id} failed (retryable: ${retryable}):`, message);
+
+    const { data: status } = await supabase.rpc("fail_generation_job", {
+      p_job_id: job.id,
+      p_error: message,
+      p_retryable: retryable,
+    });
+
+    if (status === "failed") {
+      await refundCredits(supabase, ledgerId, message);
+      await logUsage(supabase, job.user_id, job.project_id, "failed", 0, message);
+    }
+  }
+}
+
+async function main() {
+  const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
+  const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+    console.error("SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY must be set");
+    Deno.exit(1);
+  }
+
+  const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+  const runOnce = Deno.args.includes("--once");
+
+  // Finish the current render before exiting
+  let stopping = false;
+  Deno.addSignalListener("SIGTERM", () => {
+    stopping = true;
+  });
+
+  console.log(`Render worker started${runOnce ? " (--once)" : ""}`);
+
+  while (!stopping) {
+    const { data: jobs, error } = await supabase.rpc("claim_generation_jobs", {
+      p_limit: 1,
+      p_job_types: JOB_TYPES,
+    });
+
+    if (error) {
+      console.error("Failed to claim render jobs:", error.message);
+    } else if (jobs && jobs.length > 0) {
+      await processJob(supabase, jobs[0] as RenderJob);
+      continue;
+    }
+
+    if (runOnce) break;
+    await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+  }
+
+  console.log("Render worker stopped");
+}
+
+main();